@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { buildManifest, validateManifest } from '@/lib/manifest';
+
+// Mini-app manifest, generated from environment config (CORS header in next.config.mjs)
+export async function GET() {
+    try {
+        const manifest = buildManifest();
+        const issues = validateManifest(manifest);
+
+        // Clients reject a bad manifest; fail loudly in production instead of serving one
+        if (issues.length > 0) {
+            console.error('Invalid mini-app manifest:', issues);
+            if (process.env.NODE_ENV === 'production') {
+                return NextResponse.json(
+                    { error: 'Invalid manifest', issues },
+                    { status: 500 }
+                );
+            }
+        }
+
+        return NextResponse.json(manifest);
+
+    } catch (error) {
+        console.error('Error building manifest:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminActor, getAdminAuditLog } from '@/lib/admin';
+
+const MAX_PAGE_SIZE = 100;
+
+// Admin actions, newest first: ?fid= (target player), ?cursor=, ?limit=
+export async function GET(request: NextRequest) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const fidParam = searchParams.get('fid');
+        const cursorParam = searchParams.get('cursor');
+        const limit = parseInt(searchParams.get('limit') || '50', 10);
+
+        const targetFid = fidParam ? parseInt(fidParam, 10) : null;
+        const cursor = cursorParam ? parseInt(cursorParam, 10) : null;
+
+        if ((targetFid !== null && isNaN(targetFid)) || (cursor !== null && isNaN(cursor)) || isNaN(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid fid, cursor or limit' },
+                { status: 400 }
+            );
+        }
+
+        const { entries, nextCursor } = await getAdminAuditLog({
+            targetFid,
+            cursor,
+            limit: Math.min(limit, MAX_PAGE_SIZE),
+        });
+
+        return NextResponse.json({ entries, nextCursor });
+
+    } catch (error) {
+        console.error('Error getting audit log:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
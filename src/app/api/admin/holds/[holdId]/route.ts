@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminActor, reviewTokenHold } from '@/lib/admin';
+
+// Settle a pending hold: body { action: 'release' | 'reject' }. Release credits the withheld
+// tokens through the ledger; reject forfeits them.
+export async function POST(request: NextRequest, context: { params: Promise<{ holdId: string }> }) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const holdId = Number((await context.params).holdId);
+        if (!Number.isInteger(holdId) || holdId < 1) {
+            return NextResponse.json(
+                { error: 'Invalid hold id' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const { action } = body;
+
+        if (action !== 'release' && action !== 'reject') {
+            return NextResponse.json(
+                { error: "action must be 'release' or 'reject'" },
+                { status: 400 }
+            );
+        }
+
+        // Status change, audit entry and credit happen together
+        const result = await reviewTokenHold({ actor, holdId, release: action === 'release' });
+        if (!result) {
+            return NextResponse.json(
+                { error: 'Hold not found or already reviewed', code: 'HOLD_NOT_PENDING' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({ holdId, ...result });
+
+    } catch (error) {
+        console.error('Error reviewing token hold:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminActor, listTokenHolds, TokenHoldStatus } from '@/lib/admin';
+
+const MAX_PAGE_SIZE = 100;
+const STATUSES: TokenHoldStatus[] = ['pending', 'released', 'rejected'];
+
+// Token holds awaiting review, oldest first: ?status= (default pending), ?cursor=, ?limit=
+export async function GET(request: NextRequest) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const status = (searchParams.get('status') || 'pending') as TokenHoldStatus;
+        const cursorParam = searchParams.get('cursor');
+        const limit = parseInt(searchParams.get('limit') || '50', 10);
+
+        const cursor = cursorParam ? parseInt(cursorParam, 10) : null;
+
+        if (!STATUSES.includes(status) || (cursor !== null && isNaN(cursor)) || isNaN(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid status, cursor or limit' },
+                { status: 400 }
+            );
+        }
+
+        const { holds, nextCursor } = await listTokenHolds({
+            status,
+            cursor,
+            limit: Math.min(limit, MAX_PAGE_SIZE),
+        });
+
+        return NextResponse.json({ holds, nextCursor });
+
+    } catch (error) {
+        console.error('Error listing token holds:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
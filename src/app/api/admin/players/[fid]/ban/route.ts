@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminActor, parseFidParam, recordAdminAction } from '@/lib/admin';
+import { banPlayer, unbanPlayer } from '@/lib/store';
+
+interface RouteContext {
+    params: Promise<{ fid: string }>;
+}
+
+// Ban a player from starting new sessions: body { reason? }
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const fid = parseFidParam((await context.params).fid);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Invalid fid' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const reason = typeof body.reason === 'string' && body.reason.trim()
+            ? body.reason.trim().slice(0, 280)
+            : null;
+
+        // Audited first, so a failed audit write leaves the player untouched
+        await recordAdminAction({ actor, action: 'ban', targetFid: fid, details: { reason } });
+        const player = await banPlayer(fid, reason);
+
+        return NextResponse.json({ fid, bannedAt: player.bannedAt, banReason: player.banReason });
+
+    } catch (error) {
+        console.error('Error banning player:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// Lift a ban
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const fid = parseFidParam((await context.params).fid);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Invalid fid' },
+                { status: 400 }
+            );
+        }
+
+        await recordAdminAction({ actor, action: 'unban', targetFid: fid });
+        await unbanPlayer(fid);
+
+        return NextResponse.json({ fid, bannedAt: null, banReason: null });
+
+    } catch (error) {
+        console.error('Error unbanning player:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminActor, parseFidParam, recordAdminAction } from '@/lib/admin';
+import { clearCooldown, getPlayer } from '@/lib/store';
+
+// Clear a player's cooldown so they can start a session right away
+export async function DELETE(request: NextRequest, context: { params: Promise<{ fid: string }> }) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const fid = parseFidParam((await context.params).fid);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Invalid fid' },
+                { status: 400 }
+            );
+        }
+
+        // Keep the cleared window in the audit log, written before the change
+        const previous = await getPlayer(fid);
+        await recordAdminAction({
+            actor,
+            action: 'clear_cooldown',
+            targetFid: fid,
+            details: {
+                sessionsInCooldown: previous.sessionsInCooldown,
+                cooldownEndsAt: previous.cooldownEndsAt,
+            },
+        });
+        await clearCooldown(fid);
+
+        return NextResponse.json({ fid, sessionsInCooldown: 0, cooldownEndsAt: null });
+
+    } catch (error) {
+        console.error('Error clearing cooldown:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
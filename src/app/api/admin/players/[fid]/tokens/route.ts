@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adjustPlayerTokens, getAdminActor, parseFidParam } from '@/lib/admin';
+import { generateNonce } from '@/lib/gameLogic';
+
+const MAX_ADJUSTMENT = 1_000_000;
+
+// Credit or debit a player's balance through the ledger: body { amount, note, adjustmentId? }.
+// amount is signed (negative reverses tokens); a repeated adjustmentId is applied once.
+export async function POST(request: NextRequest, context: { params: Promise<{ fid: string }> }) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const fid = parseFidParam((await context.params).fid);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Invalid fid' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const { amount, note } = body;
+        const adjustmentId = body.adjustmentId ?? generateNonce();
+
+        if (!Number.isInteger(amount) || amount === 0 || Math.abs(amount) > MAX_ADJUSTMENT) {
+            return NextResponse.json(
+                { error: 'Invalid amount' },
+                { status: 400 }
+            );
+        }
+
+        if (typeof note !== 'string' || !note.trim()) {
+            return NextResponse.json(
+                { error: 'A note is required' },
+                { status: 400 }
+            );
+        }
+
+        if (typeof adjustmentId !== 'string' || !/^[\w-]{1,64}$/.test(adjustmentId)) {
+            return NextResponse.json(
+                { error: 'Invalid adjustmentId' },
+                { status: 400 }
+            );
+        }
+
+        // Credited and audited together; a repeated adjustmentId changes nothing
+        const { inserted, total: totalTokens } = await adjustPlayerTokens({
+            actor,
+            fid,
+            adjustmentId,
+            amount,
+            note: note.trim().slice(0, 280),
+        });
+
+        if (!inserted) {
+            return NextResponse.json(
+                { error: 'Adjustment already applied', code: 'DUPLICATE_ADJUSTMENT', adjustmentId, totalTokens },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({ fid, adjustmentId, amount, totalTokens });
+
+    } catch (error) {
+        console.error('Error adjusting tokens:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
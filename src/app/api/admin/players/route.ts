@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchPlayers } from '@/lib/db';
+import { getAdminActor } from '@/lib/admin';
+import { getPlayer } from '@/lib/store';
+
+const MAX_PAGE_SIZE = 50;
+
+// List or search players with their moderation state: ?q= (fid or name), ?cursor=, ?limit=
+export async function GET(request: NextRequest) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const query = searchParams.get('q');
+        const cursor = parseInt(searchParams.get('cursor') || '0', 10);
+        const limit = parseInt(searchParams.get('limit') || '20', 10);
+
+        if (isNaN(cursor) || cursor < 0 || isNaN(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid cursor or limit' },
+                { status: 400 }
+            );
+        }
+
+        const { players, nextCursor } = await searchPlayers({
+            query,
+            cursor,
+            limit: Math.min(limit, MAX_PAGE_SIZE),
+        });
+
+        const withState = await Promise.all(players.map(async (player) => {
+            const state = await getPlayer(player.fid);
+            return {
+                ...player,
+                bannedAt: state.bannedAt,
+                banReason: state.banReason,
+                sessionsInCooldown: state.sessionsInCooldown,
+                cooldownEndsAt: state.cooldownEndsAt,
+            };
+        }));
+
+        return NextResponse.json({ players: withState, nextCursor });
+
+    } catch (error) {
+        console.error('Error listing players:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminActor, recordAdminAction } from '@/lib/admin';
+import {
+    deleteTournament,
+    getTournament,
+    getTournamentStatus,
+    parseTournamentId,
+    parseTournamentInput,
+    updateTournament
+} from '@/lib/tournaments';
+
+interface RouteContext {
+    params: Promise<{ tournamentId: string }>;
+}
+
+// Get one tournament
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const tournamentId = parseTournamentId((await context.params).tournamentId);
+        const tournament = tournamentId ? await getTournament(tournamentId) : null;
+        if (!tournament) {
+            return NextResponse.json(
+                { error: 'Tournament not found', code: 'TOURNAMENT_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ ...tournament, status: getTournamentStatus(tournament) });
+
+    } catch (error) {
+        console.error('Error getting tournament:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// Edit a tournament that hasn't started: any of { name, startsAt, endsAt, difficulty, maxAttempts, prizes }
+export async function PATCH(request: NextRequest, context: RouteContext) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const tournamentId = parseTournamentId((await context.params).tournamentId);
+        const current = tournamentId ? await getTournament(tournamentId) : null;
+        if (!current) {
+            return NextResponse.json(
+                { error: 'Tournament not found', code: 'TOURNAMENT_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        // Players may already have attempts on the published configuration
+        if (getTournamentStatus(current) !== 'scheduled') {
+            return NextResponse.json(
+                { error: 'Tournament has already started', code: 'TOURNAMENT_STARTED' },
+                { status: 409 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const parsed = parseTournamentInput(body, current);
+        if ('error' in parsed) {
+            return NextResponse.json(
+                { error: parsed.error },
+                { status: 400 }
+            );
+        }
+
+        await recordAdminAction({
+            actor,
+            action: 'update_tournament',
+            targetFid: null,
+            details: { tournamentId: current.id, ...parsed.input },
+        });
+        const tournament = await updateTournament(current.id, parsed.input);
+
+        return NextResponse.json({ ...tournament, status: getTournamentStatus(tournament) });
+
+    } catch (error) {
+        console.error('Error updating tournament:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// Cancel a tournament that hasn't started
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const tournamentId = parseTournamentId((await context.params).tournamentId);
+        const tournament = tournamentId ? await getTournament(tournamentId) : null;
+        if (!tournament) {
+            return NextResponse.json(
+                { error: 'Tournament not found', code: 'TOURNAMENT_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        if (getTournamentStatus(tournament) !== 'scheduled') {
+            return NextResponse.json(
+                { error: 'Tournament has already started', code: 'TOURNAMENT_STARTED' },
+                { status: 409 }
+            );
+        }
+
+        await recordAdminAction({
+            actor,
+            action: 'delete_tournament',
+            targetFid: null,
+            details: { tournamentId: tournament.id, name: tournament.name },
+        });
+        await deleteTournament(tournament.id);
+
+        return NextResponse.json({ id: tournament.id, deleted: true });
+
+    } catch (error) {
+        console.error('Error deleting tournament:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminActor, recordAdminAction } from '@/lib/admin';
+import { createTournament, getTournamentStatus, listTournaments, parseTournamentInput } from '@/lib/tournaments';
+
+const MAX_PAGE_SIZE = 50;
+
+// List tournaments, newest first: ?cursor=, ?limit=
+export async function GET(request: NextRequest) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const cursor = parseInt(searchParams.get('cursor') || '0', 10);
+        const limit = parseInt(searchParams.get('limit') || '20', 10);
+
+        if (isNaN(cursor) || cursor < 0 || isNaN(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid cursor or limit' },
+                { status: 400 }
+            );
+        }
+
+        const { tournaments, nextCursor } = await listTournaments({
+            cursor,
+            limit: Math.min(limit, MAX_PAGE_SIZE),
+        });
+
+        return NextResponse.json({
+            tournaments: tournaments.map(tournament => ({ ...tournament, status: getTournamentStatus(tournament) })),
+            nextCursor,
+        });
+
+    } catch (error) {
+        console.error('Error listing tournaments:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// Schedule a tournament: body { name, startsAt, endsAt, difficulty?, maxAttempts?, prizes }
+export async function POST(request: NextRequest) {
+    try {
+        const actor = await getAdminActor(request);
+        if (!actor) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const parsed = parseTournamentInput(body);
+        if ('error' in parsed) {
+            return NextResponse.json(
+                { error: parsed.error },
+                { status: 400 }
+            );
+        }
+
+        // Audited before the insert, so the entry carries the input rather than the new id
+        await recordAdminAction({
+            actor,
+            action: 'create_tournament',
+            targetFid: null,
+            details: { ...parsed.input },
+        });
+        const tournament = await createTournament(parsed.input);
+
+        return NextResponse.json({ ...tournament, status: getTournamentStatus(tournament) });
+
+    } catch (error) {
+        console.error('Error creating tournament:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLocalKeyProvider, isLocalAuthEnabled } from '@/lib/auth';
+
+// Mint a token from the local test key provider (only when QUICK_AUTH_PROVIDER=local)
+export async function GET(request: NextRequest) {
+    try {
+        if (!isLocalAuthEnabled()) {
+            return NextResponse.json(
+                { error: 'Not found' },
+                { status: 404 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const fid = parseInt(searchParams.get('fid') || '', 10);
+
+        if (isNaN(fid) || fid <= 0) {
+            return NextResponse.json(
+                { error: 'Invalid fid' },
+                { status: 400 }
+            );
+        }
+
+        const provider = await getLocalKeyProvider();
+        const token = await provider.signToken(fid);
+
+        return NextResponse.json({ token });
+
+    } catch (error) {
+        console.error('Error issuing local token:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { getFriendChallenge, hasAttemptedFriendChallenge } from '@/lib/friendChallenges';
+import { getShareableResult } from '@/lib/share';
+
+// Public summary of a challenge (never the seed, nor the original session id that /api/game/verify
+// would look up); `attempted` is set for signed-in players
+export async function GET(request: NextRequest, context: { params: Promise<{ challengeId: string }> }) {
+    try {
+        const { challengeId } = await context.params;
+        const challenge = await getFriendChallenge(challengeId);
+        const original = challenge ? await getShareableResult(challenge.sessionId) : null;
+
+        if (!challenge || !original) {
+            return NextResponse.json(
+                { error: 'Challenge not found', code: 'CHALLENGE_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        const fid = await getAuthenticatedFid(request);
+        const { sessionId: _sessionId, ...opponent } = original;
+
+        return NextResponse.json({
+            challengeId: challenge.id,
+            difficulty: challenge.result.difficulty,
+            opponent,
+            own: fid === challenge.fid,
+            attempted: fid ? await hasAttemptedFriendChallenge(challenge.id, fid) : false,
+        });
+
+    } catch (error) {
+        console.error('Error getting friend challenge:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
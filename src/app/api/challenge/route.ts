@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { getSessionResult } from '@/lib/db';
+import { getOrCreateFriendChallenge } from '@/lib/friendChallenges';
+
+// Turn one of the player's finished classic sessions into a challenge link
+export async function POST(request: NextRequest) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        if (typeof body.sessionId !== 'string' || !body.sessionId) {
+            return NextResponse.json(
+                { error: 'Missing sessionId' },
+                { status: 400 }
+            );
+        }
+
+        const result = await getSessionResult(body.sessionId);
+        if (!result || result.fid !== fid) {
+            return NextResponse.json(
+                { error: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        // Daily seeds stay secret until the day ends, and replays of a replay would chain indefinitely
+        if (result.status !== 'completed' || result.mode !== 'classic') {
+            return NextResponse.json(
+                { error: 'Only completed classic sessions can be shared as a challenge', code: 'CHALLENGE_UNAVAILABLE' },
+                { status: 400 }
+            );
+        }
+
+        const challengeId = await getOrCreateFriendChallenge(result.sessionId, fid);
+
+        return NextResponse.json({ challengeId });
+
+    } catch (error) {
+        console.error('Error creating friend challenge:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { getClaim, getClaimConfig, parseClaimId, syncClaim, toClaimView } from '@/lib/claims';
+
+// One of the caller's claims, refreshed from the chain (redeemed, or refunded once expired)
+export async function GET(request: NextRequest, context: { params: Promise<{ claimId: string }> }) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const config = getClaimConfig();
+        if (!config) {
+            return NextResponse.json(
+                { error: 'Claims are not enabled', code: 'CLAIMS_DISABLED' },
+                { status: 503 }
+            );
+        }
+
+        const claimId = parseClaimId((await context.params).claimId);
+        const claim = claimId ? await getClaim(claimId) : null;
+        if (!claim || claim.fid !== fid) {
+            return NextResponse.json(
+                { error: 'Claim not found', code: 'CLAIM_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        // The stored state is still accurate if the chain can't be reached; the sweeper catches up
+        const synced = await syncClaim(claim, config).catch((syncError) => {
+            console.error('Error syncing claim:', syncError);
+            return claim;
+        });
+
+        return NextResponse.json({ claim: toClaimView(synced, config) });
+
+    } catch (error) {
+        console.error('Error getting claim:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
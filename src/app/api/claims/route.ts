@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Address } from 'ox';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { getClaimConfig, getClaimSigner, listClaims, requestClaim, toClaimView } from '@/lib/claims';
+import { getPlayerTokens } from '@/lib/db';
+import { MIN_CLAIM_TOKENS } from '@/lib/gameLogic';
+import { getPlayer } from '@/lib/store';
+import { verifyWalletProof } from '@/lib/walletProof';
+
+const MAX_CLAIM = 1_000_000;
+const MAX_PAGE_SIZE = 50;
+
+// The caller's claims, newest first: ?cursor=, ?limit=
+export async function GET(request: NextRequest) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const config = getClaimConfig();
+        if (!config) {
+            return NextResponse.json({ enabled: false, claims: [], nextCursor: null });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const cursor = parseInt(searchParams.get('cursor') || '0', 10);
+        const limit = parseInt(searchParams.get('limit') || '20', 10);
+
+        if (isNaN(cursor) || cursor < 0 || isNaN(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid cursor or limit' },
+                { status: 400 }
+            );
+        }
+
+        const { claims, nextCursor } = await listClaims({
+            fid,
+            cursor,
+            limit: Math.min(limit, MAX_PAGE_SIZE),
+        });
+
+        return NextResponse.json({
+            enabled: true,
+            minAmount: MIN_CLAIM_TOKENS,
+            claims: claims.map(claim => toClaimView(claim, config)),
+            nextCursor,
+        });
+
+    } catch (error) {
+        console.error('Error listing claims:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// Withdraw tokens to a wallet: body { wallet, amount, issuedAt, signature }, where signature is the wallet's
+// personal_sign over getWalletProofMessage. Debits the balance and returns a signed voucher.
+export async function POST(request: NextRequest) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const config = getClaimConfig();
+        if (!config) {
+            return NextResponse.json(
+                { error: 'Claims are not enabled', code: 'CLAIMS_DISABLED' },
+                { status: 503 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const { wallet, amount, issuedAt, signature } = body;
+
+        if (typeof wallet !== 'string' || !Address.validate(wallet, { strict: false })) {
+            return NextResponse.json(
+                { error: 'Invalid wallet' },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isInteger(amount) || amount < MIN_CLAIM_TOKENS || amount > MAX_CLAIM) {
+            return NextResponse.json(
+                { error: `amount must be an integer from ${MIN_CLAIM_TOKENS} to ${MAX_CLAIM}`, code: 'INVALID_AMOUNT' },
+                { status: 400 }
+            );
+        }
+
+        if (typeof issuedAt !== 'string' || typeof signature !== 'string') {
+            return NextResponse.json(
+                { error: 'issuedAt and signature are required' },
+                { status: 400 }
+            );
+        }
+
+        // Vouchers only go to a wallet the player proved they control
+        if (!verifyWalletProof({ fid, wallet, amount, issuedAt, signature })) {
+            return NextResponse.json(
+                { error: 'Wallet signature is invalid or expired', code: 'WALLET_NOT_VERIFIED' },
+                { status: 403 }
+            );
+        }
+
+        const player = await getPlayer(fid);
+        if (player.bannedAt) {
+            return NextResponse.json(
+                { error: 'Access revoked by the system administrator.', code: 'BANNED' },
+                { status: 403 }
+            );
+        }
+
+        const claim = await requestClaim({ fid, wallet: Address.checksum(wallet), amount }, config);
+        if (!claim) {
+            return NextResponse.json(
+                { error: 'Not enough tokens', code: 'INSUFFICIENT_TOKENS' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            claim: toClaimView(claim, config),
+            signer: getClaimSigner().address,
+            totalTokens: await getPlayerTokens(fid),
+        });
+
+    } catch (error) {
+        console.error('Error requesting claim:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClaimConfig, sweepExpiredClaims } from '@/lib/claims';
+
+// Periodic refund: settle claim vouchers past their expiry (Vercel Cron, see vercel.json)
+export async function GET(request: NextRequest) {
+    try {
+        const cronSecret = process.env.CRON_SECRET;
+        if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const config = getClaimConfig();
+        const expired = config ? await sweepExpiredClaims(config) : 0;
+
+        return NextResponse.json({ expired });
+
+    } catch (error) {
+        console.error('Error expiring claims:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
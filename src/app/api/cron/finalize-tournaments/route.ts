@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { finalizeDueTournaments } from '@/lib/tournaments';
+
+// Periodic payout: credit prize tables of closed tournaments (Vercel Cron, see vercel.json)
+export async function GET(request: NextRequest) {
+    try {
+        const cronSecret = process.env.CRON_SECRET;
+        if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const finalized = await finalizeDueTournaments();
+
+        return NextResponse.json({ finalized });
+
+    } catch (error) {
+        console.error('Error finalizing tournaments:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
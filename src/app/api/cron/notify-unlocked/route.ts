@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendDueUnlockNotifications } from '@/lib/notifications';
+
+// Periodic sender: "terminal unlocked" notifications for cooldowns that just ended (Vercel Cron every 5 minutes, see vercel.json)
+export async function GET(request: NextRequest) {
+    try {
+        const cronSecret = process.env.CRON_SECRET;
+        if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const delivered = await sendDueUnlockNotifications();
+
+        return NextResponse.json({ delivered });
+
+    } catch (error) {
+        console.error('Error sending unlock notifications:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
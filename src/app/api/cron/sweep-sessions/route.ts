@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sweepExpiredSessions } from '@/lib/store';
+
+// Periodic sweeper: finalize and evict abandoned sessions (Vercel Cron, see vercel.json)
+export async function GET(request: NextRequest) {
+    try {
+        const cronSecret = process.env.CRON_SECRET;
+        if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const expired = await sweepExpiredSessions();
+
+        return NextResponse.json({ expired });
+
+    } catch (error) {
+        console.error('Error sweeping sessions:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
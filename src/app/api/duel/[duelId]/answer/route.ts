@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CLOCK_GRACE_MS } from '@/lib/gameLogic';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { answerDuelRound, getDuelPlayerNames, getDuelTimings, getDuelView, isDuelPlayer, loadDuel } from '@/lib/duels';
+
+// Lock in an answer for the current duel round (selectedNumbers is null when time ran out)
+export async function POST(request: NextRequest, context: { params: Promise<{ duelId: string }> }) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const { round, selectedNumbers } = body;
+
+        if (!Number.isInteger(round) || (selectedNumbers !== null && !Array.isArray(selectedNumbers))) {
+            return NextResponse.json(
+                { error: 'Invalid answer' },
+                { status: 400 }
+            );
+        }
+
+        const { duelId } = await context.params;
+        const loaded = await loadDuel(duelId);
+
+        if (!loaded || !isDuelPlayer(loaded.duel, fid)) {
+            return NextResponse.json(
+                { error: 'Duel not found', code: 'DUEL_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        const { duel } = loaded;
+        const timings = getDuelTimings(duel);
+
+        // The server decides which round is open; late answers for a resolved round are dropped
+        if (duel.status !== 'active' || !timings || round !== duel.round) {
+            return NextResponse.json(
+                { error: 'Round is closed', code: 'ROUND_CLOSED' },
+                { status: 409 }
+            );
+        }
+
+        const now = Date.now();
+        if (now < timings.optionsAvailableAt - CLOCK_GRACE_MS) {
+            return NextResponse.json(
+                { error: 'Memorize phase still running', code: 'TOO_EARLY', serverTime: now, ...timings },
+                { status: 425 }
+            );
+        }
+
+        const timedOut = now > timings.answerDeadline + CLOCK_GRACE_MS;
+        const reactionMs = Math.max(0, now - timings.optionsAvailableAt);
+
+        const recorded = await answerDuelRound(duel, fid, selectedNumbers, reactionMs, timedOut);
+        if (!recorded) {
+            return NextResponse.json(
+                { error: 'Round already answered', code: 'ALREADY_ANSWERED' },
+                { status: 409 }
+            );
+        }
+
+        // Both answers in resolves the round right away
+        const updated = await loadDuel(duelId);
+        if (!updated) {
+            throw new Error(`Duel ${duelId} disappeared`);
+        }
+
+        return NextResponse.json(getDuelView(updated.duel, updated.answers, fid, await getDuelPlayerNames(updated.duel)));
+
+    } catch (error) {
+        console.error('Error answering duel round:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { getDuelEvent, getDuelPlayerNames, getDuelView, isDuelPlayer, loadDuel, DuelView } from '@/lib/duels';
+import { formatServerSentEvent, SSE_KEEPALIVE } from '@/lib/sse';
+
+// Streams are long-lived; never cache or prerender them
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 500;      // How often the shared duel state is re-read
+const KEEPALIVE_INTERVAL_MS = 15000;
+const STREAM_DURATION_MS = 55000;  // Under serverless time limits; clients reconnect
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Server-pushed duel events: lobby, matched, round_start, reveal, answered, round_result, duel_end.
+// Every event carries the full DuelView, so a client can join mid-duel from any event.
+export async function GET(request: NextRequest, context: { params: Promise<{ duelId: string }> }) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const { duelId } = await context.params;
+        const initial = await loadDuel(duelId);
+
+        if (!initial || !isDuelPlayer(initial.duel, fid)) {
+            return NextResponse.json(
+                { error: 'Duel not found', code: 'DUEL_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream({
+            async start(controller) {
+                let previous: DuelView | null = null;
+                let names = await getDuelPlayerNames(initial.duel);
+                let lastWriteAt = Date.now();
+                const endAt = Date.now() + STREAM_DURATION_MS;
+
+                try {
+                    while (!request.signal.aborted && Date.now() < endAt) {
+                        const loaded = await loadDuel(duelId);
+                        if (!loaded) break;
+
+                        // The guest's name is only known once someone joins
+                        if (loaded.duel.guestFid !== null && !names.has(loaded.duel.guestFid)) {
+                            names = await getDuelPlayerNames(loaded.duel);
+                        }
+
+                        const view = getDuelView(loaded.duel, loaded.answers, fid, names);
+                        const event = getDuelEvent(previous, view);
+                        previous = view;
+
+                        if (event) {
+                            controller.enqueue(encoder.encode(formatServerSentEvent(event, view)));
+                            lastWriteAt = Date.now();
+                        } else if (Date.now() - lastWriteAt >= KEEPALIVE_INTERVAL_MS) {
+                            controller.enqueue(encoder.encode(SSE_KEEPALIVE));
+                            lastWriteAt = Date.now();
+                        }
+
+                        if (view.status === 'finished' || view.status === 'cancelled') break;
+                        await sleep(POLL_INTERVAL_MS);
+                    }
+                } catch (error) {
+                    console.error('Error streaming duel events:', error);
+                } finally {
+                    controller.close();
+                }
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache, no-transform',
+                Connection: 'keep-alive',
+            },
+        });
+
+    } catch (error) {
+        console.error('Error opening duel stream:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { cancelDuel, getDuelPlayerNames, getDuelView, isDuelPlayer, loadDuel } from '@/lib/duels';
+
+// Current state of a duel for one of its players
+export async function GET(request: NextRequest, context: { params: Promise<{ duelId: string }> }) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const { duelId } = await context.params;
+        const loaded = await loadDuel(duelId);
+
+        if (!loaded || !isDuelPlayer(loaded.duel, fid)) {
+            return NextResponse.json(
+                { error: 'Duel not found', code: 'DUEL_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(getDuelView(loaded.duel, loaded.answers, fid, await getDuelPlayerNames(loaded.duel)));
+
+    } catch (error) {
+        console.error('Error getting duel:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// Leave an open lobby (only the host, and only before anyone joins)
+export async function DELETE(request: NextRequest, context: { params: Promise<{ duelId: string }> }) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const { duelId } = await context.params;
+        const loaded = await loadDuel(duelId);
+
+        if (!loaded || loaded.duel.hostFid !== fid) {
+            return NextResponse.json(
+                { error: 'Duel not found', code: 'DUEL_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        // Lobbies nobody joined in time are already closed
+        if (loaded.duel.status !== 'cancelled' && !(await cancelDuel(loaded.duel))) {
+            return NextResponse.json(
+                { error: 'Duel already started', code: 'DUEL_STARTED' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('Error cancelling duel:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
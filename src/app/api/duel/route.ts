@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isDifficulty, DEFAULT_DIFFICULTY } from '@/lib/gameLogic';
+import { canStartSession, releaseSessionCooldown, startSessionCooldown } from '@/lib/store';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { sanitizePlayerProfile, upsertPlayerProfile } from '@/lib/db';
+import {
+    cancelDuel,
+    createDuel,
+    findOpenDuel,
+    getDuelPlayerNames,
+    getDuelStore,
+    getDuelView,
+    isDuelPlayer,
+    joinDuel,
+    Duel
+} from '@/lib/duels';
+
+// Take the second seat if the host can still play; a host on cooldown loses the lobby
+async function joinIfHostCanPlay(duel: Duel, fid: number): Promise<Duel | null> {
+    const host = await canStartSession(duel.hostFid);
+    if (!host.allowed) {
+        await cancelDuel(duel);
+        return null;
+    }
+
+    return joinDuel(duel, fid);
+}
+
+// Join a duel: a specific lobby when duelId is given, otherwise the oldest open lobby
+// on the same difficulty, or a new one to wait in
+export async function POST(request: NextRequest) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const difficulty = body.difficulty ?? DEFAULT_DIFFICULTY;
+
+        if (!isDifficulty(difficulty)) {
+            return NextResponse.json(
+                { error: 'Invalid difficulty' },
+                { status: 400 }
+            );
+        }
+
+        // Opponents see each other's cached profile
+        if (body.profile) {
+            await upsertPlayerProfile(sanitizePlayerProfile(fid, body.profile));
+        }
+
+        const target = typeof body.duelId === 'string' ? await getDuelStore().getDuel(body.duelId) : null;
+        if (typeof body.duelId === 'string' && !target) {
+            return NextResponse.json(
+                { error: 'Duel not found', code: 'DUEL_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        // Reopening a duel you're already in
+        if (target && isDuelPlayer(target, fid)) {
+            const answers = await getDuelStore().getAnswers(target.id);
+            return NextResponse.json(getDuelView(target, answers, fid, await getDuelPlayerNames(target)));
+        }
+
+        // A duel uses each player's attempt for the cooldown period
+        const canStart = await canStartSession(fid);
+        if (canStart.banned) {
+            return NextResponse.json(
+                { error: canStart.reason, code: 'BANNED' },
+                { status: 403 }
+            );
+        }
+        if (!canStart.allowed) {
+            return NextResponse.json(
+                { error: canStart.reason, code: 'SESSION_LIMIT' },
+                { status: 429 }
+            );
+        }
+
+        let duel: Duel | null;
+        if (target) {
+            duel = await joinIfHostCanPlay(target, fid);
+            if (!duel) {
+                return NextResponse.json(
+                    { error: 'Duel is no longer open', code: 'DUEL_UNAVAILABLE' },
+                    { status: 409 }
+                );
+            }
+        } else {
+            const open = await findOpenDuel(difficulty, fid);
+            duel = open ? await joinIfHostCanPlay(open, fid) : null;
+            duel ??= await createDuel(fid, difficulty);
+        }
+
+        // Both seats taken: the duel starts, so both players' cooldowns do too.
+        // The checks above can race another start; if either slot is refused now, the duel is called off
+        // and a slot the guest already took is given back.
+        if (duel.status === 'active' && duel.guestFid !== null) {
+            const guestStarted = await startSessionCooldown(duel.guestFid);
+            const started = guestStarted && await startSessionCooldown(duel.hostFid);
+            if (!started) {
+                if (guestStarted) {
+                    await releaseSessionCooldown(duel.guestFid);
+                }
+                await getDuelStore().updateDuel(duel, { status: 'cancelled', finishedAt: new Date() });
+                return NextResponse.json(
+                    { error: 'Duel is no longer open', code: 'DUEL_UNAVAILABLE' },
+                    { status: 409 }
+                );
+            }
+        }
+
+        return NextResponse.json(getDuelView(duel, [], fid, await getDuelPlayerNames(duel)));
+
+    } catch (error) {
+        console.error('Error joining duel:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,78 +1,232 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
-    generateNumbers,
-    generateFakeNumber,
-    createSelectionOptions,
+    generateRound,
     getRoundConfig,
-    generateNonce
+    getTotalRounds,
+    generateNonce,
+    getRoundTimings,
+    getSessionExpiry,
+    isDifficulty,
+    isGameMode,
+    getChallengeDate,
+    getDailySeed,
+    isRewardedMode,
+    DEFAULT_DIFFICULTY,
+    DEFAULT_GAME_MODE,
+    DAILY_DIFFICULTY
 } from '@/lib/gameLogic';
+import { createRoundRng, hashSeed } from '@/lib/rng';
 import {
     canStartSession,
+    claimDailyAttempt,
     createSession,
+    getStreakReward,
     startSessionCooldown
 } from '@/lib/store';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { sanitizePlayerProfile, upsertPlayerProfile } from '@/lib/db';
+import { claimFriendChallengeAttempt, FriendChallenge, getFriendChallenge } from '@/lib/friendChallenges';
+import { claimTournamentAttempt, getTournament, getTournamentStatus, Tournament } from '@/lib/tournaments';
 
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json();
-        const { fid } = body;
+        // Identify the player from the verified Quick Auth token
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const mode = body.mode ?? DEFAULT_GAME_MODE;
+
+        if (!isGameMode(mode)) {
+            return NextResponse.json(
+                { error: 'Invalid mode' },
+                { status: 400 }
+            );
+        }
+
+        // A friend challenge replays the rounds of another player's finished session
+        let friendChallenge: FriendChallenge | null = null;
+        if (mode === 'friend') {
+            friendChallenge = typeof body.challengeId === 'string' ? await getFriendChallenge(body.challengeId) : null;
+            if (!friendChallenge) {
+                return NextResponse.json(
+                    { error: 'Challenge not found', code: 'CHALLENGE_NOT_FOUND' },
+                    { status: 404 }
+                );
+            }
+
+            if (friendChallenge.fid === fid) {
+                return NextResponse.json(
+                    { error: 'You cannot accept your own challenge', code: 'OWN_CHALLENGE' },
+                    { status: 400 }
+                );
+            }
+        }
+
+        // A tournament attempt is only accepted while its entry window is open
+        let tournament: Tournament | null = null;
+        if (mode === 'tournament') {
+            tournament = Number.isSafeInteger(body.tournamentId) ? await getTournament(body.tournamentId) : null;
+            if (!tournament) {
+                return NextResponse.json(
+                    { error: 'Tournament not found', code: 'TOURNAMENT_NOT_FOUND' },
+                    { status: 404 }
+                );
+            }
 
-        if (!fid || typeof fid !== 'number') {
+            if (getTournamentStatus(tournament) !== 'open') {
+                return NextResponse.json(
+                    { error: 'Tournament is not open for entries', code: 'TOURNAMENT_CLOSED' },
+                    { status: 409 }
+                );
+            }
+        }
+
+        // Everyone plays the daily challenge on the same profile; a friend challenge keeps the original's
+        // and a tournament uses its own fixed configuration
+        const difficulty = mode === 'daily'
+            ? DAILY_DIFFICULTY
+            : friendChallenge?.result.difficulty ?? tournament?.difficulty ?? body.difficulty ?? DEFAULT_DIFFICULTY;
+
+        if (!isDifficulty(difficulty)) {
             return NextResponse.json(
-                { error: 'Invalid fid' },
+                { error: 'Invalid difficulty' },
                 { status: 400 }
             );
         }
 
+        // Refresh the profile cache; only the fid from the verified token is trusted
+        if (body.profile) {
+            await upsertPlayerProfile(sanitizePlayerProfile(fid, body.profile));
+        }
+
         // Check if player can start a new session
-        const canStart = canStartSession(fid);
-        if (!canStart.allowed) {
+        const canStart = await canStartSession(fid);
+        if (canStart.banned) {
             return NextResponse.json(
-                { error: canStart.reason, code: 'SESSION_LIMIT' },
-                { status: 429 }
+                { error: canStart.reason, code: 'BANNED' },
+                { status: 403 }
             );
         }
 
+        const sessionId = generateNonce();
+
+        if (mode === 'daily') {
+            // One daily attempt per UTC day, independent of the cooldown
+            const claimed = await claimDailyAttempt(fid);
+            if (!claimed) {
+                return NextResponse.json(
+                    { error: "Today's challenge already attempted. Next one unlocks at 00:00 UTC.", code: 'DAILY_LIMIT' },
+                    { status: 429 }
+                );
+            }
+        } else if (friendChallenge) {
+            // One attempt per friend challenge, independent of the cooldown
+            const claimed = await claimFriendChallengeAttempt(friendChallenge.id, fid, sessionId);
+            if (!claimed) {
+                return NextResponse.json(
+                    { error: 'Challenge already attempted', code: 'CHALLENGE_ATTEMPTED' },
+                    { status: 409 }
+                );
+            }
+        } else if (tournament) {
+            // Limited attempts per tournament, independent of the cooldown
+            const claimed = await claimTournamentAttempt(tournament, fid);
+            if (!claimed) {
+                return NextResponse.json(
+                    { error: 'No tournament attempts left', code: 'TOURNAMENT_LIMIT' },
+                    { status: 429 }
+                );
+            }
+        } else {
+            // Start cooldown immediately when game starts (prevents mid-game exit exploit).
+            // Taking the slot is the authoritative check: a concurrent start may have used it since canStartSession.
+            const started = canStart.allowed && await startSessionCooldown(fid);
+            if (!started) {
+                const blocked = canStart.allowed ? await canStartSession(fid) : canStart;
+                return NextResponse.json(
+                    { error: blocked.reason, code: blocked.banned ? 'BANNED' : 'SESSION_LIMIT' },
+                    { status: blocked.banned ? 403 : 429 }
+                );
+            }
+        }
+
         // Get round 1 configuration
-        const roundConfig = getRoundConfig(1);
+        const roundConfig = getRoundConfig(1, difficulty);
+        const totalRounds = getTotalRounds(difficulty);
+
+        // Every round derives from a server seed; only its hash is published until the end.
+        // Daily challenges share one seed per UTC day so every player gets the same rounds.
+        const startedAt = new Date();
+        const challengeDate = mode === 'daily' ? getChallengeDate(startedAt) : null;
+        const seed = challengeDate
+            ? await getDailySeed(challengeDate)
+            : friendChallenge?.result.seed ?? generateNonce() + generateNonce();
+        const seedCommitment = await hashSeed(seed);
 
         // Generate numbers server-side
-        const shownNumbers = generateNumbers(roundConfig.numberCount);
-        const fakeNumber = generateFakeNumber(shownNumbers);
-        const selectionOptions = createSelectionOptions(shownNumbers, fakeNumber, roundConfig.optionCount);
+        const { shownNumbers, fakeNumbers, selectionOptions } = generateRound(roundConfig, createRoundRng(seed, 1));
         const nonce = generateNonce();
-        const sessionId = generateNonce();
+
+        // Streak multiplier is fixed for the whole session
+        const streakReward = isRewardedMode(mode) ? await getStreakReward(fid) : { streak: 0, multiplier: 1 };
 
         // Create session
         const session = {
             id: sessionId,
             fid,
+            difficulty,
+            mode,
+            totalRounds,
+            seed,
+            seedCommitment,
             round: 1,
             shownNumbers,
-            fakeNumber,
+            fakeNumbers,
             selectionOptions,
             nonce,
-            startedAt: new Date(),
-            roundStartedAt: new Date(),
+            startedAt,
+            roundStartedAt: startedAt,
             displayTime: roundConfig.displayTime,
+            expiresAt: getSessionExpiry(startedAt, difficulty),
             tokensEarned: 0,
             completed: false,
+            abandoned: false,
             correctAnswers: 0,
             wrongAnswers: 0,
+            streakMultiplier: streakReward.multiplier,
+            roundTimings: [],
+            suspicionScore: 0,
+            challengeId: friendChallenge?.id ?? null,
+            tournamentId: tournament?.id ?? null,
         };
 
-        createSession(session);
-
-        // Start cooldown immediately when game starts (prevents mid-game exit exploit)
-        startSessionCooldown(fid);
+        await createSession(session);
 
-        // Return data to client (don't send fakeNumber!)
+        // Return data to client (don't send fakeNumbers!)
         return NextResponse.json({
             sessionId,
+            difficulty,
+            mode,
+            challengeDate,
+            challengeId: friendChallenge?.id ?? null,
+            tournamentId: tournament?.id ?? null,
+            totalRounds,
+            seedCommitment,
+            streak: streakReward.streak,
+            streakMultiplier: streakReward.multiplier,
             round: 1,
             numbers: shownNumbers,
             displayTime: roundConfig.displayTime * 1000, // Convert to ms
+            fakeCount: roundConfig.fakeCount,
             nonce,
+            serverTime: Date.now(),
+            ...getRoundTimings(startedAt, roundConfig.displayTime),
         });
 
     } catch (error) {
@@ -1,45 +1,124 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
-    generateNumbers,
-    generateFakeNumber,
-    createSelectionOptions,
+    generateRound,
     getRoundConfig,
     generateNonce,
-    TOTAL_ROUNDS,
-    TOKENS_PER_CORRECT,
-    BONUS_TOKENS
+    getRoundTimings,
+    getTokensPerCorrect,
+    getBonusTokens,
+    getStreakTokens,
+    getSpeedBonus,
+    isCorrectSelection,
+    isSeedRevealable,
+    getSuspicionScore,
+    isSuspicious,
+    isRewardedMode,
+    ROUND_TRANSITION_MS,
+    CLOCK_GRACE_MS
 } from '@/lib/gameLogic';
+import { createRoundRng } from '@/lib/rng';
 import {
     getSession,
     updateSession,
+    consumeSessionNonce,
     deleteSession,
+    isSessionExpired,
+    expireSession,
     recordSessionCompletion,
     getPlayerStats
 } from '@/lib/store';
-import { addPlayerTokens } from '@/lib/db';
+import {
+    creditTokens,
+    holdTokens,
+    getPlayerTokens,
+    getSessionResult,
+    recordSessionResult,
+    recordSessionRound,
+    TokenCredit
+} from '@/lib/db';
+import { evaluateAchievements } from '@/lib/achievements';
+import { getFriendChallenge, getHeadToHead } from '@/lib/friendChallenges';
+import { getTournamentRank } from '@/lib/tournaments';
+import { getAuthenticatedFid } from '@/lib/auth';
+
+// Credit a round's tokens to the ledger, or hold them for review once the session looks automated
+async function awardTokens(credit: TokenCredit, suspicionScore: number) {
+    if (credit.amount <= 0) return;
+
+    try {
+        if (isSuspicious(suspicionScore)) {
+            await holdTokens(credit, suspicionScore);
+        } else {
+            await creditTokens(credit);
+        }
+    } catch (dbError) {
+        console.error(`Failed to save ${credit.reason} tokens to database:`, dbError);
+        // Continue even if DB fails - we'll track locally
+    }
+}
+
+function sessionExpiredResponse() {
+    return NextResponse.json(
+        { error: 'Session expired', code: 'SESSION_EXPIRED' },
+        { status: 410 }
+    );
+}
+
+// Session isn't in the store any more: tell finished sessions apart from unknown ids
+async function missingSessionResponse(sessionId: string, fid: number) {
+    const result = await getSessionResult(sessionId);
+
+    if (result && result.fid === fid) {
+        if (result.status === 'abandoned') {
+            return sessionExpiredResponse();
+        }
+        return NextResponse.json(
+            { error: 'Session already completed' },
+            { status: 400 }
+        );
+    }
+
+    return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+    );
+}
 
 export async function POST(request: NextRequest) {
     try {
+        // Identify the player from the verified Quick Auth token
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
         const body = await request.json();
-        const { fid, sessionId, selectedNumber, nonce } = body;
+        const { sessionId, selectedNumbers, nonce } = body;
 
-        // Validate inputs
-        if (!fid || !sessionId || selectedNumber === undefined || !nonce) {
+        // Validate inputs (selectedNumbers is null when the answer window ran out)
+        if (!sessionId || selectedNumbers === undefined || !nonce) {
             return NextResponse.json(
                 { error: 'Missing required fields' },
                 { status: 400 }
             );
         }
 
-        // Get session
-        const session = getSession(sessionId);
-        if (!session) {
+        if (selectedNumbers !== null && !Array.isArray(selectedNumbers)) {
             return NextResponse.json(
-                { error: 'Session not found' },
-                { status: 404 }
+                { error: 'Invalid selection' },
+                { status: 400 }
             );
         }
 
+        // Get session
+        const session = await getSession(sessionId);
+        if (!session) {
+            return missingSessionResponse(sessionId, fid);
+        }
+
         // Validate session belongs to this user
         if (session.fid !== fid) {
             return NextResponse.json(
@@ -48,6 +127,12 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Abandoned past its TTL - finalize with partial tokens
+        if (isSessionExpired(session)) {
+            await expireSession(session);
+            return sessionExpiredResponse();
+        }
+
         // Validate nonce
         if (session.nonce !== nonce) {
             return NextResponse.json(
@@ -64,59 +149,193 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Check if the selected number is the fake one
-        const isCorrect = selectedNumber === session.fakeNumber;
+        // Answers are only accepted once the options have been revealed
+        const now = Date.now();
+        const timings = getRoundTimings(session.roundStartedAt, session.displayTime);
+        if (now < timings.optionsAvailableAt - CLOCK_GRACE_MS) {
+            return NextResponse.json(
+                { error: 'Memorize phase still running', code: 'TOO_EARLY', serverTime: now, ...timings },
+                { status: 425 }
+            );
+        }
+
+        // Claim the round before crediting anything: of concurrent submits with this nonce only one gets past here
+        const newNonce = generateNonce();
+        if (!await consumeSessionNonce(sessionId, nonce, newNonce)) {
+            return NextResponse.json(
+                { error: 'Invalid nonce' },
+                { status: 400 }
+            );
+        }
+
+        // A late answer counts as wrong
+        const timedOut = now > timings.answerDeadline + CLOCK_GRACE_MS;
+
+        // Reaction time: options revealed -> answer received
+        const reactionMs = Math.max(0, now - timings.optionsAvailableAt);
+
+        // Check if the selected numbers are exactly the fakes
+        const isCorrect = !timedOut && isCorrectSelection(selectedNumbers ?? [], session.fakeNumbers);
+
+        // Once flagged, the rest of the session stays held (earlier rounds are already credited)
+        const suspicionScore = Math.max(
+            session.suspicionScore,
+            getSuspicionScore([...session.roundTimings, { reactionMs, correct: isCorrect }])
+        );
+        const underReview = isSuspicious(suspicionScore);
+        const rewarded = isRewardedMode(session.mode);
 
         let tokensAwarded = 0;
+        let speedBonus = 0;
+        let streakTokens = 0;
         let newCorrectAnswers = session.correctAnswers;
         let newWrongAnswers = session.wrongAnswers;
         let newTokensEarned = session.tokensEarned;
 
         if (isCorrect) {
             // Correct answer - award tokens
-            tokensAwarded = TOKENS_PER_CORRECT;
+            tokensAwarded = rewarded ? getTokensPerCorrect(session.difficulty) : 0;
+            // Answers inside the early grace window clamp to 0ms; they get no speed bonus rather than the maximum
+            const early = now < timings.optionsAvailableAt;
+            speedBonus = rewarded && !early ? getSpeedBonus(reactionMs, session.difficulty) : 0;
+            streakTokens = getStreakTokens(tokensAwarded, session.streakMultiplier);
             newCorrectAnswers += 1;
-            newTokensEarned += tokensAwarded;
-
-            // Save to Supabase
-            try {
-                await addPlayerTokens(fid, tokensAwarded);
-            } catch (dbError) {
-                console.error('Failed to save tokens to database:', dbError);
-                // Continue even if DB fails - we'll track locally
-            }
+            newTokensEarned += tokensAwarded + speedBonus + streakTokens;
+
+            // Save to Supabase (idempotent per session round)
+            await awardTokens(
+                { fid, sessionId, round: session.round, reason: 'correct_answer', amount: tokensAwarded },
+                suspicionScore
+            );
         } else {
             // Wrong answer - track it but continue to next round
             newWrongAnswers += 1;
         }
 
+        await awardTokens(
+            { fid, sessionId, round: session.round, reason: 'speed_bonus', amount: speedBonus },
+            suspicionScore
+        );
+
+        const roundTimings = [...session.roundTimings, {
+            round: session.round,
+            reactionMs,
+            correct: isCorrect,
+            timedOut,
+            tokens: tokensAwarded + speedBonus + streakTokens,
+            speedBonus,
+        }];
+
+        // Keep the full round for history/replay; the live session only holds the current one
+        await recordSessionRound({
+            sessionId,
+            round: session.round,
+            fid,
+            shownNumbers: session.shownNumbers,
+            fakeNumbers: session.fakeNumbers,
+            selectionOptions: session.selectionOptions,
+            selectedNumbers: selectedNumbers ?? null,
+            correct: isCorrect,
+            timedOut,
+            reactionMs,
+            tokens: tokensAwarded + speedBonus + streakTokens,
+        });
+
         // Check if this was the last round (regardless of correct/wrong)
-        if (session.round >= TOTAL_ROUNDS) {
-            // Session complete - all 3 rounds finished!
+        if (session.round >= session.totalRounds) {
+            // Session complete - all rounds finished!
             const perfect = newWrongAnswers === 0;
 
-            // Award bonus tokens for perfect game (all 3 correct)
+            // Award bonus tokens for perfect game (every round correct)
             let bonusTokens = 0;
-            if (perfect) {
-                bonusTokens = BONUS_TOKENS;
+            if (perfect && rewarded) {
+                bonusTokens = getBonusTokens(session.difficulty);
                 newTokensEarned += bonusTokens;
-                try {
-                    await addPlayerTokens(fid, bonusTokens);
-                } catch (dbError) {
-                    console.error('Failed to save bonus tokens to database:', dbError);
-                }
+                await awardTokens(
+                    { fid, sessionId, round: session.round, reason: 'perfect_bonus', amount: bonusTokens },
+                    suspicionScore
+                );
+
+                const bonusStreakTokens = getStreakTokens(bonusTokens, session.streakMultiplier);
+                streakTokens += bonusStreakTokens;
+                newTokensEarned += bonusStreakTokens;
             }
 
-            updateSession(sessionId, {
+            await awardTokens(
+                { fid, sessionId, round: session.round, reason: 'streak_bonus', amount: streakTokens },
+                suspicionScore
+            );
+
+            await updateSession(sessionId, {
                 completed: true,
                 tokensEarned: newTokensEarned,
                 correctAnswers: newCorrectAnswers,
-                wrongAnswers: newWrongAnswers
+                wrongAnswers: newWrongAnswers,
+                roundTimings,
+                suspicionScore,
+            });
+
+            const totalTime = Math.floor((Date.now() - new Date(session.startedAt).getTime()) / 1000);
+
+            // Friend challenges don't count towards lifetime stats, streaks or badges
+            const { stats: lifetime, milestoneTokens } = rewarded
+                ? await recordSessionCompletion(fid, {
+                    perfect,
+                    correctAnswers: newCorrectAnswers,
+                    wrongAnswers: newWrongAnswers,
+                    totalTime,
+                })
+                : { stats: null, milestoneTokens: 0 };
+
+            // Outcome is kept in session_results; the live session is no longer needed
+            await recordSessionResult({
+                sessionId,
+                fid,
+                status: 'completed',
+                tokensEarned: newTokensEarned,
+                correctAnswers: newCorrectAnswers,
+                wrongAnswers: newWrongAnswers,
+                perfect,
+                totalTime,
+                startedAt: session.startedAt,
+                difficulty: session.difficulty,
+                mode: session.mode,
+                tournamentId: session.tournamentId,
+                suspicionScore,
+                seed: session.seed,
+                seedCommitment: session.seedCommitment,
             });
+            await deleteSession(sessionId);
+
+            // Compare against the run that issued the challenge
+            const friendChallenge = session.challengeId ? await getFriendChallenge(session.challengeId) : null;
+            const headToHead = friendChallenge
+                ? await getHeadToHead(friendChallenge, { correctAnswers: newCorrectAnswers, totalTime })
+                : null;
+
+            // Standing after this attempt (the player's best run counts)
+            const tournamentRank = session.tournamentId
+                ? await getTournamentRank(fid, session.tournamentId)
+                : null;
 
-            recordSessionCompletion(fid, perfect);
+            // Badges are checked against lifetime stats that already include this session
+            const newAchievements = lifetime
+                ? await evaluateAchievements(fid, {
+                    stats: lifetime,
+                    totalTokens: await getPlayerTokens(fid),
+                    session: {
+                        id: sessionId,
+                        mode: session.mode,
+                        difficulty: session.difficulty,
+                        perfect,
+                        totalTime,
+                    },
+                })
+                : [];
 
-            const totalTime = Math.floor((Date.now() - session.startedAt.getTime()) / 1000);
+            // Session-wide split of tokensEarned; the milestone is a player payout on top
+            const baseTokens = rewarded ? newCorrectAnswers * getTokensPerCorrect(session.difficulty) : 0;
+            const speedTokens = roundTimings.reduce((total, timing) => total + timing.speedBonus, 0);
 
             return NextResponse.json({
                 correct: isCorrect,
@@ -124,46 +343,87 @@ export async function POST(request: NextRequest) {
                 sessionComplete: true,
                 tokensEarned: newTokensEarned,
                 bonusTokens: bonusTokens,
+                tokenBreakdown: {
+                    base: baseTokens,
+                    bonus: bonusTokens,
+                    speed: speedTokens,
+                    streak: newTokensEarned - baseTokens - bonusTokens - speedTokens,
+                    milestone: milestoneTokens,
+                },
+                rounds: roundTimings,
+                underReview,
+                achievements: newAchievements,
+                streak: lifetime?.currentStreak ?? 0,
+                streakMultiplier: session.streakMultiplier,
                 correctAnswers: newCorrectAnswers,
                 wrongAnswers: newWrongAnswers,
                 totalTime,
                 perfectGame: perfect,
-                stats: getPlayerStats(fid),
+                timedOut,
+                headToHead,
+                tournamentId: session.tournamentId,
+                tournamentRank,
+                // Reveal the seed so the rounds can be replayed via /api/game/verify
+                mode: session.mode,
+                seed: isSeedRevealable(session.mode, session.startedAt) ? session.seed : null,
+                seedCommitment: session.seedCommitment,
+                serverTime: Date.now(),
+                stats: await getPlayerStats(fid),
             });
         }
 
+        await awardTokens(
+            { fid, sessionId, round: session.round, reason: 'streak_bonus', amount: streakTokens },
+            suspicionScore
+        );
+
         // Prepare next round (continue regardless of answer)
         const nextRound = session.round + 1;
-        const roundConfig = getRoundConfig(nextRound);
+        const roundConfig = getRoundConfig(nextRound, session.difficulty);
 
-        const shownNumbers = generateNumbers(roundConfig.numberCount);
-        const fakeNumber = generateFakeNumber(shownNumbers);
-        const selectionOptions = createSelectionOptions(shownNumbers, fakeNumber, roundConfig.optionCount);
-        const newNonce = generateNonce();
+        const { shownNumbers, fakeNumbers, selectionOptions } = generateRound(roundConfig, createRoundRng(session.seed, nextRound));
+
+        // Next round starts after the result screen, so the memorize window is not shortened
+        const roundStartedAt = new Date(now + ROUND_TRANSITION_MS);
+        const nextTimings = getRoundTimings(roundStartedAt, roundConfig.displayTime);
 
         // Update session for next round
-        updateSession(sessionId, {
+        await updateSession(sessionId, {
             round: nextRound,
             shownNumbers,
-            fakeNumber,
+            fakeNumbers,
             selectionOptions,
             nonce: newNonce,
-            roundStartedAt: new Date(),
+            roundStartedAt,
             displayTime: roundConfig.displayTime,
             tokensEarned: newTokensEarned,
             correctAnswers: newCorrectAnswers,
             wrongAnswers: newWrongAnswers,
+            roundTimings,
+            suspicionScore,
         });
 
         return NextResponse.json({
             correct: isCorrect,
-            message: isCorrect ? 'CONNECTION SECURED' : 'WRONG NODE - CONTINUE',
-            tokensEarned: isCorrect ? tokensAwarded : 0,
+            message: isCorrect ? 'CONNECTION SECURED' : timedOut ? 'CONNECTION TIMED OUT - CONTINUE' : 'WRONG NODE - CONTINUE',
+            tokensEarned: tokensAwarded + speedBonus + streakTokens,
+            tokenBreakdown: {
+                base: tokensAwarded,
+                bonus: 0,
+                speed: speedBonus,
+                streak: streakTokens,
+            },
+            reactionMs,
+            underReview,
+            timedOut,
+            serverTime: Date.now(),
             nextRound: {
                 round: nextRound,
                 numbers: shownNumbers,
                 displayTime: roundConfig.displayTime * 1000,
+                fakeCount: roundConfig.fakeCount,
                 nonce: newNonce,
+                ...nextTimings,
             },
         });
 
@@ -179,6 +439,14 @@ export async function POST(request: NextRequest) {
 // GET endpoint to fetch selection options for current round
 export async function GET(request: NextRequest) {
     try {
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
         const { searchParams } = new URL(request.url);
         const sessionId = searchParams.get('sessionId');
         const nonce = searchParams.get('nonce');
@@ -190,14 +458,23 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        const session = getSession(sessionId);
+        const session = await getSession(sessionId);
         if (!session) {
+            return missingSessionResponse(sessionId, fid);
+        }
+
+        if (session.fid !== fid) {
             return NextResponse.json(
-                { error: 'Session not found' },
-                { status: 404 }
+                { error: 'Session mismatch' },
+                { status: 403 }
             );
         }
 
+        if (isSessionExpired(session)) {
+            await expireSession(session);
+            return sessionExpiredResponse();
+        }
+
         if (session.nonce !== nonce) {
             return NextResponse.json(
                 { error: 'Invalid nonce' },
@@ -205,10 +482,22 @@ export async function GET(request: NextRequest) {
             );
         }
 
+        // Don't reveal options before the memorize window has elapsed
+        const now = Date.now();
+        const timings = getRoundTimings(session.roundStartedAt, session.displayTime);
+        if (now < timings.optionsAvailableAt - CLOCK_GRACE_MS) {
+            return NextResponse.json(
+                { error: 'Memorize phase still running', code: 'TOO_EARLY', serverTime: now, ...timings },
+                { status: 425 }
+            );
+        }
+
         // Return selection options (doesn't reveal which is fake)
         return NextResponse.json({
             options: session.selectionOptions,
             round: session.round,
+            serverTime: now,
+            ...timings,
         });
 
     } catch (error) {
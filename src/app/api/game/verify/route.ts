@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { replaySession, isDifficulty, isSeedRevealable, DEFAULT_DIFFICULTY } from '@/lib/gameLogic';
+import { hashSeed } from '@/lib/rng';
+import { getSessionResult } from '@/lib/db';
+import { isChallengedSession } from '@/lib/friendChallenges';
+
+// Recompute a session's rounds from its revealed seed.
+// Either ?sessionId= (finished sessions) or ?seed=&difficulty=&commitment=
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const sessionId = searchParams.get('sessionId');
+
+        let seed = searchParams.get('seed');
+        let difficulty = searchParams.get('difficulty') || DEFAULT_DIFFICULTY;
+        let commitment = searchParams.get('commitment');
+
+        if (sessionId) {
+            // Seeds are only stored in results, i.e. after the session is over
+            const result = await getSessionResult(sessionId);
+            if (!result) {
+                return NextResponse.json(
+                    { error: 'Session not found or still in progress' },
+                    { status: 404 }
+                );
+            }
+
+            // A challenged seed would let anyone accepting the challenge precompute its rounds
+            if (result.mode === 'friend' || await isChallengedSession(result.sessionId)) {
+                return NextResponse.json(
+                    { error: 'Seeds of challenged sessions stay hidden while the challenge is open', code: 'SEED_NOT_REVEALED' },
+                    { status: 403 }
+                );
+            }
+
+            // A daily seed would hand out today's rounds to everyone else
+            if (!isSeedRevealable(result.mode, result.startedAt)) {
+                return NextResponse.json(
+                    { error: 'Daily challenge seeds are revealed after the day ends (UTC)', code: 'SEED_NOT_REVEALED' },
+                    { status: 403 }
+                );
+            }
+
+            seed = result.seed;
+            difficulty = result.difficulty;
+            commitment = result.seedCommitment;
+        }
+
+        if (!seed) {
+            return NextResponse.json(
+                { error: 'Missing sessionId or seed' },
+                { status: 400 }
+            );
+        }
+
+        if (!isDifficulty(difficulty)) {
+            return NextResponse.json(
+                { error: 'Invalid difficulty' },
+                { status: 400 }
+            );
+        }
+
+        const seedCommitment = await hashSeed(seed);
+
+        return NextResponse.json({
+            sessionId,
+            difficulty,
+            seed,
+            seedCommitment,
+            commitmentValid: commitment ? commitment === seedCommitment : null,
+            rounds: replaySession(seed, difficulty),
+        });
+
+    } catch (error) {
+        console.error('Error verifying session:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDailyChallengeLeaderboard, getDailyChallengeRank, attachProfiles } from '@/lib/db';
+import { getChallengeDate } from '@/lib/gameLogic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_PAGE_SIZE = 50;
+
+// Daily challenge standings: ?date=YYYY-MM-DD (default today, UTC), ?cursor=, ?limit=, ?fid=
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const challengeDate = searchParams.get('date') || getChallengeDate();
+        const cursor = parseInt(searchParams.get('cursor') || '0', 10);
+        const limit = parseInt(searchParams.get('limit') || '10', 10);
+        const fidParam = searchParams.get('fid');
+
+        if (!DATE_PATTERN.test(challengeDate) || isNaN(Date.parse(challengeDate))) {
+            return NextResponse.json(
+                { error: 'Invalid date' },
+                { status: 400 }
+            );
+        }
+
+        if (isNaN(cursor) || cursor < 0 || isNaN(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid cursor or limit' },
+                { status: 400 }
+            );
+        }
+
+        const fid = fidParam ? parseInt(fidParam, 10) : null;
+        if (fid !== null && isNaN(fid)) {
+            return NextResponse.json(
+                { error: 'Invalid fid' },
+                { status: 400 }
+            );
+        }
+
+        const { entries, nextCursor } = await getDailyChallengeLeaderboard({
+            challengeDate,
+            cursor,
+            limit: Math.min(limit, MAX_PAGE_SIZE),
+        });
+
+        const player = fid ? await getDailyChallengeRank(fid, challengeDate) : null;
+
+        return NextResponse.json({
+            date: challengeDate,
+            leaderboard: await attachProfiles(entries),
+            nextCursor,
+            player: player && (await attachProfiles([player]))[0],
+        });
+
+    } catch (error) {
+        console.error('Error getting daily challenge leaderboard:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
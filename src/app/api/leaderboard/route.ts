@@ -1,12 +1,56 @@
-import { NextResponse } from 'next/server';
-import { getLeaderboard } from '@/lib/db';
+import { NextRequest, NextResponse } from 'next/server';
+import { getLeaderboard, getPlayerRank, attachProfiles, LeaderboardPeriod } from '@/lib/db';
 
-export async function GET() {
+const PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'all'];
+const MAX_PAGE_SIZE = 50;
+
+export async function GET(request: NextRequest) {
     try {
-        const leaderboard = await getLeaderboard();
+        const { searchParams } = new URL(request.url);
+        const period = (searchParams.get('period') || 'all') as LeaderboardPeriod;
+        const cursor = parseInt(searchParams.get('cursor') || '0', 10);
+        const limit = parseInt(searchParams.get('limit') || '10', 10);
+        const fidParam = searchParams.get('fid');
+
+        if (!PERIODS.includes(period)) {
+            return NextResponse.json(
+                { error: 'Invalid period' },
+                { status: 400 }
+            );
+        }
+
+        if (isNaN(cursor) || cursor < 0 || isNaN(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid cursor or limit' },
+                { status: 400 }
+            );
+        }
+
+        const fid = fidParam ? parseInt(fidParam, 10) : null;
+        if (fid !== null && isNaN(fid)) {
+            return NextResponse.json(
+                { error: 'Invalid fid' },
+                { status: 400 }
+            );
+        }
+
+        const { entries, nextCursor } = await getLeaderboard({
+            period,
+            cursor,
+            limit: Math.min(limit, MAX_PAGE_SIZE),
+        });
+
+        // Caller's own rank and neighbors, even if they're off this page
+        const player = fid ? await getPlayerRank(fid, period) : null;
 
         return NextResponse.json({
-            leaderboard,
+            period,
+            leaderboard: await attachProfiles(entries),
+            nextCursor,
+            player: player && {
+                entry: player.entry && (await attachProfiles([player.entry]))[0],
+                neighbors: await attachProfiles(player.neighbors),
+            },
         });
 
     } catch (error) {
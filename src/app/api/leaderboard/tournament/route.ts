@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { attachProfiles } from '@/lib/db';
+import {
+    getTournament,
+    getTournamentLeaderboard,
+    getTournamentRank,
+    getTournamentStatus,
+    parseTournamentId
+} from '@/lib/tournaments';
+
+const MAX_PAGE_SIZE = 50;
+
+// Tournament standings with the prize for each place: ?id=, ?cursor=, ?limit=, ?fid=
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const tournamentId = parseTournamentId(searchParams.get('id') || '');
+        const cursor = parseInt(searchParams.get('cursor') || '0', 10);
+        const limit = parseInt(searchParams.get('limit') || '10', 10);
+        const fidParam = searchParams.get('fid');
+
+        const tournament = tournamentId ? await getTournament(tournamentId) : null;
+        if (!tournament) {
+            return NextResponse.json(
+                { error: 'Tournament not found', code: 'TOURNAMENT_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        if (isNaN(cursor) || cursor < 0 || isNaN(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid cursor or limit' },
+                { status: 400 }
+            );
+        }
+
+        const fid = fidParam ? parseInt(fidParam, 10) : null;
+        if (fid !== null && isNaN(fid)) {
+            return NextResponse.json(
+                { error: 'Invalid fid' },
+                { status: 400 }
+            );
+        }
+
+        const { entries, nextCursor } = await getTournamentLeaderboard({
+            tournamentId: tournament.id,
+            cursor,
+            limit: Math.min(limit, MAX_PAGE_SIZE),
+        });
+
+        const player = fid ? await getTournamentRank(fid, tournament.id) : null;
+        const withPrize = <T extends { rank: number }>(entry: T) => ({
+            ...entry,
+            prize: tournament.prizes[entry.rank - 1] ?? 0,
+        });
+
+        return NextResponse.json({
+            tournament: { ...tournament, status: getTournamentStatus(tournament) },
+            leaderboard: (await attachProfiles(entries)).map(withPrize),
+            nextCursor,
+            player: player && withPrize((await attachProfiles([player]))[0]),
+        });
+
+    } catch (error) {
+        console.error('Error getting tournament leaderboard:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
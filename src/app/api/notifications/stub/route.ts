@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SendNotificationRequest } from '@farcaster/miniapp-sdk';
+import { isNotificationStubEnabled } from '@/lib/notifications';
+
+// Notifications received by this instance, newest last
+const received: SendNotificationRequest[] = [];
+
+// Stand-in for a Farcaster client's notification endpoint (only when NOTIFICATION_STUB=1).
+// Register it as the notificationDetails.url of a test token; tokens starting with
+// `invalid` are reported back as invalid.
+export async function POST(request: NextRequest) {
+    try {
+        if (!isNotificationStubEnabled()) {
+            return NextResponse.json(
+                { error: 'Not found' },
+                { status: 404 }
+            );
+        }
+
+        const body = await request.json().catch(() => null) as SendNotificationRequest | null;
+
+        if (!body || typeof body.notificationId !== 'string' || !Array.isArray(body.tokens)) {
+            return NextResponse.json(
+                { error: 'Invalid notification' },
+                { status: 400 }
+            );
+        }
+
+        received.push(body);
+
+        return NextResponse.json({
+            result: {
+                successfulTokens: body.tokens.filter(token => !token.startsWith('invalid')),
+                invalidTokens: body.tokens.filter(token => token.startsWith('invalid')),
+                rateLimitedTokens: [],
+            },
+        });
+
+    } catch (error) {
+        console.error('Error receiving stub notification:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// Notifications the stub has received
+export async function GET() {
+    if (!isNotificationStubEnabled()) {
+        return NextResponse.json(
+            { error: 'Not found' },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json({ notifications: received });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFriendChallenge } from '@/lib/friendChallenges';
+import { getShareableResult } from '@/lib/share';
+import { renderResultCard } from '@/lib/shareCard';
+
+// The challenger's result card, keyed by challenge so the original session id stays private
+export async function GET(request: NextRequest, context: { params: Promise<{ challengeId: string }> }) {
+    try {
+        const { challengeId } = await context.params;
+        const challenge = await getFriendChallenge(challengeId);
+        const result = challenge ? await getShareableResult(challenge.sessionId) : null;
+
+        if (!result) {
+            return NextResponse.json(
+                { error: 'Challenge not found' },
+                { status: 404 }
+            );
+        }
+
+        return renderResultCard(result);
+
+    } catch (error) {
+        console.error('Error rendering challenge image:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
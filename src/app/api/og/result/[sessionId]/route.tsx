@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShareableResult } from '@/lib/share';
+import { renderResultCard } from '@/lib/shareCard';
+
+// Terminal-styled share card for a finished session
+export async function GET(request: NextRequest, context: { params: Promise<{ sessionId: string }> }) {
+    try {
+        const { sessionId } = await context.params;
+        const result = await getShareableResult(sessionId);
+
+        if (!result) {
+            return NextResponse.json(
+                { error: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        return renderResultCard(result);
+
+    } catch (error) {
+        console.error('Error rendering result image:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionHistory, parseHistoryCursor } from '@/lib/db';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { getChallengedSessionIds } from '@/lib/friendChallenges';
+import { isSeedRevealable } from '@/lib/gameLogic';
+
+const MAX_PAGE_SIZE = 20;
+
+// Finished sessions of a player with every answered round: ?fid= (default: caller), ?cursor=, ?limit=
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const fidParam = searchParams.get('fid');
+        const cursor = searchParams.get('cursor');
+        const limit = parseInt(searchParams.get('limit') || '10', 10);
+
+        const callerFid = await getAuthenticatedFid(request);
+        const fid = fidParam ? parseInt(fidParam, 10) : callerFid;
+
+        if (fid === null) {
+            return NextResponse.json(
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        if (isNaN(fid) || isNaN(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid fid or limit' },
+                { status: 400 }
+            );
+        }
+
+        if (cursor && !parseHistoryCursor(cursor)) {
+            return NextResponse.json(
+                { error: 'Invalid cursor' },
+                { status: 400 }
+            );
+        }
+
+        const { sessions, nextCursor } = await getSessionHistory(fid, {
+            cursor,
+            limit: Math.min(limit, MAX_PAGE_SIZE),
+        });
+
+        // Same rule as /api/game/verify: a challenged session's rounds are the challenge's answers
+        const challenged = await getChallengedSessionIds(sessions.map(session => session.sessionId));
+
+        return NextResponse.json({
+            fid,
+            // The suspicion score stays server-side so it can't be tuned against
+            sessions: sessions.map(({ seed, rounds, suspicionScore, ...session }) => {
+                // Today's daily rounds and open challenges would be given away to anyone but the player
+                const revealed = isSeedRevealable(session.mode, session.startedAt) && !challenged.has(session.sessionId);
+                return {
+                    ...session,
+                    seed: revealed ? seed : null,
+                    rounds: revealed || fid === callerFid ? rounds : [],
+                };
+            }),
+            nextCursor,
+        });
+
+    } catch (error) {
+        console.error('Error getting player history:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,37 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPlayerStats } from '@/lib/store';
-import { getPlayerTokens } from '@/lib/db';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { getPlayerBadges } from '@/lib/achievements';
 
 export async function GET(request: NextRequest) {
     try {
-        const { searchParams } = new URL(request.url);
-        const fidParam = searchParams.get('fid');
-
-        if (!fidParam) {
-            return NextResponse.json(
-                { error: 'Missing fid parameter' },
-                { status: 400 }
-            );
-        }
-
-        const fid = parseInt(fidParam, 10);
-        if (isNaN(fid)) {
+        // Identify the player from the verified Quick Auth token
+        const fid = await getAuthenticatedFid(request);
+        if (!fid) {
             return NextResponse.json(
-                { error: 'Invalid fid' },
-                { status: 400 }
+                { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+                { status: 401 }
             );
         }
 
-        // Get in-memory stats (cooldown info)
-        const stats = getPlayerStats(fid);
-
-        // Get total tokens from Supabase
-        const totalTokens = await getPlayerTokens(fid);
+        // Cooldown info from the session store, tokens and lifetime stats from Supabase
+        const [stats, badges] = await Promise.all([
+            getPlayerStats(fid),
+            getPlayerBadges(fid),
+        ]);
 
-        return NextResponse.json({
-            ...stats,
-            totalTokens,  // Override with Supabase value
-        });
+        return NextResponse.json({ ...stats, badges });
 
     } catch (error) {
         console.error('Error getting player stats:', error);
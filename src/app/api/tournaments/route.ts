@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedFid } from '@/lib/auth';
+import {
+    getTournamentAttempts,
+    getTournamentFinalizeAt,
+    getTournamentStatus,
+    listTournaments
+} from '@/lib/tournaments';
+
+const RECENT_DAYS = 7;
+
+// Running, upcoming and recently closed tournaments; signed-in players also get their attempts used
+export async function GET(request: NextRequest) {
+    try {
+        const fid = await getAuthenticatedFid(request);
+        const now = new Date();
+
+        const { tournaments } = await listTournaments({
+            endedAfter: new Date(now.getTime() - RECENT_DAYS * 24 * 60 * 60 * 1000),
+            limit: 20,
+        });
+
+        const attempts = fid
+            ? await getTournamentAttempts(tournaments.map(tournament => tournament.id), fid)
+            : null;
+
+        return NextResponse.json({
+            tournaments: tournaments.map(tournament => ({
+                ...tournament,
+                status: getTournamentStatus(tournament, now),
+                finalizeAt: getTournamentFinalizeAt(tournament),
+                attemptsUsed: attempts ? attempts.get(tournament.id) ?? 0 : null,
+            })),
+            serverTime: now.getTime(),
+        });
+
+    } catch (error) {
+        console.error('Error listing tournaments:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
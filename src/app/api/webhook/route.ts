@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleWebhookEvent, verifyWebhookEvent } from '@/lib/notifications';
+
+// Mini-app events from Farcaster clients (manifest webhookUrl): added/removed, notifications on/off
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => null);
+        const verified = await verifyWebhookEvent(body);
+
+        if (!verified) {
+            return NextResponse.json(
+                { error: 'Invalid signature', code: 'INVALID_SIGNATURE' },
+                { status: 401 }
+            );
+        }
+
+        await handleWebhookEvent(verified);
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('Error handling webhook event:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
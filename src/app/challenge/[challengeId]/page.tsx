@@ -0,0 +1,76 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { getFriendChallenge } from '@/lib/friendChallenges';
+import { buildEmbed, getAppUrl } from '@/lib/manifest';
+import { formatShareTime, getShareableResult } from '@/lib/share';
+
+interface ChallengePageProps {
+    params: Promise<{ challengeId: string }>;
+}
+
+// Cast embed for a challenge: the challenger's result card, with a button that opens the same rounds
+export async function generateMetadata({ params }: ChallengePageProps): Promise<Metadata> {
+    const { challengeId } = await params;
+    const challenge = await getFriendChallenge(challengeId);
+    const appUrl = getAppUrl();
+
+    const imageUrl = challenge ? `${appUrl}/api/og/challenge/${encodeURIComponent(challengeId)}` : undefined;
+    const url = `${appUrl}/?challenge=${encodeURIComponent(challengeId)}`;
+
+    return {
+        title: 'Terminal - Challenge',
+        openGraph: {
+            title: 'Terminal',
+            description: 'Same rounds, your move. Can you beat this run?',
+            images: imageUrl ? [imageUrl] : undefined,
+        },
+        other: {
+            'fc:miniapp': JSON.stringify(buildEmbed('launch_miniapp', { imageUrl, buttonTitle: 'Accept Challenge', url })),
+            'fc:frame': JSON.stringify(buildEmbed('launch_frame', { imageUrl, buttonTitle: 'Accept Challenge', url })),
+        },
+    };
+}
+
+// Landing page for challenge links opened outside a Farcaster client
+export default async function ChallengePage({ params }: ChallengePageProps) {
+    const { challengeId } = await params;
+    const challenge = await getFriendChallenge(challengeId);
+    const result = challenge ? await getShareableResult(challenge.sessionId) : null;
+
+    return (
+        <main className="terminal-container">
+            <div className="terminal-screen">
+                <div className="result-container">
+                    <div className="result-title success">
+                        {result ? `INCOMING CHALLENGE // ${result.playerName}` : 'CHALLENGE NOT FOUND'}
+                    </div>
+
+                    {result && (
+                        <div className="stats-container">
+                            <div className="stat-row">
+                                <span className="stat-label">Nodes Verified</span>
+                                <span className="stat-value">{result.correctAnswers}/{result.totalRounds}</span>
+                            </div>
+                            <div className="stat-row">
+                                <span className="stat-label">Total Time</span>
+                                <span className="stat-value">{formatShareTime(result.totalTime)}</span>
+                            </div>
+                            <div className="stat-row">
+                                <span className="stat-label">Access Level</span>
+                                <span className="stat-value">{result.accessLevel}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    <Link
+                        className="action-btn primary"
+                        href={result ? `/?challenge=${encodeURIComponent(challengeId)}` : '/'}
+                        style={{ textAlign: 'center', textDecoration: 'none' }}
+                    >
+                        {result ? '[ ACCEPT CHALLENGE ]' : '[ PLAY TERMINAL ]'}
+                    </Link>
+                </div>
+            </div>
+        </main>
+    );
+}
@@ -1,4 +1,5 @@
 import type { Metadata, Viewport } from "next";
+import { buildEmbed } from "@/lib/manifest";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -9,6 +10,11 @@ export const metadata: Metadata = {
         description: "Can you identify the intruder? Test your memory in this hacker-themed game.",
         type: "website",
     },
+    // Embed card with a launch button when the app URL is shared in a cast
+    other: {
+        "fc:miniapp": JSON.stringify(buildEmbed("launch_miniapp")),
+        "fc:frame": JSON.stringify(buildEmbed("launch_frame")),
+    },
 };
 
 export const viewport: Viewport = {
@@ -26,9 +32,6 @@ export default function RootLayout({
 }>) {
     return (
         <html lang="en">
-            <head>
-                <meta name="fc:miniapp" content="true" />
-            </head>
             <body>
                 {children}
             </body>
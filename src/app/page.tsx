@@ -1,8 +1,24 @@
 'use client';
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { initializeSDK, getUserContext, getMockUser, shareResult, isInFarcaster, FarcasterUser } from '@/lib/farcaster';
-import { TOTAL_ROUNDS } from '@/lib/gameLogic';
+import {
+    initializeSDK,
+    getUserContext,
+    getMockUser,
+    shareResult,
+    isInFarcaster,
+    hasNotificationsEnabled,
+    enableNotifications,
+    authFetch,
+    getWalletAddress,
+    redeemClaim,
+    signWalletMessage,
+    FarcasterUser
+} from '@/lib/farcaster';
+import { DIFFICULTY_PROFILES, DEFAULT_DIFFICULTY, getTotalRounds, Difficulty, GameMode } from '@/lib/gameLogic';
+import { readServerSentEvents } from '@/lib/sse';
+import type { DuelPlayer, DuelView } from '@/lib/duels';
+import { getWalletProofMessage } from '@/lib/walletProof';
 
 // Game phases
 type GamePhase =
@@ -13,24 +29,195 @@ type GamePhase =
     | 'ROUND_RESULT'
     | 'SESSION_SUCCESS'
     | 'SESSION_FAIL'
+    | 'SESSION_EXPIRED'
+    | 'HEAD_TO_HEAD'
+    | 'DUEL_LOBBY'
+    | 'DUEL_MEMORIZE'
+    | 'DUEL_SELECT'
+    | 'DUEL_ROUND_RESULT'
+    | 'DUEL_RESULT'
     | 'LIMIT_REACHED'
-    | 'LEADERBOARD';
+    | 'LEADERBOARD'
+    | 'PROFILE'
+    | 'CLAIMS'
+    | 'HISTORY';
+
+// 'challenge' is today's daily challenge, ranked by correct answers then time;
+// 'tournament' is the selected tournament's standings, ranked the same way
+type LeaderboardPeriod = 'daily' | 'weekly' | 'all' | 'challenge' | 'tournament';
 
 interface LeaderboardEntry {
     fid: number;
-    total_tokens: number;
+    total_tokens?: number;
+    correct_answers?: number;  // Daily challenge and tournament entries
+    total_time?: number;
+    prize?: number;            // Tournament entries: tokens paid for this place at close
+    rank: number;
+    username: string | null;
+    display_name: string;
+    pfp_url: string | null;
+}
+
+interface PlayerRank {
+    entry: LeaderboardEntry | null;
+    neighbors: LeaderboardEntry[];
+}
+
+// A finished session from /api/player/history
+interface HistoryRound {
+    round: number;
+    shownNumbers: number[];
+    fakeNumbers: number[];
+    selectionOptions: number[];
+    selectedNumbers: number[] | null;
+    correct: boolean;
+    timedOut: boolean;
+    reactionMs: number;
+    tokens: number;
+}
+
+interface HistorySession {
+    sessionId: string;
+    status: 'completed' | 'abandoned';
+    mode: GameMode;
+    difficulty: Difficulty;
+    tokensEarned: number;
+    correctAnswers: number;
+    wrongAnswers: number;
+    perfect: boolean;
+    totalTime: number | null;
+    finishedAt: string;
+    rounds: HistoryRound[];
+}
+
+// Replay position: which round, and whether its options are showing yet
+interface ReplayState {
+    session: HistorySession;
+    roundIndex: number;
+    showOptions: boolean;
+}
+
+const LEADERBOARD_PERIODS: { period: LeaderboardPeriod; label: string }[] = [
+    { period: 'daily', label: 'DAILY' },
+    { period: 'weekly', label: 'WEEKLY' },
+    { period: 'all', label: 'ALL TIME' },
+    { period: 'challenge', label: 'CHALLENGE' },
+    { period: 'tournament', label: 'TOURNAMENT' },
+];
+
+// Where a result's tokens came from (submit response)
+interface TokenBreakdown {
+    base: number;
+    bonus: number;
+    speed?: number;
+    streak: number;
+    milestone?: number;
+}
+
+// Achievement badge (unlockedAt is null while locked)
+interface Badge {
+    id: string;
+    name: string;
+    description: string;
+    unlockedAt: string | null;
+}
+
+// Per-round outcome returned with the final submit
+interface RoundResult {
+    round: number;
+    reactionMs: number;
+    correct: boolean;
+    timedOut: boolean;
+    tokens: number;
+    speedBonus: number;
+}
+
+// Result card of the run that issued a friend challenge
+interface OpponentResult {
+    playerName: string;
+    correctAnswers: number;
+    totalRounds: number;
+    totalTime: number | null;
+    accessLevel: 'ELITE' | 'VERIFIED' | 'DENIED';
+}
+
+// Challenge the app was opened with (?challenge=<id>), from /api/challenge/[id]
+interface IncomingChallenge {
+    challengeId: string;
+    difficulty: Difficulty;
+    opponent: OpponentResult;
+    own: boolean;
+    attempted: boolean;
+}
+
+// Returned with the final submit of a friend challenge
+interface HeadToHead {
+    challengeId: string;
+    opponent: OpponentResult;
+    outcome: 'win' | 'loss' | 'draw';
+}
+
+// Running or recent tournament from /api/tournaments
+interface TournamentSummary {
+    id: number;
+    name: string;
+    status: 'scheduled' | 'open' | 'closing' | 'finalized';
+    startsAt: string;
+    endsAt: string;
+    maxAttempts: number;
+    prizes: number[];
+    attemptsUsed: number | null;
+}
+
+// Caller's standing returned with the final submit of a tournament attempt
+interface TournamentRank {
     rank: number;
+    correct_answers: number;
+    total_time: number;
+}
+
+// On-chain withdrawal from /api/claims; calldata is set while the voucher can be redeemed
+interface TokenClaimView {
+    id: number;
+    wallet: string;
+    amount: number;
+    status: 'pending' | 'signed' | 'redeemed' | 'expired';
+    expiresAt: string;
+    chainId: number;
+    contract: string;
+    calldata: string | null;
 }
 
 interface GameState {
     phase: GamePhase;
     sessionId: string | null;
+    mode: GameMode;
+    seedCommitment: string;      // Hash of the round seed, revealed at session end
+    seedRevealed: boolean;       // Daily seeds stay hidden until the UTC day is over
+    totalRounds: number;
     round: number;
     numbers: number[];
     displayTime: number;
     nonce: string;
     timeLeft: number;
+    optionsAvailableAt: number;  // Server epoch ms when options unlock
+    answerDeadline: number;      // Server epoch ms after which answers count as wrong
+    answerTimeLeft: number;
     selectionOptions: number[];
+    fakeCount: number;           // Fakes to pick in the current round
+    selectedNumbers: number[];
+    roundTokens: number;         // Tokens from the last answered round
+    roundStreakTokens: number;   // Streak multiplier share of roundTokens
+    roundSpeedBonus: number;     // Speed bonus share of roundTokens
+    roundReactionMs: number;     // Options revealed -> answer, server-measured
+    roundResults: RoundResult[]; // Round-by-round breakdown, set when the session completes
+    newBadges: Badge[];          // Unlocked by the session that just completed
+    streakMultiplier: number;    // Locked in for the session at start
+    tokenBreakdown: TokenBreakdown | null;  // Session split, set when the session completes
+    underReview: boolean;        // Answer timings looked automated; tokens are held, not credited
+    headToHead: HeadToHead | null;  // Set when a friend challenge completes
+    tournamentId: number | null;    // Tournament the session is an attempt at
+    tournamentRank: TournamentRank | null;  // Best-run standing, set when a tournament attempt completes
     tokensEarned: number;
     totalTime: number;
     message: string;
@@ -42,6 +229,17 @@ interface GameState {
         cooldownFormatted: string;
         cooldownEndsAt: string | null;  // ISO timestamp for client-side countdown
         totalTokens: number;
+        dailyAvailable?: boolean;       // Today's daily challenge not attempted yet
+        banned?: boolean;               // Banned by an admin; no new sessions
+        // Lifetime stats (from /api/player/stats)
+        currentStreak?: number;
+        longestStreak?: number;
+        perfectSessions?: number;
+        totalSessions?: number;
+        totalCorrect?: number;
+        totalWrong?: number;
+        bestCompletionTime?: number | null;
+        badges?: Badge[];
     } | null;
 }
 
@@ -60,12 +258,33 @@ export default function Game() {
     const [gameState, setGameState] = useState<GameState>({
         phase: 'LOADING',
         sessionId: null,
+        mode: 'classic',
+        seedCommitment: '',
+        seedRevealed: false,
+        totalRounds: getTotalRounds(DEFAULT_DIFFICULTY),
         round: 1,
         numbers: [],
         displayTime: 10000,
         nonce: '',
         timeLeft: 0,
+        optionsAvailableAt: 0,
+        answerDeadline: 0,
+        answerTimeLeft: 0,
         selectionOptions: [],
+        fakeCount: 1,
+        selectedNumbers: [],
+        roundTokens: 0,
+        roundStreakTokens: 0,
+        roundSpeedBonus: 0,
+        roundReactionMs: 0,
+        roundResults: [],
+        newBadges: [],
+        streakMultiplier: 1,
+        tokenBreakdown: null,
+        underReview: false,
+        headToHead: null,
+        tournamentId: null,
+        tournamentRank: null,
         tokensEarned: 0,
         totalTime: 0,
         message: '',
@@ -74,12 +293,51 @@ export default function Game() {
         stats: null,
     });
     const [introIndex, setIntroIndex] = useState(0);
+    const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isFarcasterClient, setIsFarcasterClient] = useState(false);
+    const [notificationsEnabled, setNotificationsEnabled] = useState(false);
     const [cooldownDisplay, setCooldownDisplay] = useState('00:00:00');
     const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
     const [isLoadingLeaderboard, setIsLoadingLeaderboard] = useState(false);
+    const [leaderboardPeriod, setLeaderboardPeriod] = useState<LeaderboardPeriod>('all');
+    const [leaderboardCursor, setLeaderboardCursor] = useState<number | null>(null);
+    const [playerRank, setPlayerRank] = useState<PlayerRank | null>(null);
+    const [history, setHistory] = useState<HistorySession[]>([]);
+    const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+    const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+    const [replay, setReplay] = useState<ReplayState | null>(null);
+    const [challenge, setChallenge] = useState<IncomingChallenge | null>(null);
+    const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
+    const [leaderboardTournamentId, setLeaderboardTournamentId] = useState<number | null>(null);
+    const [claims, setClaims] = useState<TokenClaimView[]>([]);
+    const [claimMinAmount, setClaimMinAmount] = useState<number | null>(null);  // null while claims are disabled
+    const [claimMessage, setClaimMessage] = useState('');
+    const [isClaiming, setIsClaiming] = useState(false);
+    const [duel, setDuel] = useState<DuelView | null>(null);
+    const [duelSelection, setDuelSelection] = useState<number[]>([]);
+    const [duelNow, setDuelNow] = useState(0);  // Server-clock ms, ticking during a duel
     const timerRef = useRef<NodeJS.Timeout | null>(null);
+    const clockOffsetRef = useRef(0);  // serverTime - local time
+
+    // Align local countdowns with the server clock
+    const syncClock = (serverTime?: number) => {
+        if (typeof serverTime === 'number') {
+            clockOffsetRef.current = serverTime - Date.now();
+        }
+    };
+    const serverNow = () => Date.now() + clockOffsetRef.current;
+
+    // Refresh tournaments and the caller's attempts used
+    const loadTournaments = async (currentUser: FarcasterUser) => {
+        try {
+            const res = await authFetch(currentUser, '/api/tournaments');
+            const data = await res.json();
+            setTournaments(data.tournaments ?? []);
+        } catch (error) {
+            console.error('Failed to fetch tournaments:', error);
+        }
+    };
 
     // Initialize SDK and get user
     useEffect(() => {
@@ -89,6 +347,7 @@ export default function Game() {
             // Check if running inside Farcaster
             const inFarcaster = await isInFarcaster();
             setIsFarcasterClient(inFarcaster);
+            setNotificationsEnabled(inFarcaster && await hasNotificationsEnabled());
 
             let currentUser = await getUserContext();
 
@@ -98,14 +357,31 @@ export default function Game() {
             }
 
             setUser(currentUser);
+            loadTournaments(currentUser);
+
+            // Opened from a challenge cast: load who we're up against
+            const challengeId = new URLSearchParams(window.location.search).get('challenge');
+            let incoming: IncomingChallenge | null = null;
+            if (challengeId) {
+                try {
+                    const res = await authFetch(currentUser, `/api/challenge/${encodeURIComponent(challengeId)}`);
+                    incoming = res.ok ? await res.json() : null;
+                    setChallenge(incoming);
+                } catch (error) {
+                    console.error('Failed to fetch challenge:', error);
+                }
+            }
 
             // Fetch initial stats
             if (currentUser) {
                 try {
-                    const res = await fetch(`/api/player/stats?fid=${currentUser.fid}`);
+                    const res = await authFetch(currentUser, '/api/player/stats');
                     const stats = await res.json();
 
-                    if (!stats.canPlay) {
+                    // Friend challenges don't wait for the cooldown
+                    const challengeOpen = incoming && !incoming.own && !incoming.attempted && !stats.banned;
+
+                    if (!stats.canPlay && !challengeOpen) {
                         setGameState(prev => ({
                             ...prev,
                             phase: 'LIMIT_REACHED',
@@ -177,37 +453,61 @@ export default function Game() {
         return () => clearInterval(interval);
     }, [gameState.phase, gameState.stats?.cooldownEndsAt]);
 
-    // Timer countdown effect
+    // Timer countdown effect (memorize window, derived from the server deadline)
     useEffect(() => {
-        if (gameState.phase !== 'MEMORIZE' || gameState.timeLeft <= 0) return;
+        if (gameState.phase !== 'MEMORIZE') return;
 
-        timerRef.current = setTimeout(() => {
+        const updateTimer = () => {
+            const remaining = gameState.optionsAvailableAt - (Date.now() + clockOffsetRef.current);
             setGameState(prev => ({
                 ...prev,
-                timeLeft: prev.timeLeft - 1,
+                timeLeft: Math.max(0, Math.ceil(remaining / 1000)),
             }));
-        }, 1000);
+        };
+
+        updateTimer();
+        timerRef.current = setInterval(updateTimer, 250);
 
         return () => {
-            if (timerRef.current) clearTimeout(timerRef.current);
+            if (timerRef.current) clearInterval(timerRef.current);
         };
-    }, [gameState.phase, gameState.timeLeft]);
+    }, [gameState.phase, gameState.optionsAvailableAt]);
 
     // When timer reaches 0, fetch selection options
     useEffect(() => {
         if (gameState.phase === 'MEMORIZE' && gameState.timeLeft === 0) {
+            let retryTimer: NodeJS.Timeout | null = null;
+
             const fetchOptions = async () => {
+                if (!user) return;
+
                 try {
-                    const res = await fetch(
+                    const res = await authFetch(
+                        user,
                         `/api/game/submit?sessionId=${gameState.sessionId}&nonce=${gameState.nonce}`
                     );
                     const data = await res.json();
+                    syncClock(data.serverTime);
+
+                    if (data.code === 'SESSION_EXPIRED') {
+                        setGameState(prev => ({ ...prev, phase: 'SESSION_EXPIRED' }));
+                        return;
+                    }
+
+                    if (data.code === 'TOO_EARLY') {
+                        // Local clock ran ahead - retry when the server unlocks the options
+                        retryTimer = setTimeout(fetchOptions, Math.max(100, data.optionsAvailableAt - data.serverTime));
+                        return;
+                    }
 
                     if (data.options) {
                         setGameState(prev => ({
                             ...prev,
                             phase: 'SELECT',
                             selectionOptions: data.options,
+                            selectedNumbers: [],
+                            answerDeadline: data.answerDeadline,
+                            answerTimeLeft: Math.max(1, Math.ceil((data.answerDeadline - data.serverTime) / 1000)),
                         }));
                     }
                 } catch (error) {
@@ -215,22 +515,37 @@ export default function Game() {
                 }
             };
             fetchOptions();
+
+            return () => {
+                if (retryTimer) clearTimeout(retryTimer);
+            };
         }
-    }, [gameState.phase, gameState.timeLeft, gameState.sessionId, gameState.nonce]);
+    }, [gameState.phase, gameState.timeLeft, gameState.sessionId, gameState.nonce, user]);
 
-    const startGame = async () => {
+    const startGame = async (mode: GameMode = 'classic', tournamentId?: number) => {
         if (!user) return;
 
         setIntroIndex(0);
 
         try {
-            const res = await fetch('/api/game/start', {
+            const res = await authFetch(user, '/api/game/start', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ fid: user.fid }),
+                body: JSON.stringify({
+                    mode,
+                    difficulty,
+                    challengeId: mode === 'friend' ? challenge?.challengeId : undefined,
+                    tournamentId: mode === 'tournament' ? tournamentId : undefined,
+                    profile: {
+                        username: user.username,
+                        displayName: user.displayName,
+                        pfpUrl: user.pfpUrl,
+                    },
+                }),
             });
 
             const data = await res.json();
+            syncClock(data.serverTime);
 
             if (data.error) {
                 if (data.code === 'SESSION_LIMIT') {
@@ -241,6 +556,26 @@ export default function Game() {
                     }));
                     return;
                 }
+                if (data.code === 'BANNED') {
+                    // Stats carry the ban, so the status screen shows it
+                    await viewCooldownStatus();
+                    return;
+                }
+                if (data.code === 'DAILY_LIMIT') {
+                    // Refresh stats so the daily button goes away
+                    await viewCooldownStatus();
+                    return;
+                }
+                if (data.code === 'CHALLENGE_ATTEMPTED' || data.code === 'CHALLENGE_NOT_FOUND' || data.code === 'OWN_CHALLENGE') {
+                    // Drop the challenge; the regular intro is still there
+                    setChallenge(null);
+                    return;
+                }
+                if (data.code === 'TOURNAMENT_LIMIT' || data.code === 'TOURNAMENT_CLOSED' || data.code === 'TOURNAMENT_NOT_FOUND') {
+                    // Refresh the list so the tournament's button goes away
+                    await loadTournaments(user);
+                    return;
+                }
                 throw new Error(data.error);
             }
 
@@ -248,44 +583,80 @@ export default function Game() {
                 ...prev,
                 phase: 'MEMORIZE',
                 sessionId: data.sessionId,
+                mode: data.mode,
+                seedCommitment: data.seedCommitment,
+                seedRevealed: false,
+                totalRounds: data.totalRounds,
                 round: 1,
                 numbers: data.numbers,
                 displayTime: data.displayTime,
+                fakeCount: data.fakeCount,
                 nonce: data.nonce,
+                optionsAvailableAt: data.optionsAvailableAt,
                 timeLeft: Math.floor(data.displayTime / 1000),
+                streakMultiplier: data.streakMultiplier ?? 1,
+                tokenBreakdown: null,
+                underReview: false,
+                headToHead: null,
+                tournamentId: data.tournamentId ?? null,
+                tournamentRank: null,
+                roundResults: [],
+                newBadges: [],
                 tokensEarned: 0,
             }));
 
+            if (data.tournamentId) {
+                // One attempt used
+                loadTournaments(user);
+            }
+
         } catch (error) {
             console.error('Failed to start game:', error);
         }
     };
 
-    const submitAnswer = async (selectedNumber: number) => {
+    // selectedNumbers is null when the answer window ran out
+    const submitAnswer = async (selectedNumbers: number[] | null) => {
         if (!user || !gameState.sessionId || isSubmitting) return;
 
         setIsSubmitting(true);
 
         try {
-            const res = await fetch('/api/game/submit', {
+            const res = await authFetch(user, '/api/game/submit', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                    fid: user.fid,
                     sessionId: gameState.sessionId,
-                    selectedNumber,
+                    selectedNumbers,
                     nonce: gameState.nonce,
                 }),
             });
 
             const data = await res.json();
+            syncClock(data.serverTime);
+
+            if (data.code === 'SESSION_EXPIRED') {
+                setGameState(prev => ({ ...prev, phase: 'SESSION_EXPIRED' }));
+                return;
+            }
 
             if (data.sessionComplete) {
+                if (data.headToHead) {
+                    setChallenge(prev => prev && { ...prev, attempted: true });
+                }
+
                 // All 3 rounds completed
                 setGameState(prev => ({
                     ...prev,
-                    phase: data.perfectGame ? 'SESSION_SUCCESS' : 'SESSION_FAIL',
+                    phase: data.headToHead ? 'HEAD_TO_HEAD' : data.perfectGame ? 'SESSION_SUCCESS' : 'SESSION_FAIL',
+                    headToHead: data.headToHead ?? null,
+                    tournamentRank: data.tournamentRank ?? null,
                     tokensEarned: data.tokensEarned,
+                    tokenBreakdown: data.tokenBreakdown ?? null,
+                    underReview: Boolean(data.underReview),
+                    roundResults: data.rounds ?? [],
+                    newBadges: data.achievements ?? [],
+                    seedRevealed: Boolean(data.seed),
                     correctAnswers: data.correctAnswers,
                     wrongAnswers: data.wrongAnswers,
                     totalTime: data.totalTime,
@@ -298,22 +669,29 @@ export default function Game() {
                     phase: 'ROUND_RESULT',
                     round: data.nextRound.round,
                     message: data.message,
+                    roundTokens: data.tokensEarned || 0,
+                    roundStreakTokens: data.tokenBreakdown?.streak || 0,
+                    roundSpeedBonus: data.tokenBreakdown?.speed || 0,
+                    roundReactionMs: data.reactionMs || 0,
+                    underReview: Boolean(data.underReview),
                     tokensEarned: prev.tokensEarned + (data.tokensEarned || 0),
                     correctAnswers: data.correct ? prev.correctAnswers + 1 : prev.correctAnswers,
                     wrongAnswers: data.correct ? prev.wrongAnswers : prev.wrongAnswers + 1,
                 }));
 
-                // After brief delay, start next round
+                // Start next round when the server opens it
                 setTimeout(() => {
                     setGameState(prev => ({
                         ...prev,
                         phase: 'MEMORIZE',
                         numbers: data.nextRound.numbers,
                         displayTime: data.nextRound.displayTime,
+                        fakeCount: data.nextRound.fakeCount,
                         nonce: data.nextRound.nonce,
+                        optionsAvailableAt: data.nextRound.optionsAvailableAt,
                         timeLeft: Math.floor(data.nextRound.displayTime / 1000),
                     }));
-                }, 1500);
+                }, Math.max(0, data.nextRound.roundStartsAt - serverNow()));
             }
 
         } catch (error) {
@@ -323,8 +701,208 @@ export default function Game() {
         }
     };
 
+    // Pick an option; submits once as many options as fakes are selected
+    const selectOption = (num: number) => {
+        if (isSubmitting) return;
+
+        const selected = gameState.selectedNumbers.includes(num)
+            ? gameState.selectedNumbers.filter(n => n !== num)
+            : [...gameState.selectedNumbers, num];
+
+        if (selected.length >= gameState.fakeCount) {
+            submitAnswer(selected);
+        }
+
+        setGameState(prev => ({ ...prev, selectedNumbers: selected }));
+    };
+
+    // Answer countdown effect (server deadline for the selection phase)
+    useEffect(() => {
+        if (gameState.phase !== 'SELECT') return;
+
+        const interval = setInterval(() => {
+            const remaining = gameState.answerDeadline - (Date.now() + clockOffsetRef.current);
+            setGameState(prev => ({
+                ...prev,
+                answerTimeLeft: Math.max(0, Math.ceil(remaining / 1000)),
+            }));
+        }, 250);
+
+        return () => clearInterval(interval);
+    }, [gameState.phase, gameState.answerDeadline]);
+
+    // Out of time - submit an empty answer so the round is scored as wrong
+    useEffect(() => {
+        if (gameState.phase === 'SELECT' && gameState.answerTimeLeft === 0 && !isSubmitting) {
+            submitAnswer(null);
+        }
+    });
+
+    // Follow the duel's event stream; streams end after a while, so reconnect until the duel is over
+    const duelId = duel?.duelId;
+    useEffect(() => {
+        if (!user || !duelId) return;
+
+        const controller = new AbortController();
+        let over = false;
+
+        const follow = async () => {
+            while (!over && !controller.signal.aborted) {
+                try {
+                    const res = await authFetch(user, `/api/duel/${duelId}/events`, { signal: controller.signal });
+                    if (!res.ok) return;
+
+                    await readServerSentEvents(res, ({ data }) => {
+                        const view: DuelView = JSON.parse(data);
+                        clockOffsetRef.current = view.serverTime - Date.now();
+                        over = view.status === 'finished' || view.status === 'cancelled';
+                        setDuel(view);
+                    });
+                } catch (error) {
+                    if (controller.signal.aborted) return;
+                    console.error('Duel stream dropped:', error);
+                    await new Promise(resolve => setTimeout(resolve, 1000));
+                }
+            }
+        };
+        follow();
+
+        return () => controller.abort();
+    }, [user, duelId]);
+
+    // The server drives the duel; each pushed state decides the screen
+    useEffect(() => {
+        if (!duel) return;
+        setGameState(prev => ({ ...prev, phase: getDuelPhase(duel) }));
+    }, [duel]);
+
+    // A new round starts with nothing selected
+    useEffect(() => {
+        setDuelSelection([]);
+    }, [duel?.round]);
+
+    // Countdowns for the duel screens
+    const inDuel = gameState.phase.startsWith('DUEL_') && gameState.phase !== 'DUEL_RESULT';
+    useEffect(() => {
+        if (!inDuel) return;
+
+        const tick = () => setDuelNow(Date.now() + clockOffsetRef.current);
+        tick();
+        const interval = setInterval(tick, 250);
+
+        return () => clearInterval(interval);
+    }, [inDuel]);
+
+    // Join the oldest open lobby on this difficulty, or open one and wait
+    const startDuel = async () => {
+        if (!user) return;
+
+        try {
+            const res = await authFetch(user, '/api/duel', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    difficulty,
+                    profile: {
+                        username: user.username,
+                        displayName: user.displayName,
+                        pfpUrl: user.pfpUrl,
+                    },
+                }),
+            });
+
+            const data = await res.json();
+
+            if (data.error) {
+                if (data.code === 'SESSION_LIMIT') {
+                    setGameState(prev => ({ ...prev, phase: 'LIMIT_REACHED', message: data.error }));
+                    return;
+                }
+                if (data.code === 'BANNED') {
+                    await viewCooldownStatus();
+                    return;
+                }
+                throw new Error(data.error);
+            }
+
+            syncClock(data.serverTime);
+            setDuel(data);
+        } catch (error) {
+            console.error('Failed to start duel:', error);
+        }
+    };
+
+    // Lock in the current round's answer; the stream brings the result
+    const submitDuelAnswer = async (selectedNumbers: number[]) => {
+        if (!user || !duel || isSubmitting) return;
+
+        setIsSubmitting(true);
+
+        try {
+            const res = await authFetch(user, `/api/duel/${duel.duelId}/answer`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ round: duel.round, selectedNumbers }),
+            });
+
+            const data = await res.json();
+            if (!data.error) {
+                syncClock(data.serverTime);
+                setDuel(data);
+            }
+        } catch (error) {
+            console.error('Failed to submit duel answer:', error);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // Pick a duel option; submits once as many options as fakes are selected
+    const selectDuelOption = (num: number) => {
+        if (isSubmitting || !duel) return;
+
+        const selected = duelSelection.includes(num)
+            ? duelSelection.filter(n => n !== num)
+            : [...duelSelection, num];
+
+        if (selected.length >= duel.fakeCount) {
+            submitDuelAnswer(selected);
+        }
+
+        setDuelSelection(selected);
+    };
+
+    // Close the lobby (host only, before anyone joins) or leave the result screen
+    const leaveDuel = async () => {
+        if (!user || !duel) return;
+
+        if (duel.status === 'waiting') {
+            try {
+                await authFetch(user, `/api/duel/${duel.duelId}`, { method: 'DELETE' });
+            } catch (error) {
+                console.error('Failed to cancel duel:', error);
+            }
+        }
+
+        const finished = duel.status === 'finished';
+        setDuel(null);
+
+        // A finished duel used the cooldown attempt
+        if (finished) {
+            await viewCooldownStatus();
+        } else {
+            resetGame();
+        }
+    };
+
     const handleShare = async () => {
-        await shareResult(gameState.totalTime, true);
+        if (!user || !gameState.sessionId) return;
+        await shareResult(user, gameState.sessionId, gameState.totalTime, true);
+    };
+
+    // Opt in to the "terminal unlocked" notification
+    const handleEnableNotifications = async () => {
+        setNotificationsEnabled(await enableNotifications());
     };
 
     const resetGame = () => {
@@ -348,7 +926,7 @@ export default function Game() {
 
         try {
             // Fetch fresh stats from API (includes totalTokens from Supabase)
-            const res = await fetch(`/api/player/stats?fid=${user.fid}`);
+            const res = await authFetch(user, '/api/player/stats');
             const stats = await res.json();
 
             setGameState(prev => ({
@@ -363,20 +941,171 @@ export default function Game() {
         }
     };
 
-    const viewLeaderboard = async () => {
-        setIsLoadingLeaderboard(true);
+    // Load the caller's most recent sessions, or the next page when a cursor is given
+    const viewHistory = async (cursor: string | null = null) => {
+        if (!user) return;
+
+        setIsLoadingHistory(true);
+
+        try {
+            const params = new URLSearchParams();
+            if (cursor) params.set('cursor', cursor);
+
+            const res = await authFetch(user, `/api/player/history?${params}`);
+            const data = await res.json();
+
+            setHistory(prev => cursor ? [...prev, ...data.sessions] : data.sessions);
+            setHistoryCursor(data.nextCursor);
+            setReplay(null);
+            setGameState(prev => ({ ...prev, phase: 'HISTORY' }));
+        } catch (error) {
+            console.error('Failed to fetch history:', error);
+        } finally {
+            setIsLoadingHistory(false);
+        }
+    };
+
+    // Step through a replay: numbers -> options -> next round's numbers
+    const advanceReplay = () => {
+        setReplay(prev => {
+            if (!prev) return prev;
+            if (!prev.showOptions) return { ...prev, showOptions: true };
+            if (prev.roundIndex + 1 >= prev.session.rounds.length) return null;
+            return { ...prev, roundIndex: prev.roundIndex + 1, showOptions: false };
+        });
+    };
+
+    const viewProfile = async () => {
+        if (!user) return;
+
+        try {
+            const res = await authFetch(user, '/api/player/stats');
+            const stats = await res.json();
+
+            setGameState(prev => ({
+                ...prev,
+                phase: 'PROFILE',
+                stats,
+            }));
+        } catch (error) {
+            console.error('Failed to fetch stats:', error);
+        }
+    };
+
+    const viewClaims = async () => {
+        if (!user) return;
+
+        try {
+            const res = await authFetch(user, '/api/claims');
+            const data = await res.json();
+
+            setClaims(data.claims ?? []);
+            setClaimMinAmount(data.enabled ? data.minAmount : null);
+            setClaimMessage('');
+            setGameState(prev => ({ ...prev, phase: 'CLAIMS' }));
+        } catch (error) {
+            console.error('Failed to fetch claims:', error);
+        }
+    };
+
+    // Send a signed voucher from the player's wallet, then re-read its status from the server
+    const submitClaim = async (claim: TokenClaimView) => {
+        if (!user || !claim.calldata) return;
+
+        setIsClaiming(true);
+
+        try {
+            const txHash = await redeemClaim({ ...claim, calldata: claim.calldata });
+            setClaimMessage(txHash ? `CLAIM SENT: ${txHash.slice(0, 10)}...` : 'REDEMPTION CANCELLED - VOUCHER STILL VALID');
+
+            const res = await authFetch(user, `/api/claims/${claim.id}`);
+            const data = await res.json();
+            if (data.claim) {
+                setClaims(prev => prev.map(entry => entry.id === claim.id ? data.claim : entry));
+            }
+        } catch (error) {
+            console.error('Failed to redeem claim:', error);
+        } finally {
+            setIsClaiming(false);
+        }
+    };
+
+    // Withdraw the whole balance: debit it for a signed voucher, then redeem that from the wallet
+    const withdrawTokens = async (amount: number) => {
+        if (!user || isClaiming) return;
+
+        const wallet = await getWalletAddress();
+        if (!wallet) {
+            setClaimMessage('NO WALLET CONNECTED');
+            return;
+        }
+
+        setIsClaiming(true);
 
         try {
-            const res = await fetch('/api/leaderboard');
+            // The server only pays out to a wallet that signs for this withdrawal
+            const issuedAt = new Date().toISOString();
+            const signature = await signWalletMessage(wallet, getWalletProofMessage({ fid: user.fid, wallet, amount, issuedAt }));
+            if (!signature) {
+                setClaimMessage('WALLET SIGNATURE REJECTED');
+                return;
+            }
+
+            const res = await authFetch(user, '/api/claims', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ wallet, amount, issuedAt, signature }),
+            });
             const data = await res.json();
 
-            // Add rank to each entry
-            const rankedLeaderboard = data.leaderboard.map((entry: { fid: number; total_tokens: number }, index: number) => ({
-                ...entry,
-                rank: index + 1,
+            if (data.error) {
+                setClaimMessage(data.error.toUpperCase());
+                return;
+            }
+
+            setClaims(prev => [data.claim, ...prev]);
+            setGameState(prev => ({
+                ...prev,
+                stats: prev.stats && { ...prev.stats, totalTokens: data.totalTokens },
             }));
 
-            setLeaderboard(rankedLeaderboard);
+            await submitClaim(data.claim);
+        } catch (error) {
+            console.error('Failed to request claim:', error);
+        } finally {
+            setIsClaiming(false);
+        }
+    };
+
+    // Load the first page for a period, or the next page when a cursor is given.
+    // The tournament board shows the given tournament, else the last one picked, else the newest.
+    const viewLeaderboard = async (
+        period: LeaderboardPeriod = leaderboardPeriod,
+        cursor: number = 0,
+        tournamentId: number | null = leaderboardTournamentId ?? tournaments[0]?.id ?? null
+    ) => {
+        setIsLoadingLeaderboard(true);
+
+        try {
+            const params = new URLSearchParams({ cursor: String(cursor) });
+            if (user) params.set('fid', String(user.fid));
+
+            // The daily challenge and tournament boards have their own endpoints and return a single player entry
+            const isChallenge = period === 'challenge' || period === 'tournament';
+            if (!isChallenge) params.set('period', period);
+            if (period === 'tournament') params.set('id', String(tournamentId ?? ''));
+
+            const endpoint = period === 'challenge' ? '/daily-challenge' : period === 'tournament' ? '/tournament' : '';
+            const res = await fetch(`/api/leaderboard${endpoint}?${params}`);
+            const data = await res.json();
+
+            setLeaderboard(prev => cursor > 0 ? [...prev, ...data.leaderboard ?? []] : data.leaderboard ?? []);
+            setLeaderboardCursor(data.nextCursor ?? null);
+            setLeaderboardPeriod(period);
+            if (period === 'tournament') setLeaderboardTournamentId(tournamentId);
+            setPlayerRank(isChallenge
+                ? { entry: data.player, neighbors: data.player ? [data.player] : [] }
+                : data.player);
             setGameState(prev => ({ ...prev, phase: 'LEADERBOARD' }));
         } catch (error) {
             console.error('Failed to fetch leaderboard:', error);
@@ -404,9 +1133,15 @@ export default function Game() {
                         <div className="limit-warning">
                             <div className="limit-warning-title">⚠ ACCESS RESTRICTED ⚠</div>
                             <div className="limit-warning-text">
-                                Security system is locked.
-                                <br />
-                                Next attempt available in: {cooldownDisplay}
+                                {gameState.stats?.banned ? (
+                                    'Access revoked by the system administrator.'
+                                ) : (
+                                    <>
+                                        Security system is locked.
+                                        <br />
+                                        Next attempt available in: {cooldownDisplay}
+                                    </>
+                                )}
                             </div>
                         </div>
 
@@ -425,7 +1160,7 @@ export default function Game() {
 
                         <button
                             className={`action-btn ${gameState.stats?.canPlay ? 'primary' : ''}`}
-                            onClick={startGame}
+                            onClick={() => startGame()}
                             disabled={!gameState.stats?.canPlay}
                             style={{
                                 marginTop: 20,
@@ -436,15 +1171,56 @@ export default function Game() {
                             [ SSH ]
                         </button>
 
-                        <button
-                            className="action-btn"
-                            onClick={viewLeaderboard}
-                            disabled={isLoadingLeaderboard}
-                            style={{ marginTop: 10 }}
-                        >
-                            {isLoadingLeaderboard ? '[ LOADING... ]' : '[ LEADERBOARD ]'}
-                        </button>
-                    </div>
+                        {gameState.stats?.dailyAvailable && (
+                            <button
+                                className="action-btn"
+                                onClick={() => startGame('daily')}
+                                style={{ marginTop: 10 }}
+                            >
+                                [ DAILY CHALLENGE ]
+                            </button>
+                        )}
+
+                        {!gameState.stats?.banned && (
+                            <TournamentButtons tournaments={tournaments} onStart={id => startGame('tournament', id)} />
+                        )}
+
+                        {isFarcasterClient && !notificationsEnabled && !gameState.stats?.canPlay && (
+                            <button
+                                className="action-btn"
+                                onClick={handleEnableNotifications}
+                                style={{ marginTop: 10 }}
+                            >
+                                [ NOTIFY ME ON UNLOCK ]
+                            </button>
+                        )}
+
+                        <button
+                            className="action-btn"
+                            onClick={() => viewLeaderboard()}
+                            disabled={isLoadingLeaderboard}
+                            style={{ marginTop: 10 }}
+                        >
+                            {isLoadingLeaderboard ? '[ LOADING... ]' : '[ LEADERBOARD ]'}
+                        </button>
+
+                        <button
+                            className="action-btn"
+                            onClick={viewProfile}
+                            style={{ marginTop: 10 }}
+                        >
+                            [ PROFILE ]
+                        </button>
+
+                        <button
+                            className="action-btn"
+                            onClick={() => viewHistory()}
+                            disabled={isLoadingHistory}
+                            style={{ marginTop: 10 }}
+                        >
+                            {isLoadingHistory ? '[ LOADING... ]' : '[ HISTORY ]'}
+                        </button>
+                    </div>
                 );
 
             case 'INTRO':
@@ -481,9 +1257,49 @@ export default function Game() {
                                     </div>
                                 )}
 
-                                <button className="action-btn primary" onClick={startGame}>
+                                {challenge && !challenge.own && !challenge.attempted && (
+                                    <div style={{ marginBottom: 20 }}>
+                                        <div className="terminal-line warning">
+                                            <span className="prefix">&gt;</span>
+                                            INCOMING CHALLENGE: {challenge.opponent.playerName}
+                                        </div>
+                                        <div className="terminal-line muted">
+                                            {challenge.opponent.correctAnswers}/{challenge.opponent.totalRounds} nodes
+                                            {challenge.opponent.totalTime !== null && ` in ${challenge.opponent.totalTime}s`} - same rounds, no tokens
+                                        </div>
+                                        <button className="action-btn primary" onClick={() => startGame('friend')}>
+                                            [ ACCEPT CHALLENGE ]
+                                        </button>
+                                    </div>
+                                )}
+
+                                <div className="toggle-group">
+                                    {Object.values(DIFFICULTY_PROFILES).map(profile => (
+                                        <button
+                                            key={profile.name}
+                                            className={`action-btn ${profile.name === difficulty ? 'active' : ''}`}
+                                            onClick={() => setDifficulty(profile.name)}
+                                        >
+                                            {profile.label}
+                                        </button>
+                                    ))}
+                                </div>
+
+                                <button className="action-btn primary" onClick={() => startGame()}>
                                     [ INITIATE SCAN ]
                                 </button>
+
+                                {gameState.stats?.dailyAvailable !== false && (
+                                    <button className="action-btn" onClick={() => startGame('daily')}>
+                                        [ DAILY CHALLENGE ]
+                                    </button>
+                                )}
+
+                                <TournamentButtons tournaments={tournaments} onStart={id => startGame('tournament', id)} />
+
+                                <button className="action-btn" onClick={startDuel}>
+                                    [ DUEL ]
+                                </button>
                             </div>
                         )}
                     </div>
@@ -494,11 +1310,11 @@ export default function Game() {
                     <div className="terminal-screen">
                         <div className="terminal-line warning">
                             <span className="prefix">&gt;</span>
-                            ROUND {gameState.round}/{TOTAL_ROUNDS} - MEMORIZE NODES
+                            ROUND {gameState.round}/{gameState.totalRounds} - MEMORIZE NODES
                         </div>
 
                         <div className="round-indicator">
-                            {[1, 2, 3].map(r => (
+                            {Array.from({ length: gameState.totalRounds }, (_, i) => i + 1).map(r => (
                                 <div
                                     key={r}
                                     className={`round-dot ${r < gameState.round ? 'completed' :
@@ -540,11 +1356,11 @@ export default function Game() {
                     <div className="terminal-screen">
                         <div className="terminal-line warning">
                             <span className="prefix">&gt;</span>
-                            ROUND {gameState.round}/{TOTAL_ROUNDS} - IDENTIFY INTRUDER
+                            ROUND {gameState.round}/{gameState.totalRounds} - IDENTIFY INTRUDER
                         </div>
 
                         <div className="round-indicator">
-                            {[1, 2, 3].map(r => (
+                            {Array.from({ length: gameState.totalRounds }, (_, i) => i + 1).map(r => (
                                 <div
                                     key={r}
                                     className={`round-dot ${r < gameState.round ? 'completed' :
@@ -562,8 +1378,8 @@ export default function Game() {
                             {gameState.selectionOptions.map((num, i) => (
                                 <button
                                     key={i}
-                                    className="selection-btn"
-                                    onClick={() => submitAnswer(num)}
+                                    className={`selection-btn ${gameState.selectedNumbers.includes(num) ? 'selected' : ''}`}
+                                    onClick={() => selectOption(num)}
                                     disabled={isSubmitting}
                                 >
                                     {num}
@@ -572,13 +1388,16 @@ export default function Game() {
                         </div>
 
                         <div className="terminal-line muted" style={{ textAlign: 'center', marginTop: 20 }}>
-                            Select the unauthorized node
+                            {gameState.fakeCount > 1
+                                ? `Select ${gameState.fakeCount} unauthorized nodes`
+                                : 'Select the unauthorized node'} ({gameState.answerTimeLeft}s)
                         </div>
                     </div>
                 );
 
             case 'ROUND_RESULT':
                 const isCorrectRound = gameState.message.includes('SECURED');
+                const isTimedOutRound = gameState.message.includes('TIMED OUT');
                 return (
                     <div className="terminal-screen">
                         <div className="result-container">
@@ -587,19 +1406,26 @@ export default function Game() {
                             </div>
                             {isCorrectRound ? (
                                 <div className="terminal-line success" style={{ textAlign: 'center' }}>
-                                    +10 ASLR TOKEN EARNED
+                                    +{gameState.roundTokens} ASLR TOKEN EARNED
+                                    {gameState.roundStreakTokens > 0 && (
+                                        <> (+{gameState.roundStreakTokens} STREAK x{gameState.streakMultiplier})</>
+                                    )}
                                 </div>
                             ) : (
                                 <div className="terminal-line error" style={{ textAlign: 'center' }}>
-                                    NO TOKEN - WRONG NODE
+                                    {isTimedOutRound ? 'NO TOKEN - TOO SLOW' : 'NO TOKEN - WRONG NODE'}
                                 </div>
                             )}
+                            <div className="terminal-line muted" style={{ textAlign: 'center' }}>
+                                RESPONSE {(gameState.roundReactionMs / 1000).toFixed(2)}s
+                                {gameState.roundSpeedBonus > 0 && ` (+${gameState.roundSpeedBonus} SPEED)`}
+                            </div>
                             <div className="terminal-line muted" style={{ textAlign: 'center', marginTop: 10 }}>
                                 Proceeding to Round {gameState.round}...
                             </div>
                         </div>
 
-                        <IntegrityBar round={gameState.round - 1} />
+                        <IntegrityBar round={gameState.round - 1} totalRounds={gameState.totalRounds} />
                     </div>
                 );
 
@@ -615,13 +1441,27 @@ export default function Game() {
                                 ████████████████████
                             </div>
 
-                            <IntegrityBar round={3} />
+                            {gameState.mode === 'daily' && <DailyChallengeNotice onLeaderboard={() => viewLeaderboard('challenge')} />}
+                            {gameState.tournamentId !== null && (
+                                <TournamentNotice
+                                    rank={gameState.tournamentRank}
+                                    onLeaderboard={() => viewLeaderboard('tournament', 0, gameState.tournamentId)}
+                                />
+                            )}
+
+                            <IntegrityBar round={gameState.totalRounds} totalRounds={gameState.totalRounds} />
 
                             <div className="stats-container">
                                 <div className="stat-row">
                                     <span className="stat-label">Tokens Earned</span>
                                     <span className="stat-value">{gameState.tokensEarned}</span>
                                 </div>
+                                <TokenBreakdownRows breakdown={gameState.tokenBreakdown} multiplier={gameState.streakMultiplier} />
+                                {gameState.underReview && (
+                                    <div className="terminal-line warning" style={{ textAlign: 'center' }}>
+                                        TOKENS HELD FOR REVIEW
+                                    </div>
+                                )}
                                 <div className="stat-row">
                                     <span className="stat-label">Total Time</span>
                                     <span className="stat-value">{gameState.totalTime}s</span>
@@ -632,6 +1472,12 @@ export default function Game() {
                                 </div>
                             </div>
 
+                            <RoundBreakdown rounds={gameState.roundResults} />
+
+                            <NewBadges badges={gameState.newBadges} />
+
+                            <RoundProof sessionId={gameState.sessionId} seedCommitment={gameState.seedCommitment} revealed={gameState.seedRevealed} mode={gameState.mode} />
+
                             {isFarcasterClient && (
                                 <button className="action-btn" onClick={handleShare}>
                                     [ SHARE RESULT ]
@@ -659,24 +1505,105 @@ export default function Game() {
                                 Some nodes were incorrect
                             </div>
 
+                            {gameState.mode === 'daily' && <DailyChallengeNotice onLeaderboard={() => viewLeaderboard('challenge')} />}
+                            {gameState.tournamentId !== null && (
+                                <TournamentNotice
+                                    rank={gameState.tournamentRank}
+                                    onLeaderboard={() => viewLeaderboard('tournament', 0, gameState.tournamentId)}
+                                />
+                            )}
+
                             <div className="stats-container" style={{ marginTop: 30 }}>
                                 <div className="stat-row">
                                     <span className="stat-label">Correct Answers</span>
-                                    <span className="stat-value" style={{ color: '#00ff41' }}>{gameState.correctAnswers}/3</span>
+                                    <span className="stat-value" style={{ color: '#00ff41' }}>{gameState.correctAnswers}/{gameState.totalRounds}</span>
                                 </div>
                                 <div className="stat-row">
                                     <span className="stat-label">Wrong Answers</span>
-                                    <span className="stat-value" style={{ color: '#ff4444' }}>{gameState.wrongAnswers}/3</span>
+                                    <span className="stat-value" style={{ color: '#ff4444' }}>{gameState.wrongAnswers}/{gameState.totalRounds}</span>
                                 </div>
                                 <div className="stat-row">
                                     <span className="stat-label">ASLR Tokens Earned</span>
                                     <span className="stat-value">{gameState.tokensEarned}</span>
                                 </div>
+                                <TokenBreakdownRows breakdown={gameState.tokenBreakdown} multiplier={gameState.streakMultiplier} />
+                                {gameState.underReview && (
+                                    <div className="terminal-line warning" style={{ textAlign: 'center' }}>
+                                        TOKENS HELD FOR REVIEW
+                                    </div>
+                                )}
+                            </div>
+
+                            <NewBadges badges={gameState.newBadges} />
+
+                            <RoundProof sessionId={gameState.sessionId} seedCommitment={gameState.seedCommitment} revealed={gameState.seedRevealed} mode={gameState.mode} />
+
+                            <button
+                                className="action-btn primary"
+                                onClick={viewCooldownStatus}
+                            >
+                                [ STATUS ]
+                            </button>
+                        </div>
+                    </div>
+                );
+
+            case 'HEAD_TO_HEAD':
+                return gameState.headToHead && (
+                    <div className="terminal-screen">
+                        <div className="result-container">
+                            <div className={`result-title ${gameState.headToHead.outcome === 'loss' ? 'error glitch' : 'success'}`}>
+                                {gameState.headToHead.outcome === 'win' ? 'CHALLENGE WON' :
+                                    gameState.headToHead.outcome === 'loss' ? 'CHALLENGE LOST' : 'DRAW'}
+                            </div>
+                            <div className="terminal-line" style={{ textAlign: 'center' }}>
+                                Same rounds as {gameState.headToHead.opponent.playerName}
+                            </div>
+
+                            <div className="stats-container" style={{ marginTop: 30 }}>
+                                <div className="stat-row">
+                                    <span className="stat-label">You</span>
+                                    <span className="stat-value">
+                                        {gameState.correctAnswers}/{gameState.totalRounds} in {gameState.totalTime}s
+                                    </span>
+                                </div>
+                                <div className="stat-row">
+                                    <span className="stat-label">{gameState.headToHead.opponent.playerName}</span>
+                                    <span className="stat-value">
+                                        {gameState.headToHead.opponent.correctAnswers}/{gameState.headToHead.opponent.totalRounds} in {gameState.headToHead.opponent.totalTime ?? '--'}s
+                                    </span>
+                                </div>
+                            </div>
+
+                            <RoundBreakdown rounds={gameState.roundResults} />
+
+                            <RoundProof sessionId={gameState.sessionId} seedCommitment={gameState.seedCommitment} revealed={gameState.seedRevealed} mode={gameState.mode} />
+
+                            <button
+                                className="action-btn primary"
+                                onClick={viewCooldownStatus}
+                            >
+                                [ STATUS ]
+                            </button>
+                        </div>
+                    </div>
+                );
+
+            case 'SESSION_EXPIRED':
+                return (
+                    <div className="terminal-screen">
+                        <div className="result-container">
+                            <div className="result-title error glitch">
+                                SESSION EXPIRED
+                            </div>
+                            <div className="terminal-line" style={{ textAlign: 'center' }}>
+                                Connection dropped. Tokens from answered rounds were kept.
                             </div>
 
                             <button
                                 className="action-btn primary"
                                 onClick={viewCooldownStatus}
+                                style={{ marginTop: 30 }}
                             >
                                 [ STATUS ]
                             </button>
@@ -692,6 +1619,34 @@ export default function Game() {
                                 🏆 LEADERBOARD 🏆
                             </div>
 
+                            <div className="toggle-group" style={{ width: '100%', maxWidth: 400 }}>
+                                {LEADERBOARD_PERIODS.filter(({ period }) => period !== 'tournament' || tournaments.length > 0).map(({ period, label }) => (
+                                    <button
+                                        key={period}
+                                        className={`action-btn ${period === leaderboardPeriod ? 'active' : ''}`}
+                                        onClick={() => viewLeaderboard(period)}
+                                        disabled={isLoadingLeaderboard}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {leaderboardPeriod === 'tournament' && tournaments.length > 1 && (
+                                <div className="toggle-group" style={{ width: '100%', maxWidth: 400 }}>
+                                    {tournaments.map(tournament => (
+                                        <button
+                                            key={tournament.id}
+                                            className={`action-btn ${tournament.id === leaderboardTournamentId ? 'active' : ''}`}
+                                            onClick={() => viewLeaderboard('tournament', 0, tournament.id)}
+                                            disabled={isLoadingLeaderboard}
+                                        >
+                                            {tournament.name.toUpperCase()}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+
                             <div className="leaderboard-container" style={{ width: '100%', maxWidth: 400 }}>
                                 {leaderboard.length === 0 ? (
                                     <div className="terminal-line muted" style={{ textAlign: 'center' }}>
@@ -699,33 +1654,298 @@ export default function Game() {
                                     </div>
                                 ) : (
                                     leaderboard.map((entry) => (
+                                        <LeaderboardRow key={entry.fid} entry={entry} isYou={entry.fid === user?.fid} />
+                                    ))
+                                )}
+                            </div>
+
+                            {leaderboardCursor !== null && (
+                                <button
+                                    className="action-btn"
+                                    onClick={() => viewLeaderboard(leaderboardPeriod, leaderboardCursor)}
+                                    disabled={isLoadingLeaderboard}
+                                >
+                                    {isLoadingLeaderboard ? '[ LOADING... ]' : '[ LOAD MORE ]'}
+                                </button>
+                            )}
+
+                            {/* Caller's position when it isn't already on screen */}
+                            {playerRank?.entry && !leaderboard.some(entry => entry.fid === playerRank.entry?.fid) && (
+                                <div className="leaderboard-container" style={{ width: '100%', maxWidth: 400, marginTop: 20 }}>
+                                    <div className="terminal-line muted" style={{ textAlign: 'center' }}>
+                                        YOUR RANK
+                                    </div>
+                                    {playerRank.neighbors.map((entry) => (
+                                        <LeaderboardRow key={entry.fid} entry={entry} isYou={entry.fid === user?.fid} />
+                                    ))}
+                                </div>
+                            )}
+
+                            <button
+                                className="action-btn primary"
+                                onClick={viewCooldownStatus}
+                                style={{ marginTop: 20 }}
+                            >
+                                [ BACK ]
+                            </button>
+                        </div>
+                    </div>
+                );
+
+            case 'HISTORY': {
+                if (replay) {
+                    const replayRound = replay.session.rounds[replay.roundIndex];
+                    const isLastStep = replay.showOptions && replay.roundIndex + 1 >= replay.session.rounds.length;
+
+                    return (
+                        <div className="terminal-screen">
+                            <div className="terminal-line warning">
+                                <span className="prefix">&gt;</span>
+                                REPLAY - ROUND {replayRound.round}/{replay.session.rounds.length}
+                                {replay.showOptions ? ' - IDENTIFY INTRUDER' : ' - MEMORIZE NODES'}
+                            </div>
+
+                            {replay.showOptions ? (
+                                <>
+                                    <div className="selection-container">
+                                        {replayRound.selectionOptions.map((num) => (
+                                            <button
+                                                key={num}
+                                                className={`selection-btn ${replayRound.selectedNumbers?.includes(num) ? 'selected' : ''} ${replayRound.fakeNumbers.includes(num) ? 'fake' : ''}`}
+                                                disabled
+                                            >
+                                                {num}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div className={`terminal-line ${replayRound.correct ? 'success' : 'error'}`} style={{ textAlign: 'center' }}>
+                                        {replayRound.correct ? 'SECURED' : replayRound.timedOut ? 'TIMED OUT' : 'WRONG NODE'}
+                                        {' '}- {(replayRound.reactionMs / 1000).toFixed(2)}s - +{replayRound.tokens}
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="number-grid">
+                                    {replayRound.shownNumbers.map((num, i) => (
+                                        <div key={i} className="number-cell">
+                                            {num}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <button className="action-btn primary" onClick={advanceReplay}>
+                                {isLastStep ? '[ END REPLAY ]' : replay.showOptions ? '[ NEXT ROUND ]' : '[ SHOW OPTIONS ]'}
+                            </button>
+
+                            <button className="action-btn" onClick={() => setReplay(null)}>
+                                [ BACK ]
+                            </button>
+                        </div>
+                    );
+                }
+
+                return (
+                    <div className="terminal-screen">
+                        <div className="result-container">
+                            <div className="result-title" style={{ marginBottom: 20 }}>
+                                SESSION LOG
+                            </div>
+
+                            <div className="leaderboard-container" style={{ width: '100%', maxWidth: 400 }}>
+                                {history.length === 0 ? (
+                                    <div className="terminal-line muted" style={{ textAlign: 'center' }}>
+                                        No sessions yet
+                                    </div>
+                                ) : (
+                                    history.map((session) => (
+                                        <HistoryRow
+                                            key={session.sessionId}
+                                            session={session}
+                                            onReplay={() => setReplay({ session, roundIndex: 0, showOptions: false })}
+                                        />
+                                    ))
+                                )}
+                            </div>
+
+                            {historyCursor !== null && (
+                                <button
+                                    className="action-btn"
+                                    onClick={() => viewHistory(historyCursor)}
+                                    disabled={isLoadingHistory}
+                                >
+                                    {isLoadingHistory ? '[ LOADING... ]' : '[ LOAD MORE ]'}
+                                </button>
+                            )}
+
+                            <button
+                                className="action-btn primary"
+                                onClick={viewCooldownStatus}
+                                style={{ marginTop: 20 }}
+                            >
+                                [ BACK ]
+                            </button>
+                        </div>
+                    </div>
+                );
+            }
+
+            case 'PROFILE': {
+                const stats = gameState.stats;
+                const totalAnswers = (stats?.totalCorrect ?? 0) + (stats?.totalWrong ?? 0);
+                const accuracy = totalAnswers > 0
+                    ? Math.round(((stats?.totalCorrect ?? 0) / totalAnswers) * 100)
+                    : 0;
+
+                return (
+                    <div className="terminal-screen">
+                        <div className="result-container">
+                            <div className="result-title" style={{ marginBottom: 20 }}>
+                                OPERATOR PROFILE
+                            </div>
+
+                            {user && (
+                                <div className="terminal-line muted" style={{ textAlign: 'center' }}>
+                                    {user.username ? `@${user.username}` : `FID ${user.fid}`}
+                                </div>
+                            )}
+
+                            <div className="stats-container">
+                                <div className="stat-row">
+                                    <span className="stat-label">Total Tokens</span>
+                                    <span className="stat-value">{stats?.totalTokens ?? 0}</span>
+                                </div>
+                                <div className="stat-row">
+                                    <span className="stat-label">Current Streak</span>
+                                    <span className="stat-value">{stats?.currentStreak ?? 0} days</span>
+                                </div>
+                                <div className="stat-row">
+                                    <span className="stat-label">Longest Streak</span>
+                                    <span className="stat-value">{stats?.longestStreak ?? 0} days</span>
+                                </div>
+                                <div className="stat-row">
+                                    <span className="stat-label">Sessions</span>
+                                    <span className="stat-value">{stats?.totalSessions ?? 0}</span>
+                                </div>
+                                <div className="stat-row">
+                                    <span className="stat-label">Perfect Sessions</span>
+                                    <span className="stat-value">{stats?.perfectSessions ?? 0}</span>
+                                </div>
+                                <div className="stat-row">
+                                    <span className="stat-label">Accuracy</span>
+                                    <span className="stat-value">
+                                        {accuracy}% ({stats?.totalCorrect ?? 0}/{totalAnswers})
+                                    </span>
+                                </div>
+                                <div className="stat-row">
+                                    <span className="stat-label">Best Time</span>
+                                    <span className="stat-value">
+                                        {stats?.bestCompletionTime != null ? `${stats.bestCompletionTime}s` : '--'}
+                                    </span>
+                                </div>
+                            </div>
+
+                            {stats?.badges && (
+                                <div className="stats-container">
+                                    <div className="terminal-line muted" style={{ textAlign: 'center' }}>
+                                        BADGES {stats.badges.filter(badge => badge.unlockedAt).length}/{stats.badges.length}
+                                    </div>
+                                    {stats.badges.map((badge) => (
                                         <div
-                                            key={entry.fid}
+                                            key={badge.id}
                                             className="stat-row"
-                                            style={{
-                                                padding: '8px 12px',
-                                                marginBottom: 4,
-                                                background: entry.rank <= 3 ? 'rgba(0, 255, 65, 0.1)' : 'transparent',
-                                                borderRadius: 4,
-                                                border: entry.fid === user?.fid ? '1px solid #00ff41' : 'none'
-                                            }}
+                                            title={badge.description}
+                                            style={{ opacity: badge.unlockedAt ? 1 : 0.4 }}
                                         >
-                                            <span className="stat-label">
-                                                {entry.rank === 1 ? '🥇' : entry.rank === 2 ? '🥈' : entry.rank === 3 ? '🥉' : `#${entry.rank}`}
-                                                {' '}FID: {entry.fid}
-                                                {entry.fid === user?.fid && ' (YOU)'}
-                                            </span>
-                                            <span className="stat-value" style={{ color: entry.rank <= 3 ? '#00ff41' : '#888' }}>
-                                                {entry.total_tokens} ASLR
+                                            <span className="stat-label">{badge.unlockedAt ? '★' : '☆'} {badge.name}</span>
+                                            <span className="stat-value">
+                                                {badge.unlockedAt ? badge.unlockedAt.slice(0, 10) : badge.description}
                                             </span>
                                         </div>
-                                    ))
-                                )}
-                            </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <button className="action-btn" onClick={viewClaims} style={{ marginTop: 20 }}>
+                                [ CLAIM ON-CHAIN ]
+                            </button>
 
                             <button
                                 className="action-btn primary"
                                 onClick={viewCooldownStatus}
+                                style={{ marginTop: 10 }}
+                            >
+                                [ BACK ]
+                            </button>
+                        </div>
+                    </div>
+                );
+            }
+
+            case 'CLAIMS': {
+                const balance = gameState.stats?.totalTokens ?? 0;
+
+                return (
+                    <div className="terminal-screen">
+                        <div className="result-container">
+                            <div className="result-title" style={{ marginBottom: 20 }}>
+                                ASLR WITHDRAWAL
+                            </div>
+
+                            <div className="stats-container">
+                                <div className="stat-row">
+                                    <span className="stat-label">Balance</span>
+                                    <span className="stat-value">{balance} ASLR</span>
+                                </div>
+                            </div>
+
+                            {claimMinAmount === null ? (
+                                <div className="terminal-line muted" style={{ textAlign: 'center' }}>
+                                    On-chain claims are offline
+                                </div>
+                            ) : balance >= claimMinAmount ? (
+                                <button
+                                    className="action-btn primary"
+                                    onClick={() => withdrawTokens(balance)}
+                                    disabled={isClaiming}
+                                >
+                                    {isClaiming ? '[ SIGNING... ]' : `[ WITHDRAW ${balance} ASLR ]`}
+                                </button>
+                            ) : (
+                                <div className="terminal-line muted" style={{ textAlign: 'center' }}>
+                                    Minimum withdrawal: {claimMinAmount} ASLR
+                                </div>
+                            )}
+
+                            {claimMessage && (
+                                <div className="terminal-line warning" style={{ textAlign: 'center' }}>
+                                    {claimMessage}
+                                </div>
+                            )}
+
+                            {claims.length > 0 && (
+                                <div className="stats-container">
+                                    {claims.map(claim => (
+                                        <div key={claim.id} className="stat-row">
+                                            <span className="stat-label">
+                                                {claim.amount} ASLR → {claim.wallet.slice(0, 6)}...{claim.wallet.slice(-4)}
+                                            </span>
+                                            {claim.calldata ? (
+                                                <button className="action-btn" onClick={() => submitClaim(claim)} disabled={isClaiming}>
+                                                    [ REDEEM ]
+                                                </button>
+                                            ) : (
+                                                <span className="stat-value">
+                                                    {claim.status === 'expired' ? 'REFUNDED' : claim.status.toUpperCase()}
+                                                </span>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <button
+                                className="action-btn primary"
+                                onClick={viewProfile}
                                 style={{ marginTop: 20 }}
                             >
                                 [ BACK ]
@@ -733,6 +1953,172 @@ export default function Game() {
                         </div>
                     </div>
                 );
+            }
+
+            case 'DUEL_LOBBY':
+                return duel && (
+                    <div className="terminal-screen">
+                        <div className="terminal-line warning">
+                            <span className="prefix">&gt;</span>
+                            SEARCHING FOR OPPONENT
+                            <span className="cursor"></span>
+                        </div>
+                        <div className="terminal-line muted">
+                            {DIFFICULTY_PROFILES[duel.difficulty].label} - {duel.totalRounds} rounds - winner takes {duel.pot} ASLR tokens
+                        </div>
+                        {duel.lobbyExpiresAt && (
+                            <div className="terminal-line muted">
+                                Lobby closes in {Math.max(0, Math.ceil((duel.lobbyExpiresAt - duelNow) / 1000))}s
+                            </div>
+                        )}
+
+                        <button className="action-btn" onClick={leaveDuel} style={{ marginTop: 30 }}>
+                            [ CANCEL ]
+                        </button>
+                    </div>
+                );
+
+            case 'DUEL_MEMORIZE':
+                return duel && (
+                    <div className="terminal-screen">
+                        <div className="terminal-line warning">
+                            <span className="prefix">&gt;</span>
+                            DUEL ROUND {duel.round}/{duel.totalRounds} - MEMORIZE NODES
+                        </div>
+
+                        <DuelScoreboard players={duel.players} viewerFid={user?.fid} />
+
+                        <div className="timer-container">
+                            <div className="timer-value">
+                                {Math.max(0, Math.ceil(((duel.optionsAvailableAt ?? 0) - duelNow) / 1000))}
+                            </div>
+                            <div className="timer-label">Seconds Remaining</div>
+                        </div>
+
+                        <div className="number-grid">
+                            {duel.numbers?.map((num, i) => (
+                                <div key={i} className="number-cell" style={{ animationDelay: `${i * 100}ms` }}>
+                                    {num}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                );
+
+            case 'DUEL_SELECT':
+                return duel && (
+                    <div className="terminal-screen">
+                        <div className="terminal-line warning">
+                            <span className="prefix">&gt;</span>
+                            DUEL ROUND {duel.round}/{duel.totalRounds} - IDENTIFY INTRUDER
+                        </div>
+
+                        <DuelScoreboard players={duel.players} viewerFid={user?.fid} />
+
+                        <div className="selection-container">
+                            {duel.options?.map((num, i) => (
+                                <button
+                                    key={i}
+                                    className={`selection-btn ${duelSelection.includes(num) ? 'selected' : ''}`}
+                                    onClick={() => selectDuelOption(num)}
+                                    disabled={isSubmitting}
+                                >
+                                    {num}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="terminal-line muted" style={{ textAlign: 'center', marginTop: 20 }}>
+                            {duel.fakeCount > 1
+                                ? `Select ${duel.fakeCount} unauthorized nodes`
+                                : 'Select the unauthorized node'} - fastest correct answer wins
+                            ({Math.max(0, Math.ceil(((duel.answerDeadline ?? 0) - duelNow) / 1000))}s)
+                        </div>
+                    </div>
+                );
+
+            case 'DUEL_ROUND_RESULT': {
+                if (!duel) return null;
+                const lastResult = duel.results[duel.results.length - 1];
+                const roundWinner = duel.players.find(player => player.fid === lastResult?.winnerFid);
+
+                return (
+                    <div className="terminal-screen">
+                        <div className="result-container">
+                            {duel.answered ? (
+                                <div className="result-title">ANSWER LOCKED - WAITING FOR OPPONENT</div>
+                            ) : lastResult ? (
+                                <div className={`result-title ${lastResult.winnerFid === user?.fid ? 'success' : 'error'} glitch-text`}>
+                                    ROUND {lastResult.round}: {roundWinner ? `${roundWinner.name} TAKES IT` : 'NO WINNER'}
+                                </div>
+                            ) : (
+                                <div className="result-title success">OPPONENT FOUND</div>
+                            )}
+
+                            <DuelScoreboard players={duel.players} viewerFid={user?.fid} />
+
+                            {!duel.answered && lastResult && lastResult.answers.map(answer => (
+                                <div key={answer.fid} className="terminal-line muted" style={{ textAlign: 'center' }}>
+                                    {duel.players.find(player => player.fid === answer.fid)?.name}:{' '}
+                                    {answer.reactionMs === null ? 'NO ANSWER' : `${answer.correct ? 'CORRECT' : 'WRONG'} ${(answer.reactionMs / 1000).toFixed(2)}s`}
+                                </div>
+                            ))}
+
+                            {!duel.answered && duel.roundStartsAt && (
+                                <div className="terminal-line muted" style={{ textAlign: 'center', marginTop: 10 }}>
+                                    Round {duel.round} in {Math.max(0, Math.ceil((duel.roundStartsAt - duelNow) / 1000))}s...
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                );
+            }
+
+            case 'DUEL_RESULT': {
+                if (!duel) return null;
+                const won = duel.winnerFid === user?.fid;
+
+                return (
+                    <div className="terminal-screen">
+                        <div className="result-container">
+                            {duel.status === 'cancelled' ? (
+                                <div className="result-title error">NO OPPONENT FOUND</div>
+                            ) : (
+                                <div className={`result-title ${won ? 'success' : 'error glitch'}`}>
+                                    {duel.winnerFid === null ? 'DUEL DRAWN' : won ? 'DUEL WON' : 'DUEL LOST'}
+                                </div>
+                            )}
+
+                            {duel.status === 'finished' && (
+                                <>
+                                    <DuelScoreboard players={duel.players} viewerFid={user?.fid} />
+
+                                    <div className="stats-container" style={{ marginTop: 20 }}>
+                                        {duel.results.map(result => (
+                                            <div key={result.round} className="stat-row">
+                                                <span className="stat-label">Round {result.round}</span>
+                                                <span className="stat-value">
+                                                    {duel.players.find(player => player.fid === result.winnerFid)?.name ?? 'NO WINNER'}
+                                                </span>
+                                            </div>
+                                        ))}
+                                        {won && (
+                                            <div className="stat-row">
+                                                <span className="stat-label">Pot</span>
+                                                <span className="stat-value">+{duel.pot} ASLR</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                </>
+                            )}
+
+                            <button className="action-btn primary" onClick={leaveDuel} style={{ marginTop: 30 }}>
+                                {duel.status === 'finished' ? '[ STATUS ]' : '[ BACK ]'}
+                            </button>
+                        </div>
+                    </div>
+                );
+            }
 
             default:
                 return null;
@@ -753,11 +2139,34 @@ export default function Game() {
     );
 }
 
+// Screen for a pushed duel state
+function getDuelPhase(duel: DuelView): GamePhase {
+    if (duel.status === 'waiting') return 'DUEL_LOBBY';
+    if (duel.status !== 'active') return 'DUEL_RESULT';
+    if (duel.options && !duel.answered) return 'DUEL_SELECT';
+    if (duel.numbers && !duel.options) return 'DUEL_MEMORIZE';
+    return 'DUEL_ROUND_RESULT';
+}
+
+// Round wins of both duel players
+function DuelScoreboard({ players, viewerFid }: { players: DuelPlayer[]; viewerFid?: number }) {
+    return (
+        <div className="stats-container" style={{ marginTop: 10, marginBottom: 10 }}>
+            {players.map(player => (
+                <div key={player.fid} className="stat-row">
+                    <span className="stat-label">{player.fid === viewerFid ? 'YOU' : player.name}</span>
+                    <span className="stat-value">{player.wins}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
 // Integrity Bar Component
-function IntegrityBar({ round }: { round: number }) {
+function IntegrityBar({ round, totalRounds }: { round: number; totalRounds: number }) {
     const segments = 10;
-    const filled = Math.floor((round / TOTAL_ROUNDS) * segments);
-    const percent = Math.floor((round / TOTAL_ROUNDS) * 100);
+    const filled = Math.floor((round / totalRounds) * segments);
+    const percent = Math.floor((round / totalRounds) * 100);
 
     return (
         <div className="integrity-container">
@@ -776,3 +2185,184 @@ function IntegrityBar({ round }: { round: number }) {
         </div>
     );
 }
+
+// Round Proof Component - commitment published at start, replayable once the seed is revealed
+function RoundProof({ sessionId, seedCommitment, revealed, mode }: { sessionId: string | null; seedCommitment: string; revealed: boolean; mode: GameMode }) {
+    if (!sessionId || !seedCommitment) return null;
+
+    return (
+        <div className="terminal-line muted" style={{ textAlign: 'center', fontSize: 12, marginBottom: 10 }}>
+            SEED COMMIT {seedCommitment.slice(0, 16)}...
+            {' '}
+            {revealed ? (
+                <a href={`/api/game/verify?sessionId=${sessionId}`} target="_blank" rel="noreferrer" style={{ color: 'inherit' }}>
+                    [ VERIFY ]
+                </a>
+            ) : (
+                <span>{mode === 'friend' ? '[ SEED HIDDEN WHILE THE CHALLENGE IS OPEN ]' : '[ VERIFIABLE AFTER 00:00 UTC ]'}</span>
+            )}
+        </div>
+    );
+}
+
+// Daily Challenge Notice Component - shown on daily result screens
+function DailyChallengeNotice({ onLeaderboard }: { onLeaderboard: () => void }) {
+    return (
+        <>
+            <div className="terminal-line warning" style={{ textAlign: 'center' }}>
+                DAILY CHALLENGE
+            </div>
+            <button className="action-btn" onClick={onLeaderboard} style={{ marginBottom: 10 }}>
+                [ CHALLENGE STANDINGS ]
+            </button>
+        </>
+    );
+}
+
+// Tournament Buttons Component - one per open tournament the player still has attempts at
+function TournamentButtons({ tournaments, onStart }: { tournaments: TournamentSummary[]; onStart: (id: number) => void }) {
+    const open = tournaments.filter(tournament =>
+        tournament.status === 'open' && (tournament.attemptsUsed ?? 0) < tournament.maxAttempts
+    );
+
+    return (
+        <>
+            {open.map(tournament => (
+                <button key={tournament.id} className="action-btn" onClick={() => onStart(tournament.id)}>
+                    [ TOURNAMENT: {tournament.name.toUpperCase()} ({tournament.maxAttempts - (tournament.attemptsUsed ?? 0)} LEFT) ]
+                </button>
+            ))}
+        </>
+    );
+}
+
+// Tournament Notice Component - shown on tournament result screens
+function TournamentNotice({ rank, onLeaderboard }: { rank: TournamentRank | null; onLeaderboard: () => void }) {
+    return (
+        <>
+            <div className="terminal-line warning" style={{ textAlign: 'center' }}>
+                {rank ? `TOURNAMENT RANK #${rank.rank} - BEST RUN ${rank.correct_answers} OK / ${rank.total_time}s` : 'TOURNAMENT ATTEMPT'}
+            </div>
+            <button className="action-btn" onClick={onLeaderboard} style={{ marginBottom: 10 }}>
+                [ TOURNAMENT STANDINGS ]
+            </button>
+        </>
+    );
+}
+
+// New Badges Component - achievements unlocked by the session that just ended
+function NewBadges({ badges }: { badges: Badge[] }) {
+    if (badges.length === 0) return null;
+
+    return (
+        <div className="stats-container">
+            {badges.map((badge) => (
+                <div key={badge.id} className="terminal-line warning fade-in" style={{ textAlign: 'center' }}>
+                    ★ BADGE UNLOCKED: {badge.name} - {badge.description}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+// Round Breakdown Component - reaction time and tokens per round
+function RoundBreakdown({ rounds }: { rounds: RoundResult[] }) {
+    if (rounds.length === 0) return null;
+
+    return (
+        <div className="stats-container">
+            {rounds.map((result) => (
+                <div key={result.round} className="stat-row">
+                    <span className="stat-label">
+                        R{result.round} {result.correct ? 'OK' : result.timedOut ? 'TIMEOUT' : 'FAIL'}
+                    </span>
+                    <span className="stat-value" style={{ color: result.correct ? '#00ff41' : '#ff4444' }}>
+                        {(result.reactionMs / 1000).toFixed(2)}s +{result.tokens}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+// Token Breakdown Component - base/bonus/streak split of a finished session
+function TokenBreakdownRows({ breakdown, multiplier }: { breakdown: TokenBreakdown | null; multiplier: number }) {
+    if (!breakdown) return null;
+
+    const rows = [
+        { label: 'Base', value: breakdown.base },
+        { label: 'Perfect Bonus', value: breakdown.bonus },
+        { label: 'Speed Bonus', value: breakdown.speed ?? 0 },
+        { label: `Streak x${multiplier}`, value: breakdown.streak },
+        { label: 'Streak Milestone', value: breakdown.milestone ?? 0 },
+    ].filter((row) => row.value > 0);
+
+    return (
+        <>
+            {rows.map((row) => (
+                <div key={row.label} className="stat-row">
+                    <span className="stat-label">&nbsp;&nbsp;{row.label}</span>
+                    <span className="stat-value">+{row.value}</span>
+                </div>
+            ))}
+        </>
+    );
+}
+
+// History Row Component - one finished session, replayable when its rounds were recorded
+function HistoryRow({ session, onReplay }: { session: HistorySession; onReplay: () => void }) {
+    const totalRounds = session.correctAnswers + session.wrongAnswers;
+
+    return (
+        <div className="stat-row" style={{ padding: '8px 12px', marginBottom: 4 }}>
+            <span className="stat-label">
+                {new Date(session.finishedAt).toISOString().slice(0, 16).replace('T', ' ')}
+                {' '}{session.mode === 'daily' ? 'DAILY' : session.mode === 'friend' ? 'CHALLENGE' : session.mode === 'tournament' ? 'TOURNAMENT' : DIFFICULTY_PROFILES[session.difficulty]?.label}
+                {session.status === 'abandoned' && ' (ABANDONED)'}
+            </span>
+            <span className="stat-value" style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                {session.correctAnswers}/{totalRounds} +{session.tokensEarned}
+                {session.rounds.length > 0 && (
+                    <button className="selection-btn" onClick={onReplay} style={{ padding: '2px 8px', fontSize: 12 }}>
+                        ▶
+                    </button>
+                )}
+            </span>
+        </div>
+    );
+}
+
+// Leaderboard Row Component
+function LeaderboardRow({ entry, isYou }: { entry: LeaderboardEntry; isYou: boolean }) {
+    return (
+        <div
+            className="stat-row"
+            style={{
+                padding: '8px 12px',
+                marginBottom: 4,
+                background: entry.rank <= 3 ? 'rgba(0, 255, 65, 0.1)' : 'transparent',
+                borderRadius: 4,
+                border: isYou ? '1px solid #00ff41' : 'none'
+            }}
+        >
+            <span className="stat-label" style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                {entry.rank === 1 ? '🥇' : entry.rank === 2 ? '🥈' : entry.rank === 3 ? '🥉' : `#${entry.rank}`}
+                {entry.pfp_url && (
+                    <span
+                        className="leaderboard-avatar"
+                        style={{ backgroundImage: `url(${entry.pfp_url})` }}
+                    />
+                )}
+                <span title={`FID: ${entry.fid}`}>
+                    {entry.username ? `@${entry.username}` : entry.display_name}
+                    {isYou && ' (YOU)'}
+                </span>
+            </span>
+            <span className="stat-value" style={{ color: entry.rank <= 3 ? '#00ff41' : '#888' }}>
+                {entry.correct_answers !== undefined
+                    ? `${entry.correct_answers} OK / ${entry.total_time}s${entry.prize ? ` / +${entry.prize}` : ''}`
+                    : `${entry.total_tokens} ASLR`}
+            </span>
+        </div>
+    );
+}
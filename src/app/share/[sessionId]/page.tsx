@@ -0,0 +1,66 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { buildEmbed, getAppUrl } from '@/lib/manifest';
+import { formatShareTime, getShareableResult } from '@/lib/share';
+
+interface SharePageProps {
+    params: Promise<{ sessionId: string }>;
+}
+
+// Cast embed for a shared result: the result card, with a button that launches the game
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+    const { sessionId } = await params;
+    const imageUrl = `${getAppUrl()}/api/og/result/${encodeURIComponent(sessionId)}`;
+
+    return {
+        title: 'Terminal - Session Result',
+        openGraph: {
+            title: 'Terminal',
+            description: 'Can you beat this run? Test your memory in this hacker-themed game.',
+            images: [imageUrl],
+        },
+        other: {
+            'fc:miniapp': JSON.stringify(buildEmbed('launch_miniapp', { imageUrl })),
+            'fc:frame': JSON.stringify(buildEmbed('launch_frame', { imageUrl })),
+        },
+    };
+}
+
+// Landing page for shared result links opened outside a Farcaster client
+export default async function SharePage({ params }: SharePageProps) {
+    const { sessionId } = await params;
+    const result = await getShareableResult(sessionId);
+
+    return (
+        <main className="terminal-container">
+            <div className="terminal-screen">
+                <div className="result-container">
+                    <div className="result-title success">
+                        {result ? `${result.playerName} // ${result.accessLevel}` : 'SESSION NOT FOUND'}
+                    </div>
+
+                    {result && (
+                        <div className="stats-container">
+                            <div className="stat-row">
+                                <span className="stat-label">Nodes Verified</span>
+                                <span className="stat-value">{result.correctAnswers}/{result.totalRounds}</span>
+                            </div>
+                            <div className="stat-row">
+                                <span className="stat-label">Total Time</span>
+                                <span className="stat-value">{formatShareTime(result.totalTime)}</span>
+                            </div>
+                            <div className="stat-row">
+                                <span className="stat-label">ASLR Tokens</span>
+                                <span className="stat-value">{result.tokensEarned}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    <Link className="action-btn primary" href="/" style={{ textAlign: 'center', textDecoration: 'none' }}>
+                        [ PLAY TERMINAL ]
+                    </Link>
+                </div>
+            </div>
+        </main>
+    );
+}
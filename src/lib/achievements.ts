@@ -0,0 +1,88 @@
+import type { Difficulty, GameMode } from './gameLogic';
+import { getPlayerAchievements, unlockAchievements, PlayerLifetimeStats } from './db';
+
+// What an achievement rule can look at once a session is recorded
+export interface AchievementContext {
+    stats: PlayerLifetimeStats;  // Lifetime stats including the session just completed
+    totalTokens: number;
+    session: {
+        id: string;
+        mode: GameMode;
+        difficulty: Difficulty;
+        perfect: boolean;
+        totalTime: number;
+    };
+}
+
+export interface Achievement {
+    id: string;           // Stored in achievements.achievement_id; never rename
+    name: string;
+    description: string;
+    isUnlocked(context: AchievementContext): boolean;
+}
+
+// Badge as shown to the client
+export interface Badge {
+    id: string;
+    name: string;
+    description: string;
+    unlockedAt: string | null;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'first_perfect',
+        name: 'ROOT ACCESS',
+        description: 'Complete a perfect session',
+        isUnlocked: ({ stats }) => stats.perfectSessions >= 1,
+    },
+    {
+        id: 'streak_7',
+        name: 'PERSISTENT THREAT',
+        description: 'Play 7 days in a row',
+        isUnlocked: ({ stats }) => stats.currentStreak >= 7,
+    },
+    {
+        id: 'sessions_100',
+        name: 'SYSADMIN',
+        description: 'Finish 100 sessions',
+        isUnlocked: ({ stats }) => stats.totalSessions >= 100,
+    },
+    {
+        id: 'fast_perfect',
+        name: 'ZERO DAY',
+        description: 'Perfect session in under 20 seconds',
+        isUnlocked: ({ session }) => session.perfect && session.totalTime < 20,
+    },
+    {
+        id: 'tokens_1000',
+        name: 'KILOBYTE',
+        description: 'Earn 1000 ASLR',
+        isUnlocked: ({ totalTokens }) => totalTokens >= 1000,
+    },
+];
+
+// Check every rule after a completed session and store the new unlocks
+export async function evaluateAchievements(fid: number, context: AchievementContext): Promise<Badge[]> {
+    const earned = ACHIEVEMENTS.filter(achievement => achievement.isUnlocked(context));
+    const unlocked = await unlockAchievements(fid, context.session.id, earned.map(achievement => achievement.id));
+    const unlockedAt = new Date().toISOString();
+
+    return earned
+        .filter(achievement => unlocked.includes(achievement.id))
+        .map(({ id, name, description }) => ({ id, name, description, unlockedAt }));
+}
+
+// Full registry with the player's unlock times (locked badges have unlockedAt = null)
+export async function getPlayerBadges(fid: number): Promise<Badge[]> {
+    const unlocked = new Map(
+        (await getPlayerAchievements(fid)).map(achievement => [achievement.id, achievement.unlockedAt])
+    );
+
+    return ACHIEVEMENTS.map(({ id, name, description }) => ({
+        id,
+        name,
+        description,
+        unlockedAt: unlocked.get(id) ?? null,
+    }));
+}
@@ -0,0 +1,336 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { NextRequest } from 'next/server';
+import { getAuthenticatedFid } from './auth';
+import { getSupabaseClient, type CreditResult, type TokenReason } from './db';
+
+// Moderation actions recorded in the audit log
+export type AdminAction =
+    | 'ban'
+    | 'unban'
+    | 'clear_cooldown'
+    | 'adjust_tokens'
+    | 'release_hold'
+    | 'reject_hold'
+    | 'create_tournament'
+    | 'update_tournament'
+    | 'delete_tournament';
+
+export interface AdminAuditEntry {
+    id: number;
+    actor: string;            // 'secret' or 'fid:<fid>'
+    action: AdminAction;
+    targetFid: number | null;
+    details: Record<string, unknown>;
+    createdAt: string;
+}
+
+export type TokenHoldStatus = 'pending' | 'released' | 'rejected';
+
+// Credit withheld from a suspicious session (token_holds in db.ts)
+export interface TokenHold {
+    id: number;
+    fid: number;
+    sessionId: string;
+    round: number | null;
+    reason: TokenReason;
+    amount: number;
+    suspicionScore: number;
+    status: TokenHoldStatus;
+    createdAt: string;
+    reviewedAt: string | null;
+}
+
+// Audit log schema (admin_adjust_tokens calls credit_tokens from db.ts):
+/*
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    actor TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('ban', 'unban', 'clear_cooldown', 'adjust_tokens', 'release_hold', 'reject_hold', 'create_tournament', 'update_tournament', 'delete_tournament')),
+    target_fid BIGINT,
+    details JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS admin_audit_log_target_idx ON admin_audit_log (target_fid, id DESC);
+
+-- Token adjustment and its audit entry in one transaction. A repeated adjustment
+-- (same p_session_id) is neither credited nor logged again.
+CREATE OR REPLACE FUNCTION admin_adjust_tokens(
+    p_actor TEXT,
+    p_fid BIGINT,
+    p_session_id TEXT,
+    p_amount INTEGER,
+    p_details JSONB
+)
+RETURNS TABLE (inserted BOOLEAN, total_tokens INTEGER) AS $$
+DECLARE
+    credit RECORD;
+BEGIN
+    SELECT * INTO credit FROM credit_tokens(p_fid, p_session_id, 0, 'admin_adjustment', p_amount);
+
+    IF credit.inserted THEN
+        INSERT INTO admin_audit_log (actor, action, target_fid, details)
+        VALUES (p_actor, 'adjust_tokens', p_fid, p_details);
+    END IF;
+
+    RETURN QUERY SELECT credit.inserted, credit.total_tokens;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION admin_adjust_tokens(TEXT, BIGINT, TEXT, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_adjust_tokens(TEXT, BIGINT, TEXT, INTEGER, JSONB) TO service_role;
+
+-- Settle a pending token hold: release pays it through the ledger under its original
+-- (session_id, round, reason) key, reject forfeits it. The status change, audit entry and
+-- credit share a transaction; a hold that is no longer pending returns no row.
+CREATE OR REPLACE FUNCTION admin_review_token_hold(p_actor TEXT, p_hold_id BIGINT, p_release BOOLEAN)
+RETURNS TABLE (hold_fid BIGINT, hold_status TEXT, total_tokens INTEGER) AS $$
+DECLARE
+    hold RECORD;
+    new_total INTEGER;
+BEGIN
+    UPDATE token_holds h
+    SET status = CASE WHEN p_release THEN 'released' ELSE 'rejected' END,
+        reviewed_at = NOW()
+    WHERE h.id = p_hold_id AND h.status = 'pending'
+    RETURNING h.* INTO hold;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO admin_audit_log (actor, action, target_fid, details)
+    VALUES (
+        p_actor,
+        CASE WHEN p_release THEN 'release_hold' ELSE 'reject_hold' END,
+        hold.fid,
+        jsonb_build_object('holdId', hold.id, 'sessionId', hold.session_id, 'round', hold.round,
+            'reason', hold.reason, 'amount', hold.amount)
+    );
+
+    IF p_release THEN
+        SELECT c.total_tokens INTO new_total
+        FROM credit_tokens(hold.fid, hold.session_id, hold.round, hold.reason, hold.amount) c;
+    ELSE
+        SELECT pt.total_tokens INTO new_total FROM player_tokens pt WHERE pt.fid = hold.fid;
+    END IF;
+
+    RETURN QUERY SELECT hold.fid, hold.status, COALESCE(new_total, 0);
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION admin_review_token_hold(TEXT, BIGINT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_review_token_hold(TEXT, BIGINT, BOOLEAN) TO service_role;
+
+-- Existing databases: widen the action check for tournament management and hold reviews
+ALTER TABLE admin_audit_log DROP CONSTRAINT IF EXISTS admin_audit_log_action_check;
+ALTER TABLE admin_audit_log ADD CONSTRAINT admin_audit_log_action_check
+    CHECK (action IN ('ban', 'unban', 'clear_cooldown', 'adjust_tokens', 'release_hold', 'reject_hold', 'create_tournament', 'update_tournament', 'delete_tournament'));
+*/
+
+interface TokenHoldRow {
+    id: number;
+    fid: number;
+    session_id: string;
+    round: number | null;
+    reason: TokenReason;
+    amount: number;
+    suspicion_score: number;
+    status: TokenHoldStatus;
+    created_at: string;
+    reviewed_at: string | null;
+}
+
+interface AdminAuditRow {
+    id: number;
+    actor: string;
+    action: AdminAction;
+    target_fid: number | null;
+    details: Record<string, unknown> | null;
+    created_at: string;
+}
+
+// Fids allowed to use the admin API with their Quick Auth token (ADMIN_FIDS=1,2,3)
+export function getAdminFids(): number[] {
+    return (process.env.ADMIN_FIDS || '')
+        .split(',')
+        .map(value => parseInt(value.trim(), 10))
+        .filter(fid => Number.isInteger(fid) && fid > 0);
+}
+
+// Constant-time comparison of two secrets of any length
+function secretsMatch(a: string, b: string): boolean {
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(a), digest(b));
+}
+
+// Who is calling the admin API: 'secret' for `Bearer <ADMIN_SECRET>`,
+// 'fid:<fid>' for a Quick Auth token of an allowlisted fid, null otherwise
+export async function getAdminActor(request: NextRequest): Promise<string | null> {
+    const header = request.headers.get('authorization');
+    const adminSecret = process.env.ADMIN_SECRET;
+
+    if (adminSecret && header && secretsMatch(header, `Bearer ${adminSecret}`)) {
+        return 'secret';
+    }
+
+    const fid = await getAuthenticatedFid(request);
+    if (fid && getAdminFids().includes(fid)) {
+        return `fid:${fid}`;
+    }
+
+    return null;
+}
+
+// Append an action to the audit log. Routes call it before applying the action, so a failed
+// write stops the change instead of leaving it unrecorded.
+export async function recordAdminAction(entry: {
+    actor: string;
+    action: AdminAction;
+    targetFid: number | null;
+    details?: Record<string, unknown>;
+}): Promise<void> {
+    const { error } = await getSupabaseClient()
+        .from('admin_audit_log')
+        .insert({
+            actor: entry.actor,
+            action: entry.action,
+            target_fid: entry.targetFid,
+            details: entry.details ?? {},
+        });
+
+    if (error) throw error;
+}
+
+// Signed token adjustment through the ledger, audited in the same transaction.
+// Round 0 keeps the (session_id, round, reason) key non-null, so a repeated adjustmentId
+// comes back with inserted = false and leaves no second audit entry.
+export async function adjustPlayerTokens(adjustment: {
+    actor: string;
+    fid: number;
+    adjustmentId: string;
+    amount: number;
+    note: string;
+}): Promise<CreditResult> {
+    const { data, error } = await getSupabaseClient()
+        .rpc('admin_adjust_tokens', {
+            p_actor: adjustment.actor,
+            p_fid: adjustment.fid,
+            p_session_id: `admin:${adjustment.adjustmentId}`,
+            p_amount: adjustment.amount,
+            p_details: { amount: adjustment.amount, note: adjustment.note, adjustmentId: adjustment.adjustmentId },
+        })
+        .single();
+
+    if (error) throw error;
+
+    const row = data as { inserted: boolean; total_tokens: number };
+    return { inserted: row.inserted, total: row.total_tokens };
+}
+
+// Token holds with a given status, oldest first; cursor is the last id already shown
+export async function listTokenHolds(options: {
+    status?: TokenHoldStatus;
+    cursor?: number | null;
+    limit?: number;
+} = {}): Promise<{ holds: TokenHold[]; nextCursor: number | null }> {
+    const { status = 'pending', cursor = null, limit = 50 } = options;
+
+    let query = getSupabaseClient()
+        .from('token_holds')
+        .select('*')
+        .eq('status', status)
+        .order('id', { ascending: true })
+        .limit(limit + 1);
+
+    if (cursor !== null) {
+        query = query.gt('id', cursor);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const holds = (data as TokenHoldRow[]).slice(0, limit).map(row => ({
+        id: Number(row.id),
+        fid: Number(row.fid),
+        sessionId: row.session_id,
+        round: row.round,
+        reason: row.reason,
+        amount: row.amount,
+        suspicionScore: row.suspicion_score,
+        status: row.status,
+        createdAt: row.created_at,
+        reviewedAt: row.reviewed_at,
+    }));
+
+    return {
+        holds,
+        nextCursor: data.length > limit ? holds[holds.length - 1].id : null,
+    };
+}
+
+// Release (pay) or reject (forfeit) a pending hold, audited in the same transaction.
+// Returns null when the hold doesn't exist or was already reviewed.
+export async function reviewTokenHold(review: {
+    actor: string;
+    holdId: number;
+    release: boolean;
+}): Promise<{ fid: number; status: TokenHoldStatus; totalTokens: number } | null> {
+    const { data, error } = await getSupabaseClient()
+        .rpc('admin_review_token_hold', {
+            p_actor: review.actor,
+            p_hold_id: review.holdId,
+            p_release: review.release,
+        })
+        .maybeSingle<{ hold_fid: number; hold_status: TokenHoldStatus; total_tokens: number }>();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return { fid: Number(data.hold_fid), status: data.hold_status, totalTokens: data.total_tokens };
+}
+
+// Audit log, newest first; cursor is the last id already shown
+export async function getAdminAuditLog(options: {
+    targetFid?: number | null;
+    cursor?: number | null;
+    limit?: number;
+} = {}): Promise<{ entries: AdminAuditEntry[]; nextCursor: number | null }> {
+    const { targetFid = null, cursor = null, limit = 50 } = options;
+
+    let query = getSupabaseClient()
+        .from('admin_audit_log')
+        .select('*')
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+    if (targetFid !== null) {
+        query = query.eq('target_fid', targetFid);
+    }
+    if (cursor !== null) {
+        query = query.lt('id', cursor);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const entries = (data as AdminAuditRow[]).slice(0, limit).map(row => ({
+        id: Number(row.id),
+        actor: row.actor,
+        action: row.action,
+        targetFid: row.target_fid === null ? null : Number(row.target_fid),
+        details: row.details ?? {},
+        createdAt: row.created_at,
+    }));
+
+    return {
+        entries,
+        nextCursor: data.length > limit ? entries[entries.length - 1].id : null,
+    };
+}
+
+// Parse the [fid] route segment
+export function parseFidParam(value: string): number | null {
+    const fid = Number(value);
+    return Number.isInteger(fid) && fid > 0 ? fid : null;
+}
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createLocalKeyProvider, getAuthDomain, LocalAuthKeyProvider, setAuthKeyProvider, verifyAuthToken } from './auth';
+
+describe('verifyAuthToken', () => {
+    let provider: LocalAuthKeyProvider;
+
+    beforeEach(async () => {
+        provider = await createLocalKeyProvider();
+        setAuthKeyProvider(provider);
+    });
+
+    afterEach(() => {
+        setAuthKeyProvider(null);
+    });
+
+    it('returns the fid of a valid token', async () => {
+        expect(await verifyAuthToken(await provider.signToken(1234))).toBe(1234);
+    });
+
+    it('rejects a token issued to another domain', async () => {
+        const token = await provider.signToken(1234, { audience: `not-${getAuthDomain()}` });
+        expect(await verifyAuthToken(token)).toBeNull();
+    });
+
+    it('rejects an expired token', async () => {
+        const token = await provider.signToken(1234, { expiresIn: Math.floor(Date.now() / 1000) - 60 });
+        expect(await verifyAuthToken(token)).toBeNull();
+    });
+
+    it('rejects a token signed by another key', async () => {
+        const other = await createLocalKeyProvider();
+        expect(await verifyAuthToken(await other.signToken(1234))).toBeNull();
+    });
+
+    it('rejects a token without a valid fid', async () => {
+        expect(await verifyAuthToken(await provider.signToken(0))).toBeNull();
+        expect(await verifyAuthToken('not-a-jwt')).toBeNull();
+    });
+});
@@ -0,0 +1,135 @@
+import {
+    createRemoteJWKSet,
+    errors,
+    exportJWK,
+    generateKeyPair,
+    jwtVerify,
+    SignJWT,
+    type JWTVerifyGetKey,
+} from 'jose';
+import type { NextRequest } from 'next/server';
+
+// Public Farcaster Quick Auth server (issues the JWTs returned by sdk.quickAuth.getToken)
+export const QUICK_AUTH_ORIGIN = 'https://auth.farcaster.xyz';
+
+// Issuer used by the local test key provider
+export const LOCAL_AUTH_ISSUER = 'http://localhost/local-auth';
+
+// Where the verifying key comes from
+export interface AuthKeyProvider {
+    issuer: string;
+    getKey: JWTVerifyGetKey;
+}
+
+// Local provider can also mint tokens (offline development and tests)
+export interface LocalAuthKeyProvider extends AuthKeyProvider {
+    signToken(fid: number, options?: { audience?: string; expiresIn?: string | number }): Promise<string>;
+}
+
+let keyProvider: AuthKeyProvider | null = null;
+let localKeyProvider: Promise<LocalAuthKeyProvider> | null = null;
+
+// Domain the tokens must be issued to (JWT `aud`)
+export function getAuthDomain(): string {
+    if (process.env.QUICK_AUTH_DOMAIN) {
+        return process.env.QUICK_AUTH_DOMAIN;
+    }
+
+    if (process.env.NEXT_PUBLIC_APP_URL) {
+        return new URL(process.env.NEXT_PUBLIC_APP_URL).host;
+    }
+
+    return 'terminalv3.vercel.app';
+}
+
+// Whether the offline key provider is enabled (QUICK_AUTH_PROVIDER=local)
+export function isLocalAuthEnabled(): boolean {
+    return process.env.QUICK_AUTH_PROVIDER === 'local';
+}
+
+// Remote JWKS published by the Quick Auth server
+export function createQuickAuthKeyProvider(origin: string = QUICK_AUTH_ORIGIN): AuthKeyProvider {
+    return {
+        issuer: origin,
+        getKey: createRemoteJWKSet(new URL(`${origin}/.well-known/jwks.json`)),
+    };
+}
+
+// In-process Ed25519 key pair, same algorithm as the Quick Auth server
+export async function createLocalKeyProvider(): Promise<LocalAuthKeyProvider> {
+    const { publicKey, privateKey } = await generateKeyPair('EdDSA', { crv: 'Ed25519' });
+    const jwk = await exportJWK(publicKey);
+
+    return {
+        issuer: LOCAL_AUTH_ISSUER,
+        getKey: () => publicKey,
+        async signToken(fid, options = {}) {
+            return new SignJWT({})
+                .setProtectedHeader({ alg: 'EdDSA', kid: jwk.x })
+                .setSubject(String(fid))
+                .setIssuer(LOCAL_AUTH_ISSUER)
+                .setAudience(options.audience ?? getAuthDomain())
+                .setIssuedAt()
+                .setExpirationTime(options.expiresIn ?? '1h')
+                .sign(privateKey);
+        },
+    };
+}
+
+// Shared local provider (lazy, one key pair per server instance)
+export function getLocalKeyProvider(): Promise<LocalAuthKeyProvider> {
+    if (!localKeyProvider) {
+        localKeyProvider = createLocalKeyProvider();
+    }
+    return localKeyProvider;
+}
+
+// Override the key provider (tests)
+export function setAuthKeyProvider(provider: AuthKeyProvider | null): void {
+    keyProvider = provider;
+}
+
+async function getAuthKeyProvider(): Promise<AuthKeyProvider> {
+    if (keyProvider) return keyProvider;
+
+    keyProvider = isLocalAuthEnabled()
+        ? await getLocalKeyProvider()
+        : createQuickAuthKeyProvider(process.env.QUICK_AUTH_ORIGIN || QUICK_AUTH_ORIGIN);
+
+    return keyProvider;
+}
+
+// Verify a Quick Auth JWT (signature, issuer, audience, expiry) and return the fid
+export async function verifyAuthToken(token: string): Promise<number | null> {
+    try {
+        const provider = await getAuthKeyProvider();
+        const { payload } = await jwtVerify(token, provider.getKey, {
+            issuer: provider.issuer,
+            audience: getAuthDomain(),
+            requiredClaims: ['sub', 'exp'],
+        });
+
+        const fid = Number(payload.sub);
+        if (!Number.isInteger(fid) || fid <= 0) {
+            return null;
+        }
+
+        return fid;
+    } catch (error) {
+        // Bad, expired or foreign tokens are expected; only log failures on our side
+        if (!(error instanceof errors.JOSEError)) {
+            console.error('Error verifying auth token:', error);
+        }
+        return null;
+    }
+}
+
+// Read the bearer token from the request and return the verified fid
+export async function getAuthenticatedFid(request: NextRequest): Promise<number | null> {
+    const header = request.headers.get('authorization');
+    if (!header || !header.startsWith('Bearer ')) {
+        return null;
+    }
+
+    return verifyAuthToken(header.slice('Bearer '.length).trim());
+}
@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AbiFunction, Address, Hex, PersonalMessage, Secp256k1, Signature, TypedData } from 'ox';
+import {
+    ClaimConfig,
+    ClaimStore,
+    LocalClaimContract,
+    TokenClaim,
+    createKeyClaimSigner,
+    createLocalClaimContract,
+    createMemoryClaimStore,
+    createRpcClaimChain,
+    getClaimCalldata,
+    getClaimConfig,
+    getClaimSigner,
+    getClaimVoucher,
+    getVoucherTypedData,
+    requestClaim,
+    setClaimChain,
+    setClaimSigner,
+    setClaimStore,
+    sweepExpiredClaims,
+    syncClaim,
+    toClaimView,
+} from './claims';
+import { WalletProof, getWalletProofMessage, verifyWalletProof } from './walletProof';
+
+// Anvil's first dev account
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const WALLET = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const ISSUED_AT = new Date('2026-03-01T12:00:00Z');
+
+// Anvil: first contract deployed by the first dev account
+const LOCAL_CONFIG: ClaimConfig = {
+    chainId: 31337,
+    contract: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    rpcUrl: 'http://127.0.0.1:8545',
+};
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+// Sign a proof the way the wallet's personal_sign does
+function signProof(proof: WalletProof, privateKey: Hex.Hex = PRIVATE_KEY): string {
+    const payload = PersonalMessage.getSignPayload(Hex.fromString(getWalletProofMessage(proof)));
+    return Signature.toHex(Secp256k1.sign({ payload, privateKey }));
+}
+
+describe('verifyWalletProof', () => {
+    const proof: WalletProof = { fid: 1234, wallet: WALLET, amount: 500, issuedAt: ISSUED_AT.toISOString() };
+
+    it('accepts a fresh signature from the wallet, in any address casing', () => {
+        const lowercase = { ...proof, wallet: WALLET.toLowerCase() };
+
+        expect(verifyWalletProof({ ...proof, signature: signProof(proof) }, ISSUED_AT)).toBe(true);
+        expect(verifyWalletProof({ ...lowercase, signature: signProof(lowercase) }, ISSUED_AT)).toBe(true);
+    });
+
+    it('rejects a signature from another key', () => {
+        const signature = signProof(proof, Secp256k1.randomPrivateKey());
+        expect(verifyWalletProof({ ...proof, signature }, ISSUED_AT)).toBe(false);
+    });
+
+    it('rejects a signature reused for another fid or amount', () => {
+        const signature = signProof(proof);
+
+        expect(verifyWalletProof({ ...proof, fid: 99, signature }, ISSUED_AT)).toBe(false);
+        expect(verifyWalletProof({ ...proof, amount: 5000, signature }, ISSUED_AT)).toBe(false);
+    });
+
+    it('rejects stale or malformed proofs', () => {
+        const signature = signProof(proof);
+
+        expect(verifyWalletProof({ ...proof, signature }, new Date(ISSUED_AT.getTime() + 6 * 60 * 1000))).toBe(false);
+        expect(verifyWalletProof({ ...proof, issuedAt: 'yesterday', signature }, ISSUED_AT)).toBe(false);
+        expect(verifyWalletProof({ ...proof, signature: '0x1234' }, ISSUED_AT)).toBe(false);
+    });
+});
+
+describe('getClaimSigner', () => {
+    const original = process.env.CLAIM_SIGNER_KEY;
+
+    afterEach(() => {
+        setClaimSigner(null);
+        if (original === undefined) delete process.env.CLAIM_SIGNER_KEY;
+        else process.env.CLAIM_SIGNER_KEY = original;
+    });
+
+    it('refuses to sign without CLAIM_SIGNER_KEY', () => {
+        delete process.env.CLAIM_SIGNER_KEY;
+        expect(() => getClaimSigner()).toThrow('CLAIM_SIGNER_KEY');
+
+        process.env.CLAIM_SIGNER_KEY = 'not-a-key';
+        expect(() => getClaimSigner()).toThrow('CLAIM_SIGNER_KEY');
+    });
+
+    it('signs with the configured key', () => {
+        process.env.CLAIM_SIGNER_KEY = PRIVATE_KEY;
+        expect(getClaimSigner().address).toBe(WALLET);
+    });
+});
+
+describe('getClaimConfig', () => {
+    const contract = LOCAL_CONFIG.contract.toLowerCase();
+
+    it('targets Base unless told otherwise', () => {
+        expect(getClaimConfig({ NODE_ENV: 'test', CLAIM_CONTRACT_ADDRESS: contract } as NodeJS.ProcessEnv)).toEqual({
+            chainId: 8453,
+            contract: LOCAL_CONFIG.contract,
+            rpcUrl: null,
+        });
+        expect(getClaimConfig({ NODE_ENV: 'test' } as NodeJS.ProcessEnv)).toBeNull();
+    });
+
+    it('defaults to a local devnet with CLAIM_NETWORK=local', () => {
+        expect(getClaimConfig({ NODE_ENV: 'test', CLAIM_CONTRACT_ADDRESS: contract, CLAIM_NETWORK: 'local' } as NodeJS.ProcessEnv)).toEqual(LOCAL_CONFIG);
+        expect(getClaimConfig({
+            NODE_ENV: 'test',
+            CLAIM_CONTRACT_ADDRESS: contract,
+            CLAIM_NETWORK: 'local',
+            CLAIM_RPC_URL: 'http://devnet:8545',
+        } as NodeJS.ProcessEnv)?.rpcUrl).toBe('http://devnet:8545');
+    });
+});
+
+describe('claim vouchers', () => {
+    const claim: TokenClaim = {
+        id: 1,
+        fid: 1234,
+        wallet: WALLET,
+        amount: 500,
+        nonce: `0x${'ab'.repeat(32)}`,
+        expiresAt: new Date(NOW.getTime() + HOUR),
+        status: 'signed',
+        signature: null,
+        createdAt: NOW,
+        updatedAt: NOW,
+    };
+
+    it('signs the EIP-712 voucher with the local key', async () => {
+        const signer = createKeyClaimSigner(PRIVATE_KEY);
+        const typedData = getVoucherTypedData(getClaimVoucher(claim), LOCAL_CONFIG);
+        const signature = await signer.sign(TypedData.getSignPayload(typedData));
+
+        expect(signer.address).toBe(WALLET);
+        expect(Address.isEqual(Secp256k1.recoverAddress({
+            payload: TypedData.getSignPayload(typedData),
+            signature: Signature.fromHex(signature),
+        }), WALLET)).toBe(true);
+        expect(getClaimVoucher(claim)).toEqual({
+            fid: BigInt(1234),
+            wallet: WALLET,
+            amount: BigInt(500),
+            nonce: claim.nonce,
+            expiry: BigInt(Math.floor(claim.expiresAt.getTime() / 1000)),
+        });
+    });
+
+    it('encodes a claim() call carrying the voucher and its signature', () => {
+        const signature: Hex.Hex = `0x${'11'.repeat(65)}`;
+        const calldata = getClaimCalldata({ ...claim, signature })!;
+        const claimFunction = AbiFunction.from(
+            'function claim((uint256 fid, address wallet, uint256 amount, bytes32 nonce, uint256 expiry) voucher, bytes signature)'
+        );
+
+        expect(Hex.slice(calldata, 0, 4)).toBe(AbiFunction.getSelector(claimFunction));
+        // Decoded addresses come back lowercase
+        expect(AbiFunction.decodeData(claimFunction, calldata)).toEqual([
+            { ...getClaimVoucher(claim), wallet: WALLET.toLowerCase() },
+            signature,
+        ]);
+        expect(getClaimCalldata(claim)).toBeNull();
+    });
+});
+
+describe('requestClaim', () => {
+    const FID = 1234;
+    let balances: Map<number, number>;
+    let store: ClaimStore;
+    let contract: LocalClaimContract;
+
+    beforeEach(() => {
+        balances = new Map([[FID, 1000]]);
+        store = createMemoryClaimStore(balances);
+        contract = createLocalClaimContract(LOCAL_CONFIG, WALLET);
+        setClaimStore(store);
+        setClaimChain(contract);
+        setClaimSigner(createKeyClaimSigner(PRIVATE_KEY));
+    });
+
+    afterEach(() => {
+        setClaimStore(null);
+        setClaimChain(null);
+        setClaimSigner(null);
+    });
+
+    it('debits the balance and returns a voucher the contract accepts once', async () => {
+        const claim = (await requestClaim({ fid: FID, wallet: WALLET, amount: 300 }, LOCAL_CONFIG, NOW))!;
+        const view = toClaimView(claim, LOCAL_CONFIG, NOW);
+
+        expect(claim.status).toBe('signed');
+        expect(balances.get(FID)).toBe(700);
+
+        contract.redeem(view.calldata!, NOW);
+        expect(() => contract.redeem(view.calldata!, NOW)).toThrow('already redeemed');
+
+        expect((await syncClaim(claim, LOCAL_CONFIG, NOW)).status).toBe('redeemed');
+        expect((await store.getClaim(claim.id))?.status).toBe('redeemed');
+        expect(balances.get(FID)).toBe(700);
+    });
+
+    it('refuses an amount the balance does not cover', async () => {
+        expect(await requestClaim({ fid: FID, wallet: WALLET, amount: 1001 }, LOCAL_CONFIG, NOW)).toBeNull();
+        expect(balances.get(FID)).toBe(1000);
+    });
+
+    it('rejects vouchers from another signer or past their expiry', async () => {
+        const claim = (await requestClaim({ fid: FID, wallet: WALLET, amount: 300 }, LOCAL_CONFIG, NOW))!;
+        const calldata = getClaimCalldata(claim)!;
+
+        const otherContract = createLocalClaimContract(LOCAL_CONFIG, Address.fromPublicKey(Secp256k1.getPublicKey({
+            privateKey: Secp256k1.randomPrivateKey(),
+        })));
+        expect(() => otherContract.redeem(calldata, NOW)).toThrow('invalid signature');
+        expect(() => contract.redeem(calldata, new Date(NOW.getTime() + 2 * HOUR))).toThrow('voucher expired');
+    });
+
+    it('refunds the tokens when signing fails', async () => {
+        setClaimSigner({ address: WALLET, sign: async () => { throw new Error('signer unavailable'); } });
+
+        await expect(requestClaim({ fid: FID, wallet: WALLET, amount: 300 }, LOCAL_CONFIG, NOW)).rejects.toThrow('signer unavailable');
+        expect(balances.get(FID)).toBe(1000);
+        expect((await store.listClaims(FID, null, 10))[0].status).toBe('expired');
+    });
+
+    it('refunds instead of returning a voucher that could not be stored', async () => {
+        setClaimStore({ ...store, updateStatus: async () => false });
+
+        await expect(requestClaim({ fid: FID, wallet: WALLET, amount: 300 }, LOCAL_CONFIG, NOW)).rejects.toThrow("left 'pending'");
+        expect(balances.get(FID)).toBe(1000);
+    });
+
+    it('refunds unredeemed vouchers once they are safely past expiry', async () => {
+        const claim = (await requestClaim({ fid: FID, wallet: WALLET, amount: 300 }, LOCAL_CONFIG, NOW))!;
+        const justExpired = new Date(claim.expiresAt.getTime() + 1000);
+
+        expect(await sweepExpiredClaims(LOCAL_CONFIG, 100, justExpired)).toBe(0);
+        expect((await syncClaim(claim, LOCAL_CONFIG, justExpired)).status).toBe('signed');
+
+        expect(await sweepExpiredClaims(LOCAL_CONFIG, 100, new Date(claim.expiresAt.getTime() + HOUR))).toBe(1);
+        expect((await store.getClaim(claim.id))?.status).toBe('expired');
+        expect(balances.get(FID)).toBe(1000);
+    });
+});
+
+describe('createRpcClaimChain', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('reads redeemed(nonce) from the contract over JSON-RPC', async () => {
+        const nonce: Hex.Hex = `0x${'ab'.repeat(32)}`;
+        const redeemedFunction = AbiFunction.from('function redeemed(bytes32 nonce) view returns (bool)');
+        const requests: { method: string; params: [{ to: string; data: string }, string] }[] = [];
+
+        // Stands in for the devnet node at CLAIM_RPC_URL
+        vi.stubGlobal('fetch', vi.fn(async (request: Request) => {
+            const body = await request.json();
+            requests.push(body);
+            return Response.json({ jsonrpc: '2.0', id: body.id, result: `0x${'0'.repeat(63)}1` });
+        }));
+
+        expect(await createRpcClaimChain(LOCAL_CONFIG.rpcUrl!, LOCAL_CONFIG.contract).isRedeemed(nonce)).toBe(true);
+        expect(requests[0].method).toBe('eth_call');
+        expect(requests[0].params[0]).toEqual({
+            to: LOCAL_CONFIG.contract,
+            data: AbiFunction.encodeData(redeemedFunction, [nonce]),
+        });
+    });
+});
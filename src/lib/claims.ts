@@ -0,0 +1,650 @@
+import { AbiFunction, Address, Hex, RpcTransport, Secp256k1, Signature, TypedData } from 'ox';
+import { getSupabaseClient, isSupabaseConfigured } from './db';
+import { CLAIM_VOUCHER_MINUTES, generateNonce } from './gameLogic';
+
+// Lifecycle of a withdrawal: tokens are debited at 'pending', the voucher exists from 'signed'.
+// 'redeemed' once the claim contract paid it out; 'expired' vouchers were refunded to the balance.
+export type ClaimStatus = 'pending' | 'signed' | 'redeemed' | 'expired';
+
+export interface TokenClaim {
+    id: number;
+    fid: number;
+    wallet: Address.Address;
+    amount: number;
+    nonce: Hex.Hex;            // bytes32, redeemable once on-chain
+    expiresAt: Date;
+    status: ClaimStatus;
+    signature: Hex.Hex | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// EIP-712 message the claim contract verifies
+export interface ClaimVoucher {
+    fid: bigint;
+    wallet: Address.Address;
+    amount: bigint;
+    nonce: Hex.Hex;
+    expiry: bigint;            // Unix seconds
+}
+
+// Claim contract and chain the vouchers are signed for
+export interface ClaimConfig {
+    chainId: number;
+    contract: Address.Address;
+    rpcUrl: string | null;     // Needed to see redemptions (and so to refund expired vouchers)
+}
+
+// Signs vouchers; the claim contract trusts this address
+export interface ClaimSigner {
+    address: Address.Address;
+    sign(payload: Hex.Hex): Promise<Hex.Hex>;
+}
+
+// A claim about to be opened (its id and timestamps come from the store)
+export interface NewTokenClaim {
+    fid: number;
+    wallet: Address.Address;
+    amount: number;
+    nonce: Hex.Hex;
+    expiresAt: Date;
+}
+
+// Persistence for claims and the balance they debit
+export interface ClaimStore {
+    createClaim(claim: NewTokenClaim): Promise<TokenClaim | null>;  // Debits the balance; null if it doesn't cover the amount
+    getClaim(id: number): Promise<TokenClaim | null>;
+    listClaims(fid: number, cursor: number | null, limit: number): Promise<TokenClaim[]>;  // Newest first
+    updateStatus(id: number, from: ClaimStatus, update: { status: ClaimStatus; signature?: Hex.Hex }): Promise<boolean>;
+    expireClaim(id: number): Promise<boolean>;  // Refunds; false if the claim was already closed
+    listOverdueClaims(expiredBefore: Date, limit: number): Promise<TokenClaim[]>;  // Still pending or signed
+}
+
+// Where redemptions are read from
+export interface ClaimChain {
+    isRedeemed(nonce: Hex.Hex): Promise<boolean>;
+}
+
+// Chain clocks drift from ours; only refund once the expiry is safely in the past
+const CLAIM_EXPIRY_GRACE_MS = 5 * 60 * 1000;
+
+export const VOUCHER_TYPES = {
+    Voucher: [
+        { name: 'fid', type: 'uint256' },
+        { name: 'wallet', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' },
+        { name: 'expiry', type: 'uint256' },
+    ],
+} as const;
+
+// Claim contract interface the vouchers are signed for (domain: name 'Terminal ASLR', version '1'):
+/*
+struct Voucher { uint256 fid; address wallet; uint256 amount; bytes32 nonce; uint256 expiry; }
+
+// Pays voucher.amount ASLR to voucher.wallet. Reverts unless signed by the voucher signer,
+// block.timestamp <= voucher.expiry and the nonce wasn't redeemed before.
+function claim(Voucher calldata voucher, bytes calldata signature) external;
+function redeemed(bytes32 nonce) external view returns (bool);
+*/
+const claimFunction = AbiFunction.from(
+    'function claim((uint256 fid, address wallet, uint256 amount, bytes32 nonce, uint256 expiry) voucher, bytes signature)'
+);
+const redeemedFunction = AbiFunction.from('function redeemed(bytes32 nonce) view returns (bool)');
+
+// Claim schema (uses player_tokens, token_ledger and credit_tokens from db.ts):
+/*
+CREATE TABLE IF NOT EXISTS token_claims (
+    id BIGSERIAL PRIMARY KEY,
+    fid BIGINT NOT NULL,
+    wallet TEXT NOT NULL,
+    amount INTEGER NOT NULL CHECK (amount > 0),
+    nonce TEXT NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'signed', 'redeemed', 'expired')),
+    signature TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS token_claims_fid_idx ON token_claims (fid, id DESC);
+CREATE INDEX IF NOT EXISTS token_claims_open_idx ON token_claims (expires_at) WHERE status IN ('pending', 'signed');
+
+CREATE TRIGGER update_token_claims_updated_at BEFORE UPDATE
+ON token_claims FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Debit the balance and open the claim in one transaction; NULL when the balance is too low.
+-- The row lock on player_tokens serializes concurrent withdrawals.
+CREATE OR REPLACE FUNCTION create_token_claim(
+    p_fid BIGINT,
+    p_wallet TEXT,
+    p_amount INTEGER,
+    p_nonce TEXT,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BIGINT AS $$
+DECLARE
+    claim_id BIGINT;
+BEGIN
+    UPDATE player_tokens
+    SET total_tokens = total_tokens - p_amount
+    WHERE fid = p_fid AND total_tokens >= p_amount;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO token_claims (fid, wallet, amount, nonce, expires_at)
+    VALUES (p_fid, p_wallet, p_amount, p_nonce, p_expires_at)
+    RETURNING id INTO claim_id;
+
+    INSERT INTO token_ledger (fid, session_id, round, reason, amount)
+    VALUES (p_fid, 'claim:' || claim_id, 0, 'claim_withdrawal', -p_amount);
+
+    RETURN claim_id;
+END;
+$$ language 'plpgsql';
+
+-- Close an unredeemed claim and credit the tokens back; FALSE if it was already closed
+CREATE OR REPLACE FUNCTION expire_token_claim(p_claim_id BIGINT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    claim token_claims%ROWTYPE;
+BEGIN
+    UPDATE token_claims
+    SET status = 'expired'
+    WHERE id = p_claim_id AND status IN ('pending', 'signed')
+    RETURNING * INTO claim;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM credit_tokens(claim.fid, 'claim:' || claim.id, 0, 'claim_refund', claim.amount);
+    RETURN TRUE;
+END;
+$$ language 'plpgsql';
+
+-- Both move balances, so only the server may call them
+REVOKE EXECUTE ON FUNCTION create_token_claim(BIGINT, TEXT, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_token_claim(BIGINT, TEXT, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE) TO service_role;
+REVOKE EXECUTE ON FUNCTION expire_token_claim(BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_token_claim(BIGINT) TO service_role;
+*/
+
+interface TokenClaimRow {
+    id: number;
+    fid: number;
+    wallet: string;
+    amount: number;
+    nonce: string;
+    expires_at: string;
+    status: ClaimStatus;
+    signature: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+function claimFromRow(row: TokenClaimRow): TokenClaim {
+    return {
+        id: Number(row.id),
+        fid: Number(row.fid),
+        wallet: Address.checksum(row.wallet),
+        amount: row.amount,
+        nonce: row.nonce as Hex.Hex,
+        expiresAt: new Date(row.expires_at),
+        status: row.status,
+        signature: row.signature as Hex.Hex | null,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+// Chain id and RPC defaults for CLAIM_NETWORK: Base, or a local devnet such as Anvil
+const CLAIM_NETWORKS = {
+    base: { chainId: 8453, rpcUrl: null },
+    local: { chainId: 31337, rpcUrl: 'http://127.0.0.1:8545' },
+} as const;
+
+// Claim settings from env; null while no claim contract is configured.
+// CLAIM_CHAIN_ID and CLAIM_RPC_URL override the CLAIM_NETWORK defaults.
+export function getClaimConfig(env: NodeJS.ProcessEnv = process.env): ClaimConfig | null {
+    const contract = env.CLAIM_CONTRACT_ADDRESS;
+    if (!contract || !Address.validate(contract, { strict: false })) {
+        return null;
+    }
+
+    const network = env.CLAIM_NETWORK === 'local' ? CLAIM_NETWORKS.local : CLAIM_NETWORKS.base;
+
+    return {
+        chainId: Number(env.CLAIM_CHAIN_ID) || network.chainId,
+        contract: Address.checksum(contract),
+        rpcUrl: env.CLAIM_RPC_URL || network.rpcUrl,
+    };
+}
+
+// Signer backed by a secp256k1 private key
+export function createKeyClaimSigner(privateKey: Hex.Hex): ClaimSigner {
+    const address = Address.checksum(Address.fromPublicKey(Secp256k1.getPublicKey({ privateKey })));
+
+    return {
+        address,
+        async sign(payload) {
+            return Signature.toHex(Secp256k1.sign({ payload, privateKey }));
+        },
+    };
+}
+
+let claimSigner: ClaimSigner | null = null;
+
+// Override the signer (tests)
+export function setClaimSigner(signer: ClaimSigner | null): void {
+    claimSigner = signer;
+}
+
+// Signer from CLAIM_SIGNER_KEY (0x-prefixed 32-byte hex). Required in every environment: vouchers from
+// a throwaway key would debit balances for claims no contract accepts.
+export function getClaimSigner(): ClaimSigner {
+    if (claimSigner) return claimSigner;
+
+    const privateKey = process.env.CLAIM_SIGNER_KEY;
+    if (!privateKey || !/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+        throw new Error('CLAIM_SIGNER_KEY is not configured (0x-prefixed 32-byte hex private key)');
+    }
+
+    claimSigner = createKeyClaimSigner(privateKey as Hex.Hex);
+    return claimSigner;
+}
+
+// Parse a claim id from a route param; null if it isn't a positive integer
+export function parseClaimId(value: string): number | null {
+    const id = Number(value);
+    return /^\d+$/.test(value) && Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+export function getClaimVoucher(claim: TokenClaim): ClaimVoucher {
+    return {
+        fid: BigInt(claim.fid),
+        wallet: claim.wallet,
+        amount: BigInt(claim.amount),
+        nonce: claim.nonce,
+        expiry: BigInt(Math.floor(claim.expiresAt.getTime() / 1000)),
+    };
+}
+
+// Full EIP-712 payload, as eth_signTypedData_v4 and the contract see it
+export function getVoucherTypedData(voucher: ClaimVoucher, config: ClaimConfig) {
+    return {
+        domain: {
+            name: 'Terminal ASLR',
+            version: '1',
+            chainId: config.chainId,
+            verifyingContract: config.contract,
+        },
+        types: VOUCHER_TYPES,
+        primaryType: 'Voucher' as const,
+        message: voucher,
+    };
+}
+
+// Calldata for the player's wallet to redeem a signed claim
+export function getClaimCalldata(claim: TokenClaim): Hex.Hex | null {
+    if (!claim.signature) return null;
+
+    const voucher = getClaimVoucher(claim);
+    return AbiFunction.encodeData(claimFunction, [voucher, claim.signature]);
+}
+
+// JSON-safe view of a claim, with what the client needs to redeem it
+export function toClaimView(claim: TokenClaim, config: ClaimConfig, now: Date = new Date()) {
+    // The contract rejects vouchers past their expiry, so stop handing those out
+    const signed = claim.status === 'signed' && now < claim.expiresAt;
+
+    return {
+        id: claim.id,
+        wallet: claim.wallet,
+        amount: claim.amount,
+        nonce: claim.nonce,
+        expiresAt: claim.expiresAt,
+        status: claim.status,
+        createdAt: claim.createdAt,
+        chainId: config.chainId,
+        contract: config.contract,
+        signature: signed ? claim.signature : null,
+        calldata: signed ? getClaimCalldata(claim) : null,
+    };
+}
+
+// In-memory store (tests and offline development). `balances` stands in for player_tokens.
+export function createMemoryClaimStore(balances: Map<number, number> = new Map()): ClaimStore {
+    const claims = new Map<number, TokenClaim>();
+    let nextId = 1;
+
+    return {
+        async createClaim(claim) {
+            const balance = balances.get(claim.fid) ?? 0;
+            if (balance < claim.amount) return null;
+
+            const now = new Date();
+            const created: TokenClaim = { ...claim, id: nextId++, status: 'pending', signature: null, createdAt: now, updatedAt: now };
+            balances.set(claim.fid, balance - claim.amount);
+            claims.set(created.id, created);
+            return created;
+        },
+
+        async getClaim(id) {
+            return claims.get(id) ?? null;
+        },
+
+        async listClaims(fid, cursor, limit) {
+            return Array.from(claims.values())
+                .filter(claim => claim.fid === fid && (cursor === null || claim.id < cursor))
+                .sort((a, b) => b.id - a.id)
+                .slice(0, limit);
+        },
+
+        async updateStatus(id, from, update) {
+            const claim = claims.get(id);
+            if (!claim || claim.status !== from) return false;
+
+            claims.set(id, { ...claim, ...update, updatedAt: new Date() });
+            return true;
+        },
+
+        async expireClaim(id) {
+            const claim = claims.get(id);
+            if (!claim || (claim.status !== 'pending' && claim.status !== 'signed')) return false;
+
+            claims.set(id, { ...claim, status: 'expired', updatedAt: new Date() });
+            balances.set(claim.fid, (balances.get(claim.fid) ?? 0) + claim.amount);
+            return true;
+        },
+
+        async listOverdueClaims(expiredBefore, limit) {
+            return Array.from(claims.values())
+                .filter(claim => (claim.status === 'pending' || claim.status === 'signed') && claim.expiresAt < expiredBefore)
+                .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+                .slice(0, limit);
+        },
+    };
+}
+
+// Postgres store: create_token_claim / expire_token_claim keep the ledger and the claim in step
+export function createPostgresClaimStore(): ClaimStore {
+    const store: ClaimStore = {
+        async createClaim(claim) {
+            const { data: claimId, error } = await getSupabaseClient().rpc('create_token_claim', {
+                p_fid: claim.fid,
+                p_wallet: claim.wallet,
+                p_amount: claim.amount,
+                p_nonce: claim.nonce,
+                p_expires_at: claim.expiresAt.toISOString(),
+            });
+
+            if (error) throw error;
+            if (claimId === null) return null;
+
+            const created = await store.getClaim(Number(claimId));
+            if (!created) {
+                throw new Error(`Claim ${claimId} was not found after it was created`);
+            }
+            return created;
+        },
+
+        async getClaim(id) {
+            try {
+                const { data, error } = await getSupabaseClient()
+                    .from('token_claims')
+                    .select('*')
+                    .eq('id', id)
+                    .maybeSingle();
+
+                if (error || !data) {
+                    return null;
+                }
+
+                return claimFromRow(data as TokenClaimRow);
+            } catch (error) {
+                console.error('Error getting token claim:', error);
+                return null;
+            }
+        },
+
+        async listClaims(fid, cursor, limit) {
+            let query = getSupabaseClient()
+                .from('token_claims')
+                .select('*')
+                .eq('fid', fid)
+                .order('id', { ascending: false })
+                .limit(limit);
+
+            if (cursor !== null) query = query.lt('id', cursor);
+
+            const { data, error } = await query;
+            if (error) throw error;
+
+            return ((data ?? []) as TokenClaimRow[]).map(claimFromRow);
+        },
+
+        async updateStatus(id, from, update) {
+            const { data, error } = await getSupabaseClient()
+                .from('token_claims')
+                .update(update)
+                .eq('id', id)
+                .eq('status', from)
+                .select('id');
+
+            if (error) throw error;
+            return (data ?? []).length > 0;
+        },
+
+        async expireClaim(id) {
+            const { data, error } = await getSupabaseClient().rpc('expire_token_claim', { p_claim_id: id });
+
+            if (error) throw error;
+            return data === true;
+        },
+
+        async listOverdueClaims(expiredBefore, limit) {
+            const { data, error } = await getSupabaseClient()
+                .from('token_claims')
+                .select('*')
+                .in('status', ['pending', 'signed'])
+                .lt('expires_at', expiredBefore.toISOString())
+                .order('expires_at', { ascending: true })
+                .limit(limit);
+
+            if (error) throw error;
+            return ((data ?? []) as TokenClaimRow[]).map(claimFromRow);
+        },
+    };
+
+    return store;
+}
+
+let claimStore: ClaimStore | null = null;
+
+// Postgres when Supabase is configured, memory otherwise (CLAIM_STORE overrides)
+export function getClaimStore(): ClaimStore {
+    if (!claimStore) {
+        const backend = process.env.CLAIM_STORE || (isSupabaseConfigured() ? 'postgres' : 'memory');
+        claimStore = backend === 'postgres'
+            ? createPostgresClaimStore()
+            : createMemoryClaimStore();
+    }
+    return claimStore;
+}
+
+// Override the claim store (tests)
+export function setClaimStore(store: ClaimStore | null): void {
+    claimStore = store;
+}
+
+export async function getClaim(id: number): Promise<TokenClaim | null> {
+    return getClaimStore().getClaim(id);
+}
+
+// Page of a player's claims, newest first; cursor is the last id already shown
+export async function listClaims(options: {
+    fid: number;
+    cursor?: number;
+    limit?: number;
+}): Promise<{ claims: TokenClaim[]; nextCursor: number | null }> {
+    const { fid, cursor, limit = 20 } = options;
+
+    const rows = await getClaimStore().listClaims(fid, cursor || null, limit + 1);
+    const claims = rows.slice(0, limit);
+
+    return {
+        claims,
+        nextCursor: rows.length > limit ? claims[claims.length - 1].id : null,
+    };
+}
+
+// Refund an unredeemed claim; false if it was already closed
+export async function expireClaim(id: number): Promise<boolean> {
+    return getClaimStore().expireClaim(id);
+}
+
+// Debit the tokens and sign a voucher for them; null when the balance doesn't cover the amount
+export async function requestClaim(
+    request: { fid: number; wallet: Address.Address; amount: number },
+    config: ClaimConfig,
+    now: Date = new Date()
+): Promise<TokenClaim | null> {
+    const signer = getClaimSigner();
+    const store = getClaimStore();
+
+    const claim = await store.createClaim({
+        fid: request.fid,
+        wallet: request.wallet,
+        amount: request.amount,
+        nonce: `0x${generateNonce()}${generateNonce()}`,
+        expiresAt: new Date(now.getTime() + CLAIM_VOUCHER_MINUTES * 60 * 1000),
+    });
+
+    if (!claim) return null;
+
+    try {
+        const payload = TypedData.getSignPayload(getVoucherTypedData(getClaimVoucher(claim), config));
+        const signature = await signer.sign(payload);
+
+        // Only hand the voucher out once it's stored; if the claim moved on meanwhile, refund instead
+        if (!(await store.updateStatus(claim.id, 'pending', { status: 'signed', signature }))) {
+            throw new Error(`Claim ${claim.id} left 'pending' before its voucher was stored`);
+        }
+        return { ...claim, status: 'signed', signature };
+    } catch (signError) {
+        // No voucher left the server, so the tokens can go straight back
+        await expireClaim(claim.id);
+        throw signError;
+    }
+}
+
+// Reads redeemed(nonce) from the claim contract over JSON-RPC
+export function createRpcClaimChain(rpcUrl: string, contract: Address.Address): ClaimChain {
+    const transport = RpcTransport.fromHttp(rpcUrl);
+
+    return {
+        async isRedeemed(nonce) {
+            const result = await transport.request({
+                method: 'eth_call',
+                params: [{ to: contract, data: AbiFunction.encodeData(redeemedFunction, [nonce]) }, 'latest'],
+            });
+
+            return AbiFunction.decodeResult(redeemedFunction, result as Hex.Hex);
+        },
+    };
+}
+
+// In-process claim contract (tests and offline development): redeem() checks a claim() call the way
+// the contract does (signer, expiry, unused nonce) and remembers the nonce
+export interface LocalClaimContract extends ClaimChain {
+    redeem(calldata: Hex.Hex, now?: Date): void;  // Throws with the revert reason
+}
+
+export function createLocalClaimContract(config: ClaimConfig, signer: Address.Address): LocalClaimContract {
+    const redeemed = new Set<string>();
+
+    return {
+        async isRedeemed(nonce) {
+            return redeemed.has(nonce.toLowerCase());
+        },
+
+        redeem(calldata, now = new Date()) {
+            const [voucher, signature] = AbiFunction.decodeData(claimFunction, calldata);
+            const payload = TypedData.getSignPayload(getVoucherTypedData(voucher, config));
+            const recovered = Secp256k1.recoverAddress({ payload, signature: Signature.fromHex(signature) });
+
+            if (!Address.isEqual(recovered, signer)) throw new Error('invalid signature');
+            if (BigInt(Math.floor(now.getTime() / 1000)) > voucher.expiry) throw new Error('voucher expired');
+            if (redeemed.has(voucher.nonce.toLowerCase())) throw new Error('already redeemed');
+
+            redeemed.add(voucher.nonce.toLowerCase());
+        },
+    };
+}
+
+let claimChain: ClaimChain | null = null;
+
+// Override where redemptions are read from (tests)
+export function setClaimChain(chain: ClaimChain | null): void {
+    claimChain = chain;
+}
+
+// The claim contract over CLAIM_RPC_URL, unless overridden
+export function getClaimChain(config: ClaimConfig): ClaimChain {
+    if (claimChain) return claimChain;
+
+    if (!config.rpcUrl) {
+        throw new Error('CLAIM_RPC_URL is not configured');
+    }
+
+    return createRpcClaimChain(config.rpcUrl, config.contract);
+}
+
+// Whether the claim contract already paid out a voucher
+export async function isVoucherRedeemed(nonce: Hex.Hex, config: ClaimConfig): Promise<boolean> {
+    return getClaimChain(config).isRedeemed(nonce);
+}
+
+// Bring a claim in line with the chain: mark redemptions, refund vouchers that can no longer be redeemed
+export async function syncClaim(claim: TokenClaim, config: ClaimConfig, now: Date = new Date()): Promise<TokenClaim> {
+    const pastExpiry = now.getTime() > claim.expiresAt.getTime() + CLAIM_EXPIRY_GRACE_MS;
+
+    // A pending claim never got a signature out, so nothing can redeem it
+    if (claim.status === 'pending' && pastExpiry) {
+        return await expireClaim(claim.id) ? { ...claim, status: 'expired' } : claim;
+    }
+
+    if (claim.status !== 'signed') {
+        return claim;
+    }
+
+    if (await isVoucherRedeemed(claim.nonce, config)) {
+        return await getClaimStore().updateStatus(claim.id, 'signed', { status: 'redeemed' }) ? { ...claim, status: 'redeemed' } : claim;
+    }
+
+    if (pastExpiry) {
+        return await expireClaim(claim.id) ? { ...claim, status: 'expired' } : claim;
+    }
+
+    return claim;
+}
+
+// Settle open claims past their expiry (run periodically)
+export async function sweepExpiredClaims(config: ClaimConfig, limit: number = 100, now: Date = new Date()): Promise<number> {
+    const overdue = await getClaimStore().listOverdueClaims(new Date(now.getTime() - CLAIM_EXPIRY_GRACE_MS), limit);
+
+    let expired = 0;
+    for (const claim of overdue) {
+        try {
+            const synced = await syncClaim(claim, config, now);
+            if (synced.status === 'expired') expired += 1;
+        } catch (syncError) {
+            console.error(`Error settling claim ${claim.id}:`, syncError);
+        }
+    }
+
+    return expired;
+}
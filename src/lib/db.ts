@@ -1,9 +1,10 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getChallengeDate, type Difficulty, type GameMode } from './gameLogic';
 
 // Lazy initialization to avoid build-time errors
 let supabaseClient: SupabaseClient | null = null;
 
-function getSupabaseClient(): SupabaseClient {
+export function getSupabaseClient(): SupabaseClient {
     if (!supabaseClient) {
         const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
         const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -17,6 +18,11 @@ function getSupabaseClient(): SupabaseClient {
     return supabaseClient;
 }
 
+// Check whether Supabase credentials are present
+export function isSupabaseConfigured(): boolean {
+    return Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY);
+}
+
 // Token tablosu oluşturma SQL'i (Supabase SQL Editor'da çalıştırılmalı):
 /*
 CREATE TABLE IF NOT EXISTS player_tokens (
@@ -36,6 +42,256 @@ $$ language 'plpgsql';
 
 CREATE TRIGGER update_player_tokens_updated_at BEFORE UPDATE
 ON player_tokens FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Append-only token history; player_tokens.total_tokens is its projection
+CREATE TABLE IF NOT EXISTS token_ledger (
+    id BIGSERIAL PRIMARY KEY,
+    fid BIGINT NOT NULL,
+    session_id TEXT,
+    round INTEGER,
+    reason TEXT NOT NULL CHECK (reason IN ('correct_answer', 'perfect_bonus', 'speed_bonus', 'streak_bonus', 'streak_milestone', 'duel_pot', 'tournament_prize', 'claim_withdrawal', 'claim_refund', 'admin_adjustment')),
+    amount INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (session_id, round, reason)
+);
+
+CREATE INDEX IF NOT EXISTS token_ledger_fid_idx ON token_ledger (fid);
+
+-- Insert the ledger row and bump the projection in one transaction.
+-- A duplicate (session_id, round, reason) leaves both untouched and returns inserted = false.
+-- (Dropped first because the return type changed from a bare INTEGER total.)
+DROP FUNCTION IF EXISTS credit_tokens(BIGINT, TEXT, INTEGER, TEXT, INTEGER);
+CREATE OR REPLACE FUNCTION credit_tokens(
+    p_fid BIGINT,
+    p_session_id TEXT,
+    p_round INTEGER,
+    p_reason TEXT,
+    p_amount INTEGER
+)
+RETURNS TABLE (inserted BOOLEAN, total_tokens INTEGER) AS $$
+DECLARE
+    ledger_id BIGINT;
+    new_total INTEGER;
+BEGIN
+    INSERT INTO token_ledger (fid, session_id, round, reason, amount)
+    VALUES (p_fid, p_session_id, p_round, p_reason, p_amount)
+    ON CONFLICT (session_id, round, reason) DO NOTHING
+    RETURNING id INTO ledger_id;
+
+    IF ledger_id IS NULL THEN
+        SELECT pt.total_tokens INTO new_total FROM player_tokens pt WHERE pt.fid = p_fid;
+        RETURN QUERY SELECT FALSE, COALESCE(new_total, 0);
+        RETURN;
+    END IF;
+
+    INSERT INTO player_tokens AS pt (fid, total_tokens)
+    VALUES (p_fid, p_amount)
+    ON CONFLICT (fid) DO UPDATE
+    SET total_tokens = pt.total_tokens + EXCLUDED.total_tokens
+    RETURNING pt.total_tokens INTO new_total;
+
+    RETURN QUERY SELECT TRUE, new_total;
+END;
+$$ language 'plpgsql';
+
+-- Ledger writes go through the server (service role) only; Supabase would otherwise let the
+-- anon key call it over PostgREST
+REVOKE EXECUTE ON FUNCTION credit_tokens(BIGINT, TEXT, INTEGER, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION credit_tokens(BIGINT, TEXT, INTEGER, TEXT, INTEGER) TO service_role;
+
+-- Final outcome of every session (completed or abandoned)
+CREATE TABLE IF NOT EXISTS session_results (
+    session_id TEXT PRIMARY KEY,
+    fid BIGINT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('completed', 'abandoned')),
+    tokens_earned INTEGER NOT NULL DEFAULT 0,
+    correct_answers INTEGER NOT NULL DEFAULT 0,
+    wrong_answers INTEGER NOT NULL DEFAULT 0,
+    perfect BOOLEAN NOT NULL DEFAULT FALSE,
+    total_time INTEGER,
+    difficulty TEXT NOT NULL DEFAULT 'standard',
+    mode TEXT NOT NULL DEFAULT 'classic',
+    challenge_date DATE,  -- UTC day of a daily challenge session
+    tournament_id BIGINT,  -- Tournament the session was an attempt at
+    suspicion_score REAL NOT NULL DEFAULT 0,  -- Automation score from answer timings (0..1)
+    seed TEXT NOT NULL,
+    seed_commitment TEXT NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS session_results_fid_idx ON session_results (fid, finished_at DESC, session_id DESC);
+
+-- Credits withheld from sessions whose answer timings look automated, pending review
+CREATE TABLE IF NOT EXISTS token_holds (
+    id BIGSERIAL PRIMARY KEY,
+    fid BIGINT NOT NULL,
+    session_id TEXT NOT NULL,
+    round INTEGER,
+    reason TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    suspicion_score REAL NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'released', 'rejected')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (session_id, round, reason)
+);
+
+CREATE INDEX IF NOT EXISTS token_holds_pending_idx ON token_holds (created_at) WHERE status = 'pending';
+
+-- Every answered round, for history and replays
+CREATE TABLE IF NOT EXISTS session_rounds (
+    session_id TEXT NOT NULL,
+    round INTEGER NOT NULL,
+    fid BIGINT NOT NULL,
+    shown_numbers INTEGER[] NOT NULL,
+    fake_numbers INTEGER[] NOT NULL,
+    selection_options INTEGER[] NOT NULL,
+    selected_numbers INTEGER[],  -- NULL when the answer window ran out
+    correct BOOLEAN NOT NULL,
+    timed_out BOOLEAN NOT NULL DEFAULT FALSE,
+    reaction_ms INTEGER NOT NULL,
+    tokens INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (session_id, round)
+);
+CREATE INDEX IF NOT EXISTS session_results_challenge_idx ON session_results (challenge_date) WHERE mode = 'daily';
+CREATE INDEX IF NOT EXISTS session_results_tournament_idx ON session_results (tournament_id) WHERE tournament_id IS NOT NULL;
+
+-- Ranked completed runs of a daily challenge: most correct answers, then fastest, then first finished
+CREATE OR REPLACE FUNCTION daily_challenge_leaderboard(p_date DATE)
+RETURNS TABLE (rank BIGINT, fid BIGINT, correct_answers INTEGER, total_time INTEGER, finished_at TIMESTAMP WITH TIME ZONE) AS $$
+    SELECT
+        ROW_NUMBER() OVER (ORDER BY correct_answers DESC, total_time ASC, finished_at ASC, fid ASC) AS rank,
+        fid,
+        correct_answers,
+        total_time,
+        finished_at
+    FROM session_results
+    WHERE mode = 'daily' AND challenge_date = p_date AND status = 'completed'
+$$ language 'sql' STABLE;
+
+REVOKE EXECUTE ON FUNCTION daily_challenge_leaderboard(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION daily_challenge_leaderboard(DATE) TO service_role;
+
+-- Ranked token earnings since p_since (NULL = all time), from the ledger.
+-- Ties go to whoever reached the total first. Tokens moved on-chain still count as earned.
+CREATE OR REPLACE FUNCTION leaderboard_window(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (rank BIGINT, fid BIGINT, total_tokens BIGINT, achieved_at TIMESTAMP WITH TIME ZONE) AS $$
+    SELECT
+        ROW_NUMBER() OVER (ORDER BY SUM(amount) DESC, MAX(created_at) ASC, fid ASC) AS rank,
+        fid,
+        SUM(amount) AS total_tokens,
+        MAX(created_at) AS achieved_at
+    FROM token_ledger
+    WHERE (p_since IS NULL OR created_at >= p_since)
+        AND reason NOT IN ('claim_withdrawal', 'claim_refund')
+    GROUP BY fid
+    HAVING SUM(amount) > 0
+$$ language 'sql' STABLE;
+
+REVOKE EXECUTE ON FUNCTION leaderboard_window(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION leaderboard_window(TIMESTAMP WITH TIME ZONE) TO service_role;
+
+CREATE INDEX IF NOT EXISTS token_ledger_created_at_idx ON token_ledger (created_at);
+
+-- Lifetime player stats (streaks are counted in UTC days)
+CREATE TABLE IF NOT EXISTS player_stats (
+    fid BIGINT PRIMARY KEY,
+    current_streak INTEGER NOT NULL DEFAULT 0,
+    longest_streak INTEGER NOT NULL DEFAULT 0,
+    last_streak_date DATE,
+    perfect_sessions INTEGER NOT NULL DEFAULT 0,
+    total_sessions INTEGER NOT NULL DEFAULT 0,
+    total_correct INTEGER NOT NULL DEFAULT 0,
+    total_wrong INTEGER NOT NULL DEFAULT 0,
+    best_completion_time INTEGER,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_player_stats_updated_at BEFORE UPDATE
+ON player_stats FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Fold one completed session into the player's stats (row-locked, so concurrent sessions don't race)
+CREATE OR REPLACE FUNCTION record_session_stats(
+    p_fid BIGINT,
+    p_perfect BOOLEAN,
+    p_correct INTEGER,
+    p_wrong INTEGER,
+    p_total_time INTEGER
+)
+RETURNS SETOF player_stats AS $$
+DECLARE
+    today DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+    stats player_stats;
+    new_streak INTEGER;
+BEGIN
+    INSERT INTO player_stats (fid) VALUES (p_fid) ON CONFLICT (fid) DO NOTHING;
+    SELECT * INTO stats FROM player_stats WHERE fid = p_fid FOR UPDATE;
+
+    -- Same day keeps the streak, yesterday extends it, anything older restarts it
+    new_streak := CASE
+        WHEN stats.last_streak_date = today THEN GREATEST(stats.current_streak, 1)
+        WHEN stats.last_streak_date = today - 1 THEN stats.current_streak + 1
+        ELSE 1
+    END;
+
+    RETURN QUERY
+    UPDATE player_stats SET
+        current_streak = new_streak,
+        longest_streak = GREATEST(stats.longest_streak, new_streak),
+        last_streak_date = today,
+        perfect_sessions = stats.perfect_sessions + CASE WHEN p_perfect THEN 1 ELSE 0 END,
+        total_sessions = stats.total_sessions + 1,
+        total_correct = stats.total_correct + p_correct,
+        total_wrong = stats.total_wrong + p_wrong,
+        best_completion_time = CASE
+            WHEN p_perfect AND p_total_time IS NOT NULL
+            THEN LEAST(COALESCE(stats.best_completion_time, p_total_time), p_total_time)
+            ELSE stats.best_completion_time
+        END
+    WHERE fid = p_fid
+    RETURNING *;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION record_session_stats(BIGINT, BOOLEAN, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_session_stats(BIGINT, BOOLEAN, INTEGER, INTEGER, INTEGER) TO service_role;
+
+-- Unlocked achievements (ids come from the registry in src/lib/achievements.ts)
+CREATE TABLE IF NOT EXISTS achievements (
+    fid BIGINT NOT NULL,
+    achievement_id TEXT NOT NULL,
+    session_id TEXT,  -- Session that unlocked it
+    unlocked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (fid, achievement_id)
+);
+
+-- Farcaster profile cache (refreshed whenever the player starts a game)
+CREATE TABLE IF NOT EXISTS player_profiles (
+    fid BIGINT PRIMARY KEY,
+    username TEXT,
+    display_name TEXT,
+    pfp_url TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_player_profiles_updated_at BEFORE UPDATE
+ON player_profiles FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Existing databases: widen the reason check for speed, streak, duel and tournament rewards and claims
+ALTER TABLE token_ledger DROP CONSTRAINT IF EXISTS token_ledger_reason_check;
+ALTER TABLE token_ledger ADD CONSTRAINT token_ledger_reason_check
+    CHECK (reason IN ('correct_answer', 'perfect_bonus', 'speed_bonus', 'streak_bonus', 'streak_milestone', 'duel_pot', 'tournament_prize', 'claim_withdrawal', 'claim_refund', 'admin_adjustment'));
+*/
+
+// One-time migration for databases that had player_tokens before token_ledger existed: gives each
+// existing balance an opening ledger entry. Run it once, right after creating token_ledger. It is not
+// part of the schema above; a later run would count the balances of newer players twice.
+/*
+INSERT INTO token_ledger (fid, session_id, round, reason, amount)
+SELECT fid, 'backfill:' || fid, 0, 'admin_adjustment', total_tokens FROM player_tokens WHERE total_tokens <> 0
+ON CONFLICT (session_id, round, reason) DO NOTHING;
 */
 
 // Get player's total tokens
@@ -59,56 +315,821 @@ export async function getPlayerTokens(fid: number): Promise<number> {
     }
 }
 
-// Add tokens to player
-export async function addPlayerTokens(fid: number, amount: number): Promise<number> {
+// Why a token was credited (one ledger row per reason per session round)
+export type TokenReason =
+    | 'correct_answer'
+    | 'perfect_bonus'
+    | 'speed_bonus'        // Faster correct answers, one row per session round
+    | 'streak_bonus'       // Extra from the streak multiplier, one row per session round
+    | 'streak_milestone'   // One-off payout when a streak reaches a milestone
+    | 'duel_pot'           // Paid to the winner of a duel
+    | 'tournament_prize'   // Prize-table payout when a tournament closes, one row per placed player
+    | 'claim_withdrawal'   // Debit for an on-chain claim voucher (negative amount)
+    | 'claim_refund'       // Credit back for a voucher that expired unredeemed
+    | 'admin_adjustment';
+
+export interface TokenCredit {
+    fid: number;
+    sessionId: string | null;
+    round: number | null;
+    reason: TokenReason;
+    amount: number;
+}
+
+export interface CreditResult {
+    inserted: boolean;  // False when the (session, round, reason) credit was already in the ledger
+    total: number;      // Player's balance afterwards
+}
+
+// Credit tokens through the ledger. Duplicate (session, round, reason) credits are ignored by
+// credit_tokens() and come back with inserted = false; database errors are thrown.
+export async function creditTokens(credit: TokenCredit): Promise<CreditResult> {
+    const { data, error } = await getSupabaseClient()
+        .rpc('credit_tokens', {
+            p_fid: credit.fid,
+            p_session_id: credit.sessionId,
+            p_round: credit.round,
+            p_reason: credit.reason,
+            p_amount: credit.amount,
+        })
+        .single();
+
+    if (error) throw error;
+
+    const row = data as { inserted: boolean; total_tokens: number };
+    return { inserted: row.inserted, total: row.total_tokens };
+}
+
+// Park a credit for review instead of paying it (duplicates are ignored like the ledger's)
+export async function holdTokens(credit: TokenCredit, suspicionScore: number): Promise<void> {
     try {
         const supabase = getSupabaseClient();
+        const { error } = await supabase
+            .from('token_holds')
+            .upsert({
+                fid: credit.fid,
+                session_id: credit.sessionId,
+                round: credit.round,
+                reason: credit.reason,
+                amount: credit.amount,
+                suspicion_score: suspicionScore,
+            }, { onConflict: 'session_id,round,reason', ignoreDuplicates: true });
 
-        // First try to get existing record
-        const { data: existing } = await supabase
-            .from('player_tokens')
-            .select('total_tokens')
+        if (error) {
+            throw error;
+        }
+    } catch (error) {
+        console.error('Error holding player tokens:', error);
+    }
+}
+
+export interface SessionResult {
+    sessionId: string;
+    fid: number;
+    status: 'completed' | 'abandoned';
+    tokensEarned: number;
+    correctAnswers: number;
+    wrongAnswers: number;
+    perfect: boolean;
+    totalTime: number | null;
+    startedAt: Date;
+    difficulty: Difficulty;
+    mode: GameMode;
+    tournamentId: number | null;
+    suspicionScore: number;
+    seed: string;            // Revealed once the session is over (daily: once the day is over)
+    seedCommitment: string;
+}
+
+interface SessionResultRow {
+    session_id: string;
+    fid: number;
+    status: 'completed' | 'abandoned';
+    tokens_earned: number;
+    correct_answers: number;
+    wrong_answers: number;
+    perfect: boolean;
+    total_time: number | null;
+    difficulty: Difficulty;
+    mode: GameMode | null;
+    tournament_id: number | null;
+    suspicion_score: number | null;
+    seed: string;
+    seed_commitment: string;
+    started_at: string;
+    finished_at: string;
+}
+
+interface SessionRoundRow {
+    session_id: string;
+    round: number;
+    fid: number;
+    shown_numbers: number[];
+    fake_numbers: number[];
+    selection_options: number[];
+    selected_numbers: number[] | null;
+    correct: boolean;
+    timed_out: boolean;
+    reaction_ms: number;
+    tokens: number;
+}
+
+function sessionResultFromRow(row: SessionResultRow): SessionResult {
+    return {
+        sessionId: row.session_id,
+        fid: Number(row.fid),
+        status: row.status,
+        tokensEarned: row.tokens_earned,
+        correctAnswers: row.correct_answers,
+        wrongAnswers: row.wrong_answers,
+        perfect: row.perfect,
+        totalTime: row.total_time,
+        startedAt: new Date(row.started_at),
+        difficulty: row.difficulty,
+        mode: row.mode ?? 'classic',
+        tournamentId: row.tournament_id ? Number(row.tournament_id) : null,
+        suspicionScore: Number(row.suspicion_score ?? 0),
+        seed: row.seed,
+        seedCommitment: row.seed_commitment,
+    };
+}
+
+function sessionRoundFromRow(row: SessionRoundRow): SessionRound {
+    return {
+        sessionId: row.session_id,
+        round: row.round,
+        fid: Number(row.fid),
+        shownNumbers: row.shown_numbers,
+        fakeNumbers: row.fake_numbers,
+        selectionOptions: row.selection_options,
+        selectedNumbers: row.selected_numbers,
+        correct: row.correct,
+        timedOut: row.timed_out,
+        reactionMs: row.reaction_ms,
+        tokens: row.tokens,
+    };
+}
+
+// Record a session's final outcome (first write wins); false if it could not be stored
+export async function recordSessionResult(result: SessionResult): Promise<boolean> {
+    try {
+        const supabase = getSupabaseClient();
+        const { error } = await supabase
+            .from('session_results')
+            .upsert({
+                session_id: result.sessionId,
+                fid: result.fid,
+                status: result.status,
+                tokens_earned: result.tokensEarned,
+                correct_answers: result.correctAnswers,
+                wrong_answers: result.wrongAnswers,
+                perfect: result.perfect,
+                total_time: result.totalTime,
+                difficulty: result.difficulty,
+                mode: result.mode,
+                challenge_date: result.mode === 'daily' ? getChallengeDate(result.startedAt) : null,
+                tournament_id: result.tournamentId,
+                suspicion_score: result.suspicionScore,
+                seed: result.seed,
+                seed_commitment: result.seedCommitment,
+                started_at: new Date(result.startedAt).toISOString(),
+            }, { onConflict: 'session_id', ignoreDuplicates: true });
+
+        if (error) {
+            throw error;
+        }
+        return true;
+    } catch (error) {
+        console.error('Error recording session result:', error);
+        return false;
+    }
+}
+
+// Get a session's recorded outcome
+export async function getSessionResult(sessionId: string): Promise<SessionResult | null> {
+    try {
+        const supabase = getSupabaseClient();
+        const { data, error } = await supabase
+            .from('session_results')
+            .select('*')
+            .eq('session_id', sessionId)
+            .maybeSingle();
+
+        if (error || !data) {
+            return null;
+        }
+
+        return sessionResultFromRow(data);
+    } catch (error) {
+        console.error('Error getting session result:', error);
+        return null;
+    }
+}
+
+// One answered round as stored in session_rounds
+export interface SessionRound {
+    sessionId: string;
+    round: number;
+    fid: number;
+    shownNumbers: number[];
+    fakeNumbers: number[];
+    selectionOptions: number[];
+    selectedNumbers: number[] | null;
+    correct: boolean;
+    timedOut: boolean;
+    reactionMs: number;
+    tokens: number;
+}
+
+// Persist an answered round (first write wins)
+export async function recordSessionRound(round: SessionRound): Promise<void> {
+    try {
+        const supabase = getSupabaseClient();
+        const { error } = await supabase
+            .from('session_rounds')
+            .upsert({
+                session_id: round.sessionId,
+                round: round.round,
+                fid: round.fid,
+                shown_numbers: round.shownNumbers,
+                fake_numbers: round.fakeNumbers,
+                selection_options: round.selectionOptions,
+                selected_numbers: round.selectedNumbers,
+                correct: round.correct,
+                timed_out: round.timedOut,
+                reaction_ms: round.reactionMs,
+                tokens: round.tokens,
+            }, { onConflict: 'session_id,round', ignoreDuplicates: true });
+
+        if (error) {
+            throw error;
+        }
+    } catch (error) {
+        console.error('Error recording session round:', error);
+    }
+}
+
+export interface SessionHistoryEntry extends SessionResult {
+    finishedAt: string;
+    rounds: SessionRound[];
+}
+
+// History cursor: finishedAt and session id of the last session shown, as "<finishedAt>|<sessionId>"
+export function parseHistoryCursor(cursor: string): { finishedAt: string; sessionId: string } | null {
+    const separator = cursor.lastIndexOf('|');
+    const finishedAt = cursor.slice(0, separator);
+    const sessionId = cursor.slice(separator + 1);
+    if (separator < 0 || isNaN(Date.parse(finishedAt)) || !/^[0-9a-f]+$/.test(sessionId)) {
+        return null;
+    }
+    return { finishedAt, sessionId };
+}
+
+// A player's finished sessions, newest first, with their rounds.
+// Sessions can share a finishedAt, so the session id breaks ties in both the order and the cursor.
+export async function getSessionHistory(
+    fid: number,
+    options: { cursor?: string | null; limit?: number } = {}
+): Promise<{ sessions: SessionHistoryEntry[]; nextCursor: string | null }> {
+    const { cursor = null, limit = 10 } = options;
+
+    try {
+        const supabase = getSupabaseClient();
+        let query = supabase
+            .from('session_results')
+            .select('*')
             .eq('fid', fid)
+            .order('finished_at', { ascending: false })
+            .order('session_id', { ascending: false })
+            .limit(limit + 1);
+
+        const after = cursor ? parseHistoryCursor(cursor) : null;
+        if (after) {
+            query = query.or(
+                `finished_at.lt.${after.finishedAt},and(finished_at.eq.${after.finishedAt},session_id.lt.${after.sessionId})`
+            );
+        }
+
+        const { data, error } = await query;
+        if (error || !data) {
+            return { sessions: [], nextCursor: null };
+        }
+
+        const page = (data as SessionResultRow[]).slice(0, limit);
+        const { data: roundRows } = page.length > 0
+            ? await supabase
+                .from('session_rounds')
+                .select('*')
+                .in('session_id', page.map(row => row.session_id))
+                .order('round', { ascending: true })
+            : { data: [] };
+
+        const sessions = page.map(row => ({
+            ...sessionResultFromRow(row),
+            finishedAt: row.finished_at,
+            rounds: ((roundRows || []) as SessionRoundRow[])
+                .filter(round => round.session_id === row.session_id)
+                .map(sessionRoundFromRow),
+        }));
+
+        return {
+            sessions,
+            nextCursor: data.length > limit
+                ? `${page[page.length - 1].finished_at}|${page[page.length - 1].session_id}`
+                : null,
+        };
+    } catch (error) {
+        console.error('Error getting session history:', error);
+        return { sessions: [], nextCursor: null };
+    }
+}
+
+export interface PlayerLifetimeStats {
+    currentStreak: number;
+    longestStreak: number;
+    lastStreakDate: string | null;    // UTC date (YYYY-MM-DD)
+    perfectSessions: number;
+    totalSessions: number;
+    totalCorrect: number;
+    totalWrong: number;
+    bestCompletionTime: number | null; // Fastest perfect session, in seconds
+}
+
+const EMPTY_LIFETIME_STATS: PlayerLifetimeStats = {
+    currentStreak: 0,
+    longestStreak: 0,
+    lastStreakDate: null,
+    perfectSessions: 0,
+    totalSessions: 0,
+    totalCorrect: 0,
+    totalWrong: 0,
+    bestCompletionTime: null,
+};
+
+interface PlayerStatsRow {
+    current_streak: number;
+    longest_streak: number;
+    last_streak_date: string | null;
+    perfect_sessions: number;
+    total_sessions: number;
+    total_correct: number;
+    total_wrong: number;
+    best_completion_time: number | null;
+}
+
+function toLifetimeStats(row: PlayerStatsRow): PlayerLifetimeStats {
+    return {
+        currentStreak: row.current_streak,
+        longestStreak: row.longest_streak,
+        lastStreakDate: row.last_streak_date,
+        perfectSessions: row.perfect_sessions,
+        totalSessions: row.total_sessions,
+        totalCorrect: row.total_correct,
+        totalWrong: row.total_wrong,
+        bestCompletionTime: row.best_completion_time,
+    };
+}
+
+// Get a player's lifetime stats
+export async function getPlayerLifetimeStats(fid: number): Promise<PlayerLifetimeStats> {
+    try {
+        const supabase = getSupabaseClient();
+        const { data, error } = await supabase
+            .from('player_stats')
+            .select('*')
+            .eq('fid', fid)
+            .maybeSingle();
+
+        if (error || !data) {
+            return { ...EMPTY_LIFETIME_STATS };
+        }
+
+        return toLifetimeStats(data);
+    } catch (error) {
+        console.error('Error getting player stats:', error);
+        return { ...EMPTY_LIFETIME_STATS };
+    }
+}
+
+// Record a completed session in the player's lifetime stats
+export async function recordPlayerSessionStats(fid: number, session: {
+    perfect: boolean;
+    correctAnswers: number;
+    wrongAnswers: number;
+    totalTime: number;
+}): Promise<PlayerLifetimeStats | null> {
+    try {
+        const supabase = getSupabaseClient();
+        const { data, error } = await supabase
+            .rpc('record_session_stats', {
+                p_fid: fid,
+                p_perfect: session.perfect,
+                p_correct: session.correctAnswers,
+                p_wrong: session.wrongAnswers,
+                p_total_time: session.totalTime,
+            })
             .single();
 
-        if (existing) {
-            // Update existing record
-            const newTotal = existing.total_tokens + amount;
-            await supabase
-                .from('player_tokens')
-                .update({ total_tokens: newTotal })
-                .eq('fid', fid);
-            return newTotal;
-        } else {
-            // Insert new record
-            await supabase
-                .from('player_tokens')
-                .insert({ fid, total_tokens: amount });
-            return amount;
+        if (error || !data) {
+            throw error;
         }
+
+        return toLifetimeStats(data as PlayerStatsRow);
     } catch (error) {
-        console.error('Error adding player tokens:', error);
-        return 0;
+        console.error('Error recording player stats:', error);
+        return null;
+    }
+}
+
+export interface PlayerProfile {
+    fid: number;
+    username: string | null;
+    displayName: string | null;
+    pfpUrl: string | null;
+}
+
+// Trim a client-supplied profile field; drops anything that isn't a short string
+function cleanProfileText(value: unknown, maxLength: number): string | null {
+    if (typeof value !== 'string') return null;
+    const trimmed = value.trim();
+    return trimmed ? trimmed.slice(0, maxLength) : null;
+}
+
+// Build a profile for a verified fid from SDK context fields
+export function sanitizePlayerProfile(fid: number, input: unknown): PlayerProfile {
+    const fields = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+    const pfpUrl = cleanProfileText(fields.pfpUrl, 512);
+
+    return {
+        fid,
+        username: cleanProfileText(fields.username, 64),
+        displayName: cleanProfileText(fields.displayName, 64),
+        pfpUrl: pfpUrl && pfpUrl.startsWith('https://') ? pfpUrl : null,
+    };
+}
+
+// Cache a player's profile
+export async function upsertPlayerProfile(profile: PlayerProfile): Promise<void> {
+    try {
+        const supabase = getSupabaseClient();
+        const { error } = await supabase
+            .from('player_profiles')
+            .upsert({
+                fid: profile.fid,
+                username: profile.username,
+                display_name: profile.displayName,
+                pfp_url: profile.pfpUrl,
+            }, { onConflict: 'fid' });
+
+        if (error) {
+            throw error;
+        }
+    } catch (error) {
+        console.error('Error saving player profile:', error);
     }
 }
 
-// Get leaderboard (top 10 players)
-export async function getLeaderboard(): Promise<{ fid: number; total_tokens: number }[]> {
+// Get cached profiles for a set of fids
+export async function getPlayerProfiles(fids: number[]): Promise<Map<number, PlayerProfile>> {
+    const profiles = new Map<number, PlayerProfile>();
+    if (fids.length === 0) return profiles;
+
     try {
         const supabase = getSupabaseClient();
         const { data, error } = await supabase
-            .from('player_tokens')
-            .select('fid, total_tokens')
-            .order('total_tokens', { ascending: false })
-            .limit(10);
+            .from('player_profiles')
+            .select('fid, username, display_name, pfp_url')
+            .in('fid', fids);
+
+        if (error || !data) {
+            return profiles;
+        }
+
+        for (const row of data) {
+            profiles.set(Number(row.fid), {
+                fid: Number(row.fid),
+                username: row.username,
+                displayName: row.display_name,
+                pfpUrl: row.pfp_url,
+            });
+        }
+    } catch (error) {
+        console.error('Error getting player profiles:', error);
+    }
+
+    return profiles;
+}
+
+export interface UnlockedAchievement {
+    id: string;
+    unlockedAt: string;
+}
+
+// Get every achievement a player has unlocked
+export async function getPlayerAchievements(fid: number): Promise<UnlockedAchievement[]> {
+    try {
+        const supabase = getSupabaseClient();
+        const { data, error } = await supabase
+            .from('achievements')
+            .select('achievement_id, unlocked_at')
+            .eq('fid', fid)
+            .order('unlocked_at', { ascending: true });
 
         if (error || !data) {
             return [];
         }
 
-        return data;
+        return data.map(row => ({ id: row.achievement_id, unlockedAt: row.unlocked_at }));
     } catch (error) {
-        console.error('Error getting leaderboard:', error);
+        console.error('Error getting player achievements:', error);
+        return [];
+    }
+}
+
+// Store achievements and return the ones that weren't unlocked before
+export async function unlockAchievements(fid: number, sessionId: string | null, ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+
+    try {
+        const supabase = getSupabaseClient();
+        const { data, error } = await supabase
+            .from('achievements')
+            .upsert(
+                ids.map(id => ({ fid, achievement_id: id, session_id: sessionId })),
+                { onConflict: 'fid,achievement_id', ignoreDuplicates: true }
+            )
+            .select('achievement_id');
+
+        if (error) {
+            throw error;
+        }
+
+        // Duplicates are skipped by ON CONFLICT DO NOTHING, so only new rows come back
+        return (data || []).map(row => row.achievement_id);
+    } catch (error) {
+        console.error('Error unlocking achievements:', error);
         return [];
     }
 }
+
+export interface PlayerListing extends PlayerProfile {
+    totalTokens: number;
+}
+
+// Page through players by fid, optionally filtered by fid or username/display name.
+// cursor is the last fid already shown.
+export async function searchPlayers(options: {
+    query?: string | null;
+    cursor?: number;
+    limit?: number;
+} = {}): Promise<{ players: PlayerListing[]; nextCursor: number | null }> {
+    const { cursor = 0, limit = 20 } = options;
+    // Only characters that are safe inside a PostgREST filter
+    const query = (options.query ?? '').replace(/[^\w.-]/g, '').slice(0, 64);
+
+    try {
+        const supabase = getSupabaseClient();
+        let fids: number[];
+
+        if (query) {
+            const filters = [`username.ilike.%${query}%`, `display_name.ilike.%${query}%`];
+            if (/^\d+$/.test(query)) {
+                filters.push(`fid.eq.${query}`);
+            }
+
+            const { data, error } = await supabase
+                .from('player_profiles')
+                .select('fid')
+                .or(filters.join(','))
+                .gt('fid', cursor)
+                .order('fid', { ascending: true })
+                .limit(limit + 1);
+
+            if (error) throw error;
+            fids = (data ?? []).map(row => Number(row.fid));
+        } else {
+            const { data, error } = await supabase
+                .from('player_tokens')
+                .select('fid')
+                .gt('fid', cursor)
+                .order('fid', { ascending: true })
+                .limit(limit + 1);
+
+            if (error) throw error;
+            fids = (data ?? []).map(row => Number(row.fid));
+        }
+
+        const page = fids.slice(0, limit);
+        const [profiles, { data: balances }] = await Promise.all([
+            getPlayerProfiles(page),
+            supabase.from('player_tokens').select('fid, total_tokens').in('fid', page),
+        ]);
+        const tokens = new Map((balances ?? []).map(row => [Number(row.fid), Number(row.total_tokens)]));
+
+        return {
+            players: page.map(fid => ({
+                fid,
+                username: profiles.get(fid)?.username ?? null,
+                displayName: profiles.get(fid)?.displayName ?? null,
+                pfpUrl: profiles.get(fid)?.pfpUrl ?? null,
+                totalTokens: tokens.get(fid) ?? 0,
+            })),
+            nextCursor: fids.length > limit ? page[page.length - 1] : null,
+        };
+    } catch (error) {
+        console.error('Error searching players:', error);
+        return { players: [], nextCursor: null };
+    }
+}
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all';
+
+export interface LeaderboardEntry {
+    rank: number;
+    fid: number;
+    total_tokens: number;
+    achieved_at: string;  // When the player reached this total (earlier wins ties)
+}
+
+export interface LeaderboardProfileFields {
+    username: string | null;
+    display_name: string;  // Falls back to `fid:12345` for unknown profiles
+    pfp_url: string | null;
+}
+
+export type LeaderboardEntryWithProfile = LeaderboardEntry & LeaderboardProfileFields;
+
+// Attach cached profile fields to leaderboard rows
+export async function attachProfiles<T extends { fid: number }>(entries: T[]): Promise<(T & LeaderboardProfileFields)[]> {
+    const profiles = await getPlayerProfiles(entries.map(entry => entry.fid));
+
+    return entries.map(entry => {
+        const profile = profiles.get(entry.fid);
+        return {
+            ...entry,
+            username: profile?.username ?? null,
+            display_name: profile?.displayName || profile?.username || `fid:${entry.fid}`,
+            pfp_url: profile?.pfpUrl ?? null,
+        };
+    });
+}
+
+// Start of the current UTC day / week (Monday); null for all-time
+export function getPeriodStart(period: LeaderboardPeriod, now: Date = new Date()): Date | null {
+    if (period === 'all') return null;
+
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    if (period === 'weekly') {
+        start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    }
+    return start;
+}
+
+function leaderboardQuery(period: LeaderboardPeriod) {
+    const since = getPeriodStart(period);
+    return getSupabaseClient().rpc('leaderboard_window', {
+        p_since: since ? since.toISOString() : null,
+    });
+}
+
+function toLeaderboardEntry(row: LeaderboardEntry): LeaderboardEntry {
+    return {
+        rank: Number(row.rank),
+        fid: Number(row.fid),
+        total_tokens: Number(row.total_tokens),
+        achieved_at: row.achieved_at,
+    };
+}
+
+// Get a page of the leaderboard; cursor is the last rank already shown
+export async function getLeaderboard(options: {
+    period?: LeaderboardPeriod;
+    cursor?: number;
+    limit?: number;
+} = {}): Promise<{ entries: LeaderboardEntry[]; nextCursor: number | null }> {
+    const { period = 'all', cursor = 0, limit = 10 } = options;
+
+    try {
+        const { data, error } = await leaderboardQuery(period)
+            .gt('rank', cursor)
+            .order('rank', { ascending: true })
+            .limit(limit + 1);
+
+        if (error || !data) {
+            return { entries: [], nextCursor: null };
+        }
+
+        const entries = (data as LeaderboardEntry[]).slice(0, limit).map(toLeaderboardEntry);
+        const hasMore = data.length > limit;
+
+        return {
+            entries,
+            nextCursor: hasMore ? entries[entries.length - 1].rank : null,
+        };
+    } catch (error) {
+        console.error('Error getting leaderboard:', error);
+        return { entries: [], nextCursor: null };
+    }
+}
+
+// Get a player's rank and the players right around them
+export async function getPlayerRank(
+    fid: number,
+    period: LeaderboardPeriod = 'all',
+    neighbors: number = 2
+): Promise<{ entry: LeaderboardEntry | null; neighbors: LeaderboardEntry[] }> {
+    try {
+        const { data, error } = await leaderboardQuery(period)
+            .eq('fid', fid)
+            .maybeSingle();
+
+        if (error || !data) {
+            return { entry: null, neighbors: [] };
+        }
+
+        const entry = toLeaderboardEntry(data as LeaderboardEntry);
+        const { data: around } = await leaderboardQuery(period)
+            .gte('rank', Math.max(1, entry.rank - neighbors))
+            .lte('rank', entry.rank + neighbors)
+            .order('rank', { ascending: true });
+
+        return {
+            entry,
+            neighbors: ((around || []) as LeaderboardEntry[]).map(toLeaderboardEntry),
+        };
+    } catch (error) {
+        console.error('Error getting player rank:', error);
+        return { entry: null, neighbors: [] };
+    }
+}
+
+export interface DailyChallengeEntry {
+    rank: number;
+    fid: number;
+    correct_answers: number;
+    total_time: number;
+    finished_at: string;
+}
+
+function dailyChallengeQuery(challengeDate: string) {
+    return getSupabaseClient().rpc('daily_challenge_leaderboard', { p_date: challengeDate });
+}
+
+function toDailyChallengeEntry(row: DailyChallengeEntry): DailyChallengeEntry {
+    return {
+        rank: Number(row.rank),
+        fid: Number(row.fid),
+        correct_answers: row.correct_answers,
+        total_time: row.total_time,
+        finished_at: row.finished_at,
+    };
+}
+
+// Get a page of a day's challenge leaderboard; cursor is the last rank already shown
+export async function getDailyChallengeLeaderboard(options: {
+    challengeDate: string;
+    cursor?: number;
+    limit?: number;
+}): Promise<{ entries: DailyChallengeEntry[]; nextCursor: number | null }> {
+    const { challengeDate, cursor = 0, limit = 10 } = options;
+
+    try {
+        const { data, error } = await dailyChallengeQuery(challengeDate)
+            .gt('rank', cursor)
+            .order('rank', { ascending: true })
+            .limit(limit + 1);
+
+        if (error || !data) {
+            return { entries: [], nextCursor: null };
+        }
+
+        const entries = (data as DailyChallengeEntry[]).slice(0, limit).map(toDailyChallengeEntry);
+        const hasMore = data.length > limit;
+
+        return {
+            entries,
+            nextCursor: hasMore ? entries[entries.length - 1].rank : null,
+        };
+    } catch (error) {
+        console.error('Error getting daily challenge leaderboard:', error);
+        return { entries: [], nextCursor: null };
+    }
+}
+
+// Get a player's entry on a day's challenge leaderboard
+export async function getDailyChallengeRank(fid: number, challengeDate: string): Promise<DailyChallengeEntry | null> {
+    try {
+        const { data, error } = await dailyChallengeQuery(challengeDate)
+            .eq('fid', fid)
+            .maybeSingle();
+
+        if (error || !data) {
+            return null;
+        }
+
+        return toDailyChallengeEntry(data as DailyChallengeEntry);
+    } catch (error) {
+        console.error('Error getting daily challenge rank:', error);
+        return null;
+    }
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    Duel,
+    advanceDuel,
+    answerDuelRound,
+    createDuel,
+    createMemoryDuelStore,
+    findOpenDuel,
+    getDuelRound,
+    getDuelTimings,
+    getDuelView,
+    joinDuel,
+    loadDuel,
+    setDuelStore,
+} from './duels';
+import { DUEL_COUNTDOWN_MS, DUEL_LOBBY_MINUTES, ROUND_TRANSITION_MS } from './gameLogic';
+
+const HOST = 1;
+const GUEST = 2;
+
+// A duel both players have joined, with round 1 about to start
+async function startDuel(now: Date): Promise<Duel> {
+    const duel = await createDuel(HOST, 'standard');
+    const joined = await joinDuel(duel, GUEST, now);
+    if (!joined) throw new Error('join failed');
+    return joined;
+}
+
+describe('duels', () => {
+    beforeEach(() => {
+        setDuelStore(createMemoryDuelStore());
+    });
+
+    afterEach(() => {
+        setDuelStore(null);
+    });
+
+    it('matches a second player into an open lobby once', async () => {
+        const duel = await createDuel(HOST, 'standard');
+
+        expect(await findOpenDuel('standard', HOST)).toBeNull();
+        expect((await findOpenDuel('standard', GUEST))?.id).toBe(duel.id);
+
+        const now = new Date();
+        const joined = await joinDuel(duel, GUEST, now);
+        expect(joined).toMatchObject({ status: 'active', round: 1, guestFid: GUEST });
+        expect(joined?.roundStartedAt?.getTime()).toBe(now.getTime() + DUEL_COUNTDOWN_MS);
+
+        expect(await joinDuel(duel, 3, now)).toBeNull();
+        expect(await findOpenDuel('standard', 3)).toBeNull();
+    });
+
+    it('cancels a lobby nobody joined in time', async () => {
+        const duel = await createDuel(HOST, 'standard');
+        const later = new Date(duel.createdAt.getTime() + DUEL_LOBBY_MINUTES * 60 * 1000 + 1);
+
+        expect(await joinDuel(duel, GUEST, later)).toBeNull();
+        expect((await advanceDuel(duel, [], later)).status).toBe('cancelled');
+    });
+
+    it('gives a round to the faster correct answer and moves on', async () => {
+        const duel = await startDuel(new Date());
+        const timings = getDuelTimings(duel)!;
+        const { fakeNumbers } = getDuelRound(duel, 1);
+
+        expect(await answerDuelRound(duel, HOST, fakeNumbers, 900, false)).toBe(true);
+        expect(await answerDuelRound(duel, HOST, [], 1000, false)).toBe(false);
+        expect(await answerDuelRound(duel, GUEST, fakeNumbers, 1200, false)).toBe(true);
+
+        const answeredAt = new Date(timings.optionsAvailableAt + 1200);
+        const loaded = await loadDuel(duel.id, answeredAt);
+
+        expect(loaded?.duel.round).toBe(2);
+        expect(loaded?.duel.roundStartedAt?.getTime()).toBe(answeredAt.getTime() + ROUND_TRANSITION_MS);
+
+        const view = getDuelView(loaded!.duel, loaded!.answers, GUEST, new Map(), answeredAt);
+        expect(view.results).toHaveLength(1);
+        expect(view.results[0].winnerFid).toBe(HOST);
+        expect(view.players.map(player => player.wins)).toEqual([1, 0]);
+    });
+
+    it('shows numbers, then options, and keeps the seed hidden while the duel runs', async () => {
+        const duel = await startDuel(new Date());
+        const timings = getDuelTimings(duel)!;
+        const view = (at: number) => getDuelView(duel, [], HOST, new Map(), new Date(at));
+
+        expect(view(timings.roundStartsAt - 1)).toMatchObject({ numbers: null, options: null, seed: null });
+        expect(view(timings.roundStartsAt)).toMatchObject({ numbers: getDuelRound(duel, 1).shownNumbers, options: null });
+        expect(view(timings.optionsAvailableAt).options).toEqual(getDuelRound(duel, 1).selectionOptions);
+        expect(view(timings.optionsAvailableAt).seed).toBeNull();
+    });
+});
@@ -0,0 +1,635 @@
+import { creditTokens, getPlayerProfiles, getSupabaseClient, holdTokens, isSupabaseConfigured } from './db';
+import {
+    generateNonce,
+    generateRound,
+    getRoundConfig,
+    getRoundTimings,
+    getSuspicionScore,
+    getTotalRounds,
+    isCorrectSelection,
+    isSuspicious,
+    CLOCK_GRACE_MS,
+    DUEL_COUNTDOWN_MS,
+    DUEL_LOBBY_MINUTES,
+    DUEL_POT_TOKENS,
+    ROUND_TRANSITION_MS,
+    type Difficulty
+} from './gameLogic';
+import { createRoundRng, hashSeed } from './rng';
+import { getPlayerName } from './share';
+
+// Two players race through the same rounds; the fastest correct answer takes each round
+export type DuelStatus = 'waiting' | 'active' | 'finished' | 'cancelled';
+
+export interface Duel {
+    id: string;
+    hostFid: number;
+    guestFid: number | null;    // Null while the lobby is open
+    difficulty: Difficulty;
+    totalRounds: number;
+    seed: string;               // Secret until the duel ends; rounds derive from it
+    seedCommitment: string;
+    status: DuelStatus;
+    round: number;              // Current round, 0 while waiting
+    roundStartedAt: Date | null;
+    winnerFid: number | null;   // Null on a draw
+    createdAt: Date;
+    finishedAt: Date | null;
+}
+
+// A player's answer to one duel round (first answer counts)
+export interface DuelAnswer {
+    duelId: string;
+    round: number;
+    fid: number;
+    selectedNumbers: number[] | null;  // Null when the answer window ran out
+    correct: boolean;
+    reactionMs: number;                // Options revealed -> answer, server-measured
+}
+
+export interface DuelRoundResult {
+    round: number;
+    winnerFid: number | null;   // Fastest correct answer; null if nobody got it right
+    fakeNumbers: number[];
+    answers: { fid: number; correct: boolean; reactionMs: number | null }[];  // reactionMs null: no answer
+}
+
+export interface DuelPlayer {
+    fid: number;
+    name: string;
+    wins: number;
+}
+
+// What players see of a duel: never the seed or an unresolved round's fakes
+export interface DuelView {
+    duelId: string;
+    status: DuelStatus;
+    difficulty: Difficulty;
+    totalRounds: number;
+    seedCommitment: string;
+    seed: string | null;        // Revealed once the duel is over
+    players: DuelPlayer[];      // Host first
+    round: number;
+    roundStartsAt: number | null;
+    optionsAvailableAt: number | null;
+    answerDeadline: number | null;
+    numbers: number[] | null;   // Once the round has started
+    options: number[] | null;   // Once the memorize window is over
+    fakeCount: number;
+    answered: boolean;          // The viewer already answered the current round
+    results: DuelRoundResult[];
+    winnerFid: number | null;
+    pot: number;
+    lobbyExpiresAt: number | null;
+    serverTime: number;
+}
+
+// Persistence for duels and their answers
+export interface DuelStore {
+    createDuel(duel: Duel): Promise<void>;
+    getDuel(duelId: string): Promise<Duel | null>;
+    findOpenDuel(difficulty: Difficulty, excludeFid: number, createdAfter: Date): Promise<Duel | null>;
+    joinDuel(duelId: string, guestFid: number, roundStartedAt: Date): Promise<Duel | null>;  // Null if no longer open
+    updateDuel(duel: Duel, updates: Partial<Duel>): Promise<Duel | null>;  // Null if someone else moved it first
+    recordAnswer(answer: DuelAnswer): Promise<boolean>;  // False if the player already answered
+    getAnswers(duelId: string): Promise<DuelAnswer[]>;
+}
+
+// Duel tables (answers reference their duel):
+/*
+CREATE TABLE IF NOT EXISTS duels (
+    id TEXT PRIMARY KEY,
+    host_fid BIGINT NOT NULL,
+    guest_fid BIGINT,
+    difficulty TEXT NOT NULL DEFAULT 'standard',
+    total_rounds INTEGER NOT NULL,
+    seed TEXT NOT NULL,
+    seed_commitment TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'active', 'finished', 'cancelled')),
+    round INTEGER NOT NULL DEFAULT 0,
+    round_started_at TIMESTAMP WITH TIME ZONE,
+    winner_fid BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS duels_open_idx ON duels (difficulty, created_at) WHERE status = 'waiting';
+
+CREATE TABLE IF NOT EXISTS duel_answers (
+    duel_id TEXT NOT NULL REFERENCES duels (id),
+    round INTEGER NOT NULL,
+    fid BIGINT NOT NULL,
+    selected_numbers INTEGER[],
+    correct BOOLEAN NOT NULL,
+    reaction_ms INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (duel_id, round, fid)
+);
+*/
+
+interface DuelRow {
+    id: string;
+    host_fid: number;
+    guest_fid: number | null;
+    difficulty: Difficulty;
+    total_rounds: number;
+    seed: string;
+    seed_commitment: string;
+    status: DuelStatus;
+    round: number;
+    round_started_at: string | null;
+    winner_fid: number | null;
+    created_at: string;
+    finished_at: string | null;
+}
+
+interface DuelAnswerRow {
+    duel_id: string;
+    round: number;
+    fid: number;
+    selected_numbers: number[] | null;
+    correct: boolean;
+    reaction_ms: number;
+}
+
+function duelFromRow(row: DuelRow): Duel {
+    return {
+        id: row.id,
+        hostFid: Number(row.host_fid),
+        guestFid: row.guest_fid === null ? null : Number(row.guest_fid),
+        difficulty: row.difficulty,
+        totalRounds: row.total_rounds,
+        seed: row.seed,
+        seedCommitment: row.seed_commitment,
+        status: row.status,
+        round: row.round,
+        roundStartedAt: row.round_started_at ? new Date(row.round_started_at) : null,
+        winnerFid: row.winner_fid === null ? null : Number(row.winner_fid),
+        createdAt: new Date(row.created_at),
+        finishedAt: row.finished_at ? new Date(row.finished_at) : null,
+    };
+}
+
+function duelToRow(duel: Partial<Duel>): Partial<DuelRow> {
+    const row: Partial<DuelRow> = {};
+    if (duel.id !== undefined) row.id = duel.id;
+    if (duel.hostFid !== undefined) row.host_fid = duel.hostFid;
+    if (duel.guestFid !== undefined) row.guest_fid = duel.guestFid;
+    if (duel.difficulty !== undefined) row.difficulty = duel.difficulty;
+    if (duel.totalRounds !== undefined) row.total_rounds = duel.totalRounds;
+    if (duel.seed !== undefined) row.seed = duel.seed;
+    if (duel.seedCommitment !== undefined) row.seed_commitment = duel.seedCommitment;
+    if (duel.status !== undefined) row.status = duel.status;
+    if (duel.round !== undefined) row.round = duel.round;
+    if (duel.roundStartedAt !== undefined) row.round_started_at = duel.roundStartedAt?.toISOString() ?? null;
+    if (duel.winnerFid !== undefined) row.winner_fid = duel.winnerFid;
+    if (duel.createdAt !== undefined) row.created_at = duel.createdAt.toISOString();
+    if (duel.finishedAt !== undefined) row.finished_at = duel.finishedAt?.toISOString() ?? null;
+    return row;
+}
+
+function answerFromRow(row: DuelAnswerRow): DuelAnswer {
+    return {
+        duelId: row.duel_id,
+        round: row.round,
+        fid: Number(row.fid),
+        selectedNumbers: row.selected_numbers,
+        correct: row.correct,
+        reactionMs: row.reaction_ms,
+    };
+}
+
+// In-memory store (single instance only: local development)
+export function createMemoryDuelStore(): DuelStore {
+    const duels = new Map<string, Duel>();
+    const answers = new Map<string, DuelAnswer>();
+
+    return {
+        async createDuel(duel) {
+            duels.set(duel.id, duel);
+        },
+
+        async getDuel(duelId) {
+            return duels.get(duelId) ?? null;
+        },
+
+        async findOpenDuel(difficulty, excludeFid, createdAfter) {
+            return Array.from(duels.values())
+                .filter(duel => duel.status === 'waiting' && duel.difficulty === difficulty
+                    && duel.hostFid !== excludeFid && duel.createdAt > createdAfter)
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0] ?? null;
+        },
+
+        async joinDuel(duelId, guestFid, roundStartedAt) {
+            const duel = duels.get(duelId);
+            if (!duel || duel.status !== 'waiting' || duel.hostFid === guestFid) return null;
+
+            const joined: Duel = { ...duel, guestFid, status: 'active', round: 1, roundStartedAt };
+            duels.set(duelId, joined);
+            return joined;
+        },
+
+        async updateDuel(duel, updates) {
+            const current = duels.get(duel.id);
+            if (!current || current.status !== duel.status || current.round !== duel.round) return null;
+
+            const updated = { ...current, ...updates };
+            duels.set(duel.id, updated);
+            return updated;
+        },
+
+        async recordAnswer(answer) {
+            const key = `${answer.duelId}:${answer.round}:${answer.fid}`;
+            if (answers.has(key)) return false;
+
+            answers.set(key, answer);
+            return true;
+        },
+
+        async getAnswers(duelId) {
+            return Array.from(answers.values()).filter(answer => answer.duelId === duelId);
+        },
+    };
+}
+
+// Postgres store (shared across serverless instances)
+export function createPostgresDuelStore(): DuelStore {
+    return {
+        async createDuel(duel) {
+            const { error } = await getSupabaseClient()
+                .from('duels')
+                .insert(duelToRow(duel));
+
+            if (error) throw error;
+        },
+
+        async getDuel(duelId) {
+            const { data, error } = await getSupabaseClient()
+                .from('duels')
+                .select('*')
+                .eq('id', duelId)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data ? duelFromRow(data as DuelRow) : null;
+        },
+
+        async findOpenDuel(difficulty, excludeFid, createdAfter) {
+            const { data, error } = await getSupabaseClient()
+                .from('duels')
+                .select('*')
+                .eq('status', 'waiting')
+                .eq('difficulty', difficulty)
+                .neq('host_fid', excludeFid)
+                .gt('created_at', createdAfter.toISOString())
+                .order('created_at', { ascending: true })
+                .limit(1)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data ? duelFromRow(data as DuelRow) : null;
+        },
+
+        async joinDuel(duelId, guestFid, roundStartedAt) {
+            // Only one player can take an open lobby
+            const { data, error } = await getSupabaseClient()
+                .from('duels')
+                .update({ guest_fid: guestFid, status: 'active', round: 1, round_started_at: roundStartedAt.toISOString() })
+                .eq('id', duelId)
+                .eq('status', 'waiting')
+                .neq('host_fid', guestFid)
+                .select('*')
+                .maybeSingle();
+
+            if (error) throw error;
+            return data ? duelFromRow(data as DuelRow) : null;
+        },
+
+        async updateDuel(duel, updates) {
+            // Compare-and-set on (status, round) so concurrent instances advance a duel once
+            const { data, error } = await getSupabaseClient()
+                .from('duels')
+                .update(duelToRow(updates))
+                .eq('id', duel.id)
+                .eq('status', duel.status)
+                .eq('round', duel.round)
+                .select('*')
+                .maybeSingle();
+
+            if (error) throw error;
+            return data ? duelFromRow(data as DuelRow) : null;
+        },
+
+        async recordAnswer(answer) {
+            const { error } = await getSupabaseClient()
+                .from('duel_answers')
+                .insert({
+                    duel_id: answer.duelId,
+                    round: answer.round,
+                    fid: answer.fid,
+                    selected_numbers: answer.selectedNumbers,
+                    correct: answer.correct,
+                    reaction_ms: answer.reactionMs,
+                });
+
+            if (error) {
+                // Unique violation: this round is already answered
+                if (error.code === '23505') return false;
+                throw error;
+            }
+
+            return true;
+        },
+
+        async getAnswers(duelId) {
+            const { data, error } = await getSupabaseClient()
+                .from('duel_answers')
+                .select('*')
+                .eq('duel_id', duelId);
+
+            if (error) throw error;
+            return ((data ?? []) as DuelAnswerRow[]).map(answerFromRow);
+        },
+    };
+}
+
+let duelStore: DuelStore | null = null;
+
+// Postgres when Supabase is configured, memory otherwise (DUEL_STORE overrides)
+export function getDuelStore(): DuelStore {
+    if (!duelStore) {
+        const backend = process.env.DUEL_STORE || (isSupabaseConfigured() ? 'postgres' : 'memory');
+        duelStore = backend === 'postgres'
+            ? createPostgresDuelStore()
+            : createMemoryDuelStore();
+    }
+    return duelStore;
+}
+
+// Override the duel store (tests)
+export function setDuelStore(store: DuelStore | null): void {
+    duelStore = store;
+}
+
+// Open a lobby for the host; round 1 is scheduled when someone joins
+export async function createDuel(hostFid: number, difficulty: Difficulty): Promise<Duel> {
+    const seed = generateNonce() + generateNonce();
+    const duel: Duel = {
+        id: generateNonce(),
+        hostFid,
+        guestFid: null,
+        difficulty,
+        totalRounds: getTotalRounds(difficulty),
+        seed,
+        seedCommitment: await hashSeed(seed),
+        status: 'waiting',
+        round: 0,
+        roundStartedAt: null,
+        winnerFid: null,
+        createdAt: new Date(),
+        finishedAt: null,
+    };
+
+    await getDuelStore().createDuel(duel);
+    return duel;
+}
+
+// Oldest open lobby someone else is waiting in
+export async function findOpenDuel(difficulty: Difficulty, fid: number, now: Date = new Date()): Promise<Duel | null> {
+    return getDuelStore().findOpenDuel(difficulty, fid, new Date(now.getTime() - DUEL_LOBBY_MINUTES * 60 * 1000));
+}
+
+// Take the second seat; null if the lobby is gone, full or expired
+export async function joinDuel(duel: Duel, guestFid: number, now: Date = new Date()): Promise<Duel | null> {
+    if (isLobbyExpired(duel, now)) return null;
+    return getDuelStore().joinDuel(duel.id, guestFid, new Date(now.getTime() + DUEL_COUNTDOWN_MS));
+}
+
+// Close an open lobby; false once someone has joined
+export async function cancelDuel(duel: Duel): Promise<boolean> {
+    if (duel.status !== 'waiting') return false;
+    return Boolean(await getDuelStore().updateDuel(duel, { status: 'cancelled', finishedAt: new Date() }));
+}
+
+function isLobbyExpired(duel: Duel, now: Date): boolean {
+    return duel.status === 'waiting' && now.getTime() > getLobbyExpiry(duel);
+}
+
+function getLobbyExpiry(duel: Duel): number {
+    return duel.createdAt.getTime() + DUEL_LOBBY_MINUTES * 60 * 1000;
+}
+
+export function isDuelPlayer(duel: Duel, fid: number): boolean {
+    return duel.hostFid === fid || duel.guestFid === fid;
+}
+
+// Numbers and options of a round, regenerated from the seed
+export function getDuelRound(duel: Duel, round: number) {
+    return generateRound(getRoundConfig(round, duel.difficulty), createRoundRng(duel.seed, round));
+}
+
+// Server deadlines of the current round
+export function getDuelTimings(duel: Duel) {
+    if (!duel.roundStartedAt) return null;
+    return getRoundTimings(duel.roundStartedAt, getRoundConfig(duel.round, duel.difficulty).displayTime);
+}
+
+// Score a round: the fastest correct answer wins it (an exact tie goes to nobody)
+export function resolveDuelRound(duel: Duel, round: number, answers: DuelAnswer[]): DuelRoundResult {
+    const players = [duel.hostFid, duel.guestFid].filter((fid): fid is number => fid !== null);
+    const roundAnswers = answers.filter(answer => answer.round === round);
+    const correct = roundAnswers
+        .filter(answer => answer.correct)
+        .sort((a, b) => a.reactionMs - b.reactionMs);
+
+    const tied = correct.length > 1 && correct[0].reactionMs === correct[1].reactionMs;
+
+    return {
+        round,
+        winnerFid: correct.length > 0 && !tied ? correct[0].fid : null,
+        fakeNumbers: getDuelRound(duel, round).fakeNumbers,
+        answers: players.map(fid => {
+            const answer = roundAnswers.find(entry => entry.fid === fid);
+            return { fid, correct: answer?.correct ?? false, reactionMs: answer?.reactionMs ?? null };
+        }),
+    };
+}
+
+// Round wins per player; the duel goes to whoever took more rounds
+function getDuelWinner(duel: Duel, results: DuelRoundResult[]): number | null {
+    const wins = (fid: number | null) => results.filter(result => result.winnerFid === fid).length;
+    const hostWins = wins(duel.hostFid);
+    const guestWins = wins(duel.guestFid);
+
+    if (hostWins === guestWins) return null;
+    return hostWins > guestWins ? duel.hostFid : duel.guestFid;
+}
+
+// When the current round stops taking answers: both answered, or the deadline passed
+function getRoundResolvedAt(duel: Duel, answers: DuelAnswer[], now: Date): number | null {
+    const timings = getDuelTimings(duel);
+    if (!timings) return null;
+
+    const answeredBy = new Set(answers.filter(answer => answer.round === duel.round).map(answer => answer.fid));
+    if (answeredBy.has(duel.hostFid) && duel.guestFid !== null && answeredBy.has(duel.guestFid)) {
+        return now.getTime();
+    }
+
+    const timeoutAt = timings.answerDeadline + CLOCK_GRACE_MS;
+    return now.getTime() > timeoutAt ? timeoutAt : null;
+}
+
+// Pay the pot, or hold it when the winner's reaction times look automated
+async function payDuelPot(duel: Duel, winnerFid: number, answers: DuelAnswer[]): Promise<void> {
+    const credit = { fid: winnerFid, sessionId: `duel:${duel.id}`, round: 0, reason: 'duel_pot' as const, amount: DUEL_POT_TOKENS };
+    const suspicionScore = getSuspicionScore(answers.filter(answer => answer.fid === winnerFid));
+
+    try {
+        if (isSuspicious(suspicionScore)) {
+            await holdTokens(credit, suspicionScore);
+        } else {
+            await creditTokens(credit);
+        }
+    } catch (error) {
+        console.error('Failed to pay duel pot:', error);
+    }
+}
+
+// Move a duel forward to where the clock says it should be. Rounds resolve once both players
+// answered or the deadline passed, even if nobody was connected at the time.
+export async function advanceDuel(duel: Duel, answers: DuelAnswer[], now: Date = new Date()): Promise<Duel> {
+    let current = duel;
+
+    if (isLobbyExpired(current, now)) {
+        return (await getDuelStore().updateDuel(current, { status: 'cancelled', finishedAt: now }))
+            ?? (await getDuelStore().getDuel(duel.id)) ?? current;
+    }
+
+    while (current.status === 'active') {
+        const resolvedAt = getRoundResolvedAt(current, answers, now);
+        if (resolvedAt === null) break;
+
+        const finished = current.round >= current.totalRounds;
+        const updates: Partial<Duel> = finished
+            ? {
+                status: 'finished',
+                winnerFid: getDuelWinner(current, getResolvedRounds(current, answers, true)),
+                finishedAt: new Date(resolvedAt),
+            }
+            : {
+                round: current.round + 1,
+                roundStartedAt: new Date(resolvedAt + ROUND_TRANSITION_MS),
+            };
+
+        const updated = await getDuelStore().updateDuel(current, updates);
+        if (!updated) {
+            // Another request advanced it first; continue from its state
+            const reloaded = await getDuelStore().getDuel(duel.id);
+            if (!reloaded || (reloaded.status === current.status && reloaded.round === current.round)) break;
+            current = reloaded;
+            continue;
+        }
+
+        if (finished && updated.winnerFid !== null) {
+            await payDuelPot(updated, updated.winnerFid, answers);
+        }
+        current = updated;
+    }
+
+    return current;
+}
+
+// Rounds that are over: every round before the current one, or all of them once the duel ends
+function getResolvedRounds(duel: Duel, answers: DuelAnswer[], includeCurrent: boolean = duel.status === 'finished'): DuelRoundResult[] {
+    const count = includeCurrent ? duel.round : Math.max(0, duel.round - 1);
+    return Array.from({ length: count }, (_, i) => resolveDuelRound(duel, i + 1, answers));
+}
+
+// Load a duel and its answers, advanced to the current time
+export async function loadDuel(duelId: string, now: Date = new Date()): Promise<{ duel: Duel; answers: DuelAnswer[] } | null> {
+    const duel = await getDuelStore().getDuel(duelId);
+    if (!duel) return null;
+
+    const answers = await getDuelStore().getAnswers(duelId);
+    return { duel: await advanceDuel(duel, answers, now), answers };
+}
+
+// Record a player's answer to the current round; the caller checks the round is open
+export async function answerDuelRound(
+    duel: Duel,
+    fid: number,
+    selectedNumbers: number[] | null,
+    reactionMs: number,
+    timedOut: boolean
+): Promise<boolean> {
+    const { fakeNumbers } = getDuelRound(duel, duel.round);
+
+    return getDuelStore().recordAnswer({
+        duelId: duel.id,
+        round: duel.round,
+        fid,
+        selectedNumbers,
+        correct: !timedOut && isCorrectSelection(selectedNumbers ?? [], fakeNumbers),
+        reactionMs,
+    });
+}
+
+// Display names for the players of a duel
+export async function getDuelPlayerNames(duel: Duel): Promise<Map<number, string>> {
+    const fids = [duel.hostFid, duel.guestFid].filter((fid): fid is number => fid !== null);
+    const profiles = await getPlayerProfiles(fids);
+    return new Map(fids.map(fid => [fid, getPlayerName(fid, profiles.get(fid))]));
+}
+
+// Build what a player sees of the duel at `now`
+export function getDuelView(
+    duel: Duel,
+    answers: DuelAnswer[],
+    viewerFid: number,
+    names: Map<number, string>,
+    now: Date = new Date()
+): DuelView {
+    const results = getResolvedRounds(duel, answers);
+    const timings = duel.status === 'active' ? getDuelTimings(duel) : null;
+    const round = timings && now.getTime() >= timings.roundStartsAt ? getDuelRound(duel, duel.round) : null;
+    const fids = [duel.hostFid, duel.guestFid].filter((fid): fid is number => fid !== null);
+
+    return {
+        duelId: duel.id,
+        status: duel.status,
+        difficulty: duel.difficulty,
+        totalRounds: duel.totalRounds,
+        seedCommitment: duel.seedCommitment,
+        seed: duel.status === 'finished' ? duel.seed : null,
+        players: fids.map(fid => ({
+            fid,
+            name: names.get(fid) ?? `fid:${fid}`,
+            wins: results.filter(result => result.winnerFid === fid).length,
+        })),
+        round: duel.round,
+        roundStartsAt: timings?.roundStartsAt ?? null,
+        optionsAvailableAt: timings?.optionsAvailableAt ?? null,
+        answerDeadline: timings?.answerDeadline ?? null,
+        numbers: round?.shownNumbers ?? null,
+        options: round && timings && now.getTime() >= timings.optionsAvailableAt ? round.selectionOptions : null,
+        fakeCount: getRoundConfig(Math.max(1, duel.round), duel.difficulty).fakeCount,
+        answered: answers.some(answer => answer.round === duel.round && answer.fid === viewerFid),
+        results,
+        winnerFid: duel.winnerFid,
+        pot: DUEL_POT_TOKENS,
+        lobbyExpiresAt: duel.status === 'waiting' ? getLobbyExpiry(duel) : null,
+        serverTime: now.getTime(),
+    };
+}
+
+// Name of the stream event a change between two views represents, null if nothing changed
+export function getDuelEvent(previous: DuelView | null, next: DuelView): string | null {
+    if (next.status === 'waiting') return previous?.status === 'waiting' && previous.players.length === next.players.length ? null : 'lobby';
+    if (next.status === 'finished' || next.status === 'cancelled') return previous?.status === next.status ? null : 'duel_end';
+    if (!previous || previous.status !== next.status) return 'matched';
+    if (next.results.length > previous.results.length) return 'round_result';
+    if (next.options && !previous.options) return 'reveal';
+    if (next.numbers && (!previous.numbers || next.round !== previous.round)) return 'round_start';
+    if (next.answered !== previous.answered) return 'answered';
+    return null;
+}
@@ -1,4 +1,5 @@
 import { sdk } from '@farcaster/miniapp-sdk';
+import { Hex } from 'ox';
 
 export interface FarcasterUser {
     fid: number;
@@ -50,8 +51,78 @@ export async function getUserContext(): Promise<FarcasterUser | null> {
     return null;
 }
 
-// Share game result via cast
-export async function shareResult(totalTime: number, perfectGame: boolean): Promise<void> {
+// Whether the client already sends this mini app's notifications
+export async function hasNotificationsEnabled(): Promise<boolean> {
+    if (typeof window === 'undefined') return false;
+
+    try {
+        const context = await sdk.context;
+        return Boolean(context?.client?.notificationDetails);
+    } catch {
+        return false;
+    }
+}
+
+// Ask the client to add the mini app with notifications (tokens arrive via /api/webhook)
+export async function enableNotifications(): Promise<boolean> {
+    if (typeof window === 'undefined') return false;
+
+    try {
+        const result = await sdk.actions.addMiniApp();
+        return Boolean(result.notificationDetails);
+    } catch (error) {
+        console.error('Failed to enable notifications:', error);
+        return false;
+    }
+}
+
+// Token for the local test key provider (used outside Farcaster)
+let localAuthToken: string | null = null;
+
+// Get a signed Quick Auth token for API requests
+export async function getAuthToken(user: FarcasterUser): Promise<string | null> {
+    if (typeof window === 'undefined') return null;
+
+    if (await isInFarcaster()) {
+        try {
+            const { token } = await sdk.quickAuth.getToken();
+            return token;
+        } catch (error) {
+            console.error('Failed to get Quick Auth token:', error);
+            return null;
+        }
+    }
+
+    // Outside Farcaster, the server may expose a local key provider for testing
+    if (!localAuthToken) {
+        try {
+            const res = await fetch(`/api/auth/local-token?fid=${user.fid}`);
+            if (res.ok) {
+                const data = await res.json();
+                localAuthToken = data.token;
+            }
+        } catch (error) {
+            console.error('Failed to get local auth token:', error);
+        }
+    }
+
+    return localAuthToken;
+}
+
+// Fetch with the player's auth token attached
+export async function authFetch(user: FarcasterUser, input: string, init: RequestInit = {}): Promise<Response> {
+    const token = await getAuthToken(user);
+    const headers = new Headers(init.headers);
+
+    if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+    }
+
+    return fetch(input, { ...init, headers });
+}
+
+// Share game result via cast, as a challenge link that replays the same rounds
+export async function shareResult(user: FarcasterUser, sessionId: string, totalTime: number, perfectGame: boolean): Promise<void> {
     if (typeof window === 'undefined') return;
 
     try {
@@ -60,17 +131,92 @@ export async function shareResult(totalTime: number, perfectGame: boolean): Prom
             ? `${totalTime} seconds`
             : `${Math.floor(totalTime / 60)}m ${totalTime % 60}s`;
 
-        const text = `🔒 I secured the connection in ${timeDisplay}.\n\nAccess level: ${accessLevel}\n\nCan you beat my time?\n\nhttps://farcaster.xyz/miniapps/cIo-J-RvhenI/terminal`;
-
-        await sdk.actions.composeCast({
-            text,
-            embeds: [],
+        // Fall back to the plain result card if the challenge can't be minted
+        let embed = `${window.location.origin}/share/${encodeURIComponent(sessionId)}`;
+        const response = await authFetch(user, '/api/challenge', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ sessionId }),
         });
+        if (response.ok) {
+            const { challengeId } = await response.json();
+            embed = `${window.location.origin}/challenge/${encodeURIComponent(challengeId)}`;
+        }
+
+        const text = `🔒 I secured the connection in ${timeDisplay}.\n\nAccess level: ${accessLevel}\n\nSame rounds, your move. Can you beat my time?`;
+
+        await sdk.actions.composeCast({ text, embeds: [embed] });
     } catch (error) {
         console.log('Failed to share result:', error);
     }
 }
 
+// Connected wallet from the client's Ethereum provider (asks the player to connect if needed)
+export async function getWalletAddress(): Promise<string | null> {
+    if (typeof window === 'undefined') return null;
+
+    try {
+        const provider = await sdk.wallet.getEthereumProvider();
+        if (!provider) return null;
+
+        const [address] = await provider.request({ method: 'eth_requestAccounts' });
+        return address ?? null;
+    } catch (error) {
+        console.error('Failed to get wallet address:', error);
+        return null;
+    }
+}
+
+// personal_sign a message with the connected wallet; proves to the server the player controls it
+export async function signWalletMessage(wallet: string, message: string): Promise<string | null> {
+    if (typeof window === 'undefined') return null;
+
+    try {
+        const provider = await sdk.wallet.getEthereumProvider();
+        if (!provider) return null;
+
+        return await provider.request({
+            method: 'personal_sign',
+            params: [Hex.fromString(message), wallet as `0x${string}`],
+        });
+    } catch (error) {
+        console.error('Failed to sign wallet message:', error);
+        return null;
+    }
+}
+
+// Send a signed claim voucher to the claim contract from the player's wallet; returns the tx hash
+export async function redeemClaim(claim: {
+    wallet: string;
+    chainId: number;
+    contract: string;
+    calldata: string;
+}): Promise<string | null> {
+    if (typeof window === 'undefined') return null;
+
+    try {
+        const provider = await sdk.wallet.getEthereumProvider();
+        if (!provider) return null;
+
+        await provider.request({
+            method: 'wallet_switchEthereumChain',
+            params: [{ chainId: `0x${claim.chainId.toString(16)}` }],
+        });
+
+        return await provider.request({
+            method: 'eth_sendTransaction',
+            params: [{
+                from: claim.wallet as `0x${string}`,
+                to: claim.contract as `0x${string}`,
+                data: claim.calldata as `0x${string}`,
+            }],
+        });
+    } catch (error) {
+        console.error('Failed to redeem claim:', error);
+        return null;
+    }
+}
+
 // For testing outside Farcaster - generate a mock user
 export function getMockUser(): FarcasterUser {
     return {
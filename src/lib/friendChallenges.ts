@@ -0,0 +1,187 @@
+import { getSessionResult, getSupabaseClient, SessionResult } from './db';
+import { generateNonce } from './gameLogic';
+import { getShareableResult, ShareableResult } from './share';
+
+// A finished classic session offered to friends; accepting it replays the same seed and difficulty
+export interface FriendChallenge {
+    id: string;
+    sessionId: string;
+    fid: number;             // Player who issued the challenge
+    createdAt: string;
+    result: SessionResult;   // The original session, rounds derive from its seed
+}
+
+// How the challenger did against the original run
+export type ChallengeOutcome = 'win' | 'loss' | 'draw';
+
+export interface HeadToHead {
+    challengeId: string;
+    opponent: ShareableResult;
+    outcome: ChallengeOutcome;
+}
+
+// Friend challenge schema:
+/*
+CREATE TABLE IF NOT EXISTS friend_challenges (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL UNIQUE,
+    fid BIGINT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One attempt per player per challenge
+CREATE TABLE IF NOT EXISTS friend_challenge_attempts (
+    challenge_id TEXT NOT NULL REFERENCES friend_challenges (id),
+    fid BIGINT NOT NULL,
+    session_id TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (challenge_id, fid)
+);
+*/
+
+interface FriendChallengeRow {
+    id: string;
+    session_id: string;
+    fid: number;
+    created_at: string;
+}
+
+// Challenge id for a session; sharing the same session twice reuses the first id
+export async function getOrCreateFriendChallenge(sessionId: string, fid: number): Promise<string> {
+    const supabase = getSupabaseClient();
+
+    const { error: insertError } = await supabase
+        .from('friend_challenges')
+        .upsert(
+            { id: generateNonce(), session_id: sessionId, fid },
+            { onConflict: 'session_id', ignoreDuplicates: true }
+        );
+
+    if (insertError) throw insertError;
+
+    const { data, error } = await supabase
+        .from('friend_challenges')
+        .select('id')
+        .eq('session_id', sessionId)
+        .single();
+
+    if (error) throw error;
+    return data.id;
+}
+
+// Whether a finished session has been offered as a challenge (its seed must then stay hidden)
+export async function isChallengedSession(sessionId: string): Promise<boolean> {
+    const { data, error } = await getSupabaseClient()
+        .from('friend_challenges')
+        .select('id')
+        .eq('session_id', sessionId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return Boolean(data);
+}
+
+// Which of these sessions back a challenge (batch form of isChallengedSession)
+export async function getChallengedSessionIds(sessionIds: string[]): Promise<Set<string>> {
+    if (sessionIds.length === 0) return new Set();
+
+    const { data, error } = await getSupabaseClient()
+        .from('friend_challenges')
+        .select('session_id')
+        .in('session_id', sessionIds);
+
+    if (error) throw error;
+    return new Set((data as { session_id: string }[]).map(row => row.session_id));
+}
+
+// Load a challenge with its original session; null for unknown ids
+export async function getFriendChallenge(challengeId: string): Promise<FriendChallenge | null> {
+    try {
+        const { data, error } = await getSupabaseClient()
+            .from('friend_challenges')
+            .select('*')
+            .eq('id', challengeId)
+            .maybeSingle();
+
+        if (error || !data) {
+            return null;
+        }
+
+        const row = data as FriendChallengeRow;
+        const result = await getSessionResult(row.session_id);
+        if (!result) return null;
+
+        return {
+            id: row.id,
+            sessionId: row.session_id,
+            fid: Number(row.fid),
+            createdAt: row.created_at,
+            result,
+        };
+    } catch (error) {
+        console.error('Error getting friend challenge:', error);
+        return null;
+    }
+}
+
+// Reserve the player's attempt at a challenge; false if they already took it
+export async function claimFriendChallengeAttempt(challengeId: string, fid: number, sessionId: string): Promise<boolean> {
+    const { error } = await getSupabaseClient()
+        .from('friend_challenge_attempts')
+        .insert({ challenge_id: challengeId, fid, session_id: sessionId });
+
+    if (error) {
+        // Unique violation: the attempt was already claimed
+        if (error.code === '23505') return false;
+        throw error;
+    }
+
+    return true;
+}
+
+// Check whether the player already took a challenge
+export async function hasAttemptedFriendChallenge(challengeId: string, fid: number): Promise<boolean> {
+    try {
+        const { data, error } = await getSupabaseClient()
+            .from('friend_challenge_attempts')
+            .select('challenge_id')
+            .eq('challenge_id', challengeId)
+            .eq('fid', fid)
+            .maybeSingle();
+
+        return !error && Boolean(data);
+    } catch (error) {
+        console.error('Error checking friend challenge attempt:', error);
+        return false;
+    }
+}
+
+// More nodes verified wins; equal scores go to the faster run
+export function compareResults(
+    mine: { correctAnswers: number; totalTime: number | null },
+    theirs: { correctAnswers: number; totalTime: number | null }
+): ChallengeOutcome {
+    if (mine.correctAnswers !== theirs.correctAnswers) {
+        return mine.correctAnswers > theirs.correctAnswers ? 'win' : 'loss';
+    }
+
+    const myTime = mine.totalTime ?? Infinity;
+    const theirTime = theirs.totalTime ?? Infinity;
+    if (myTime === theirTime) return 'draw';
+    return myTime < theirTime ? 'win' : 'loss';
+}
+
+// Head-to-head summary shown when a challenger finishes
+export async function getHeadToHead(
+    challenge: FriendChallenge,
+    mine: { correctAnswers: number; totalTime: number | null }
+): Promise<HeadToHead | null> {
+    const opponent = await getShareableResult(challenge.sessionId);
+    if (!opponent) return null;
+
+    return {
+        challengeId: challenge.id,
+        opponent,
+        outcome: compareResults(mine, opponent),
+    };
+}
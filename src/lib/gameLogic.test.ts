@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DIFFICULTY_PROFILES,
+    DecoyStrategy,
+    Difficulty,
+    createSelectionOptions,
+    generateFakeNumbers,
+    generateNumbers,
+    generateRound,
+    getDecoyCandidates,
+    isSeedRevealable,
+    replaySession,
+} from './gameLogic';
+import { createRng, createRoundRng } from './rng';
+
+const STRATEGIES: DecoyStrategy[] = ['random', 'mutation', 'transposition', 'leadingDigit'];
+const SEEDS = Array.from({ length: 200 }, (_, i) => `test-seed-${i}`);
+
+// Positions where two numbers of the same length differ
+function differingPositions(a: number, b: number): number[] {
+    const left = String(a);
+    const right = String(b);
+    return left.split('').flatMap((char, position) => (char === right[position] ? [] : [position]));
+}
+
+describe('getDecoyCandidates', () => {
+    it('mutation changes exactly one digit and never leads with zero', () => {
+        const candidates = getDecoyCandidates([842], 'mutation');
+
+        expect(candidates).toContain(847);
+        expect(candidates).toContain(142);
+        expect(candidates).toContain(802);
+        expect(candidates).not.toContain(42);
+        expect(candidates).toHaveLength(8 + 9 + 9);
+        for (const candidate of candidates) {
+            expect(differingPositions(candidate, 842)).toHaveLength(1);
+        }
+    });
+
+    it('transposition swaps adjacent digits, skipping equal pairs and leading zeros', () => {
+        expect(getDecoyCandidates([842], 'transposition').sort()).toEqual([482, 824]);
+        expect(getDecoyCandidates([805], 'transposition')).toEqual([850]);
+        expect(getDecoyCandidates([877], 'transposition')).toEqual([787]);
+        expect(getDecoyCandidates([111], 'transposition')).toEqual([]);
+    });
+
+    it('leadingDigit keeps the first digit of a shown number', () => {
+        const candidates = getDecoyCandidates([842], 'leadingDigit');
+
+        expect(candidates).toHaveLength(100);
+        expect(Math.min(...candidates)).toBe(800);
+        expect(Math.max(...candidates)).toBe(899);
+    });
+
+    it('respects the digit length', () => {
+        for (const strategy of ['mutation', 'transposition', 'leadingDigit'] as const) {
+            for (const candidate of getDecoyCandidates([4821, 1093], strategy, 4)) {
+                expect(String(candidate)).toHaveLength(4);
+            }
+        }
+    });
+
+    it('random has no near-miss candidates', () => {
+        expect(getDecoyCandidates([842], 'random')).toEqual([]);
+    });
+});
+
+describe('generateFakeNumbers', () => {
+    it.each(STRATEGIES)('%s fakes are never shown and never repeat', (strategy) => {
+        for (const seed of SEEDS) {
+            const rng = createRng(seed);
+            const shown = generateNumbers(5, 3, rng);
+            const fakes = generateFakeNumbers(shown, 2, 3, strategy, rng);
+
+            expect(fakes).toHaveLength(2);
+            expect(new Set(fakes).size).toBe(2);
+            for (const fake of fakes) {
+                expect(shown).not.toContain(fake);
+                expect(String(fake)).toHaveLength(3);
+            }
+        }
+    });
+
+    it.each(['mutation', 'transposition', 'leadingDigit'] as const)('%s fakes are near misses of a shown number', (strategy) => {
+        for (const seed of SEEDS) {
+            const rng = createRng(seed);
+            const shown = generateNumbers(4, 3, rng);
+            const candidates = getDecoyCandidates(shown, strategy);
+            const [fake] = generateFakeNumbers(shown, 1, 3, strategy, rng);
+
+            // Numbers like 100 or 111 have no transposition, so those rounds fall back to random
+            if (candidates.some(candidate => !shown.includes(candidate))) {
+                expect(candidates).toContain(fake);
+            }
+        }
+    });
+
+    it('falls back to a random unshown number when the strategy has no candidate', () => {
+        const rng = createRng('fallback');
+        const fakes = generateFakeNumbers([111], 3, 3, 'transposition', rng);
+
+        expect(new Set(fakes).size).toBe(3);
+        expect(fakes).not.toContain(111);
+    });
+
+    it('is deterministic for a seed', () => {
+        const shown = [842, 156, 371];
+        const first = generateFakeNumbers(shown, 2, 3, 'mutation', createRng('same'));
+        const second = generateFakeNumbers(shown, 2, 3, 'mutation', createRng('same'));
+
+        expect(first).toEqual(second);
+    });
+});
+
+describe('createSelectionOptions', () => {
+    it('fills the remaining options with distinct shown numbers', () => {
+        const shown = [842, 156, 371, 409, 623];
+        const options = createSelectionOptions(shown, [847, 165], 5, createRng('options'));
+
+        expect(options).toHaveLength(5);
+        expect(new Set(options).size).toBe(5);
+        expect(options).toContain(847);
+        expect(options).toContain(165);
+        expect(options.filter(option => shown.includes(option))).toHaveLength(3);
+    });
+});
+
+describe('generateRound', () => {
+    const rounds = (Object.keys(DIFFICULTY_PROFILES) as Difficulty[]).flatMap(difficulty =>
+        DIFFICULTY_PROFILES[difficulty].rounds.map(config => [difficulty, config.round, config] as const)
+    );
+
+    it.each(rounds)('%s round %i has the configured option and fake counts', (_difficulty, _round, config) => {
+        for (const seed of SEEDS) {
+            const { shownNumbers, fakeNumbers, selectionOptions } = generateRound(config, createRoundRng(seed, config.round));
+
+            expect(shownNumbers).toHaveLength(config.numberCount);
+            expect(fakeNumbers).toHaveLength(config.fakeCount);
+            expect(selectionOptions).toHaveLength(config.optionCount);
+            expect(new Set(selectionOptions).size).toBe(config.optionCount);
+            expect(selectionOptions.filter(option => fakeNumbers.includes(option))).toHaveLength(config.fakeCount);
+            expect(selectionOptions.filter(option => shownNumbers.includes(option))).toHaveLength(config.optionCount - config.fakeCount);
+            for (const option of selectionOptions) {
+                expect(String(option)).toHaveLength(config.digits);
+            }
+        }
+    });
+
+    it('replays a session identically from its seed', () => {
+        expect(replaySession('replay', 'hardened')).toEqual(replaySession('replay', 'hardened'));
+        expect(replaySession('replay')).not.toEqual(replaySession('other'));
+    });
+
+    // Verification of past sessions depends on this never changing
+    it('pins the rounds generated for a known seed', () => {
+        expect(replaySession('pinned-seed')).toMatchInlineSnapshot(`
+          [
+            {
+              "fakeNumbers": [
+                536,
+              ],
+              "round": 1,
+              "selectionOptions": [
+                888,
+                235,
+                536,
+              ],
+              "shownNumbers": [
+                523,
+                888,
+                805,
+                235,
+                851,
+              ],
+            },
+            {
+              "fakeNumbers": [
+                952,
+              ],
+              "round": 2,
+              "selectionOptions": [
+                866,
+                952,
+                694,
+              ],
+              "shownNumbers": [
+                694,
+                932,
+                866,
+                658,
+              ],
+            },
+            {
+              "fakeNumbers": [
+                980,
+              ],
+              "round": 3,
+              "selectionOptions": [
+                837,
+                908,
+                980,
+              ],
+              "shownNumbers": [
+                908,
+                837,
+                708,
+              ],
+            },
+          ]
+        `);
+    });
+});
+
+describe('isSeedRevealable', () => {
+    const startedAt = new Date('2026-03-01T12:00:00Z');
+
+    it('reveals classic seeds right away and daily seeds the next UTC day', () => {
+        expect(isSeedRevealable('classic', startedAt, startedAt)).toBe(true);
+        expect(isSeedRevealable('daily', startedAt, new Date('2026-03-01T23:59:59Z'))).toBe(false);
+        expect(isSeedRevealable('daily', startedAt, new Date('2026-03-02T00:00:00Z'))).toBe(true);
+    });
+
+    it('never reveals the seed a friend challenge replays', () => {
+        expect(isSeedRevealable('friend', startedAt, new Date('2027-01-01T00:00:00Z'))).toBe(false);
+    });
+});
@@ -1,51 +1,382 @@
-// Game configuration
-export const ROUND_CONFIG = [
-    { round: 1, numberCount: 5, displayTime: 10, optionCount: 3 },  // 10 seconds, show 5 numbers, 3 options
-    { round: 2, numberCount: 4, displayTime: 10, optionCount: 3 },  // 10 seconds, show 4 numbers, 3 options
-    { round: 3, numberCount: 3, displayTime: 10, optionCount: 3 },  // 10 seconds, show 3 numbers, 3 options
-];
+import { createRoundRng, hashSeed, shuffle, Rng } from './rng';
+
+// Difficulty profiles
+export type Difficulty = 'casual' | 'standard' | 'hardened';
+
+// How the fake number is derived from the shown ones
+export type DecoyStrategy =
+    | 'random'          // Any number that wasn't shown
+    | 'mutation'        // A shown number with one digit changed (842 -> 847)
+    | 'transposition'   // A shown number with two adjacent digits swapped (842 -> 482)
+    | 'leadingDigit';   // Same first digit as a shown number (842 -> 815)
+
+export interface RoundConfig {
+    round: number;
+    numberCount: number;  // Numbers shown in the memorize phase
+    digits: number;       // Digit length of each number
+    displayTime: number;  // Seconds the numbers stay on screen
+    optionCount: number;  // Options in the selection phase
+    fakeCount: number;    // Fake numbers hidden among the options
+    decoyStrategy: DecoyStrategy;
+}
+
+export interface DifficultyProfile {
+    name: Difficulty;
+    label: string;
+    rounds: RoundConfig[];
+    tokenMultiplier: number;  // Scales TOKENS_PER_CORRECT and BONUS_TOKENS
+}
+
+export const DIFFICULTY_PROFILES: Record<Difficulty, DifficultyProfile> = {
+    casual: {
+        name: 'casual',
+        label: 'CASUAL',
+        tokenMultiplier: 0.5,
+        rounds: [
+            { round: 1, numberCount: 4, digits: 3, displayTime: 12, optionCount: 3, fakeCount: 1, decoyStrategy: 'random' },
+            { round: 2, numberCount: 3, digits: 3, displayTime: 12, optionCount: 3, fakeCount: 1, decoyStrategy: 'random' },
+            { round: 3, numberCount: 3, digits: 3, displayTime: 10, optionCount: 3, fakeCount: 1, decoyStrategy: 'leadingDigit' },
+        ],
+    },
+    standard: {
+        name: 'standard',
+        label: 'STANDARD',
+        tokenMultiplier: 1,
+        rounds: [
+            { round: 1, numberCount: 5, digits: 3, displayTime: 10, optionCount: 3, fakeCount: 1, decoyStrategy: 'leadingDigit' },  // 10 seconds, show 5 numbers, 3 options
+            { round: 2, numberCount: 4, digits: 3, displayTime: 10, optionCount: 3, fakeCount: 1, decoyStrategy: 'mutation' },  // 10 seconds, show 4 numbers, 3 options
+            { round: 3, numberCount: 3, digits: 3, displayTime: 10, optionCount: 3, fakeCount: 1, decoyStrategy: 'transposition' },  // 10 seconds, show 3 numbers, 3 options
+        ],
+    },
+    hardened: {
+        name: 'hardened',
+        label: 'HARDENED',
+        tokenMultiplier: 2,
+        rounds: [
+            { round: 1, numberCount: 6, digits: 4, displayTime: 8, optionCount: 4, fakeCount: 1, decoyStrategy: 'mutation' },
+            { round: 2, numberCount: 5, digits: 4, displayTime: 8, optionCount: 4, fakeCount: 1, decoyStrategy: 'transposition' },
+            { round: 3, numberCount: 5, digits: 4, displayTime: 7, optionCount: 5, fakeCount: 2, decoyStrategy: 'mutation' },
+            { round: 4, numberCount: 4, digits: 4, displayTime: 6, optionCount: 5, fakeCount: 2, decoyStrategy: 'transposition' },
+        ],
+    },
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'standard';
+
+// Classic sessions get a fresh random seed; daily sessions share one seed per UTC day;
+// friend sessions replay the seed of the classic session that issued the challenge;
+// tournament sessions get a fresh seed on the tournament's fixed profile
+export type GameMode = 'classic' | 'daily' | 'friend' | 'tournament';
+
+export const DEFAULT_GAME_MODE: GameMode = 'classic';
+export const DAILY_DIFFICULTY: Difficulty = 'standard';  // Same profile for everyone so results compare
 
 export const MAX_SESSIONS_PER_COOLDOWN = 1;  // 1 attempt per cooldown period
 export const COOLDOWN_MINUTES = 5;  // 5 minute cooldown
-export const MAX_TOKENS_PER_SESSION = 50; // 10 tokens x 3 rounds + 20 bonus = 50 max per session
-export const TOKENS_PER_CORRECT = 10; // 10 ASLR tokens per correct answer
-export const BONUS_TOKENS = 20; // 20 bonus tokens for perfect game (all 3 correct)
-export const TOTAL_ROUNDS = 3;
+export const TOKENS_PER_CORRECT = 10; // 10 ASLR tokens per correct answer (standard profile)
+export const BONUS_TOKENS = 20; // 20 bonus tokens for perfect game (standard profile)
+export const SPEED_BONUS_TOKENS = 5; // Max speed bonus for an instant correct answer (standard profile)
+export const ANSWER_TIME_LIMIT = Number(process.env.ANSWER_TIME_LIMIT_SECONDS) || 15; // Seconds to answer once options are revealed
+export const ROUND_TRANSITION_MS = 1500; // Result screen between rounds, before the next numbers appear
+export const CLOCK_GRACE_MS = 500; // Allowance for network latency on timing checks
+export const SESSION_EXPIRY_GRACE_SECONDS = 30; // Slack on top of the round budget before a session is abandoned
+export const MIN_HUMAN_REACTION_MS = 300; // Correct answers faster than this are treated as automated
+export const SUSPICION_THRESHOLD = 0.5; // Sessions scoring at or above this have their tokens held for review
+export const DUEL_POT_TOKENS = Number(process.env.DUEL_POT_TOKENS) || 50; // Paid to the winner of a duel
+export const DUEL_LOBBY_MINUTES = 5; // Open duel lobbies nobody joins expire after this
+export const DUEL_COUNTDOWN_MS = 3000; // Between the second player joining and round 1
+export const MIN_CLAIM_TOKENS = Number(process.env.MIN_CLAIM_TOKENS) || 100; // Smallest on-chain withdrawal
+export const CLAIM_VOUCHER_MINUTES = 60; // Signed vouchers must be redeemed within this, or they are refunded
+
+// Reward multiplier from `minStreak` consecutive days on
+export interface StreakTier {
+    minStreak: number;
+    multiplier: number;
+}
+
+// One-off payout when a streak reaches exactly `streak` days
+export interface StreakMilestone {
+    streak: number;
+    tokens: number;
+}
+
+// Parse a "days:value" list from env (e.g. "3:1.1,7:1.5"), null if unset or malformed
+function parseStreakTable(value: string | undefined): [number, number][] | null {
+    if (!value) return null;
+
+    const entries = value.split(',').map((pair) => pair.split(':').map(Number));
+    if (entries.some((entry) => entry.length !== 2 || !entry.every(Number.isFinite))) {
+        return null;
+    }
+
+    return entries.map(([days, amount]) => [days, amount] as [number, number]).sort((a, b) => a[0] - b[0]);
+}
+
+export const STREAK_MULTIPLIERS: StreakTier[] =
+    parseStreakTable(process.env.STREAK_MULTIPLIERS)?.map(([minStreak, multiplier]) => ({ minStreak, multiplier })) ?? [
+        { minStreak: 3, multiplier: 1.1 },
+        { minStreak: 7, multiplier: 1.5 },
+    ];
+
+export const STREAK_MILESTONES: StreakMilestone[] =
+    parseStreakTable(process.env.STREAK_MILESTONES)?.map(([streak, tokens]) => ({ streak, tokens })) ?? [
+        { streak: 3, tokens: 25 },
+        { streak: 7, tokens: 100 },
+        { streak: 30, tokens: 500 },
+    ];
+
+// Check a client-supplied game mode
+export function isGameMode(value: unknown): value is GameMode {
+    return value === 'classic' || value === 'daily' || value === 'friend' || value === 'tournament';
+}
+
+// Friend sessions replay rounds the original player already knows, so they earn no tokens.
+// Tournament attempts skip the cooldown and are paid from the prize table instead.
+export function isRewardedMode(mode: GameMode): boolean {
+    return mode !== 'friend' && mode !== 'tournament';
+}
+
+// Check a client-supplied difficulty name
+export function isDifficulty(value: unknown): value is Difficulty {
+    return typeof value === 'string' && value in DIFFICULTY_PROFILES;
+}
+
+// Get difficulty profile (falls back to standard)
+export function getDifficultyProfile(difficulty: Difficulty = DEFAULT_DIFFICULTY): DifficultyProfile {
+    return DIFFICULTY_PROFILES[difficulty] || DIFFICULTY_PROFILES[DEFAULT_DIFFICULTY];
+}
+
+// Number of rounds in a profile
+export function getTotalRounds(difficulty: Difficulty = DEFAULT_DIFFICULTY): number {
+    return getDifficultyProfile(difficulty).rounds.length;
+}
+
+// Tokens for one correct answer in a profile
+export function getTokensPerCorrect(difficulty: Difficulty = DEFAULT_DIFFICULTY): number {
+    return Math.round(TOKENS_PER_CORRECT * getDifficultyProfile(difficulty).tokenMultiplier);
+}
+
+// Bonus tokens for a perfect game in a profile
+export function getBonusTokens(difficulty: Difficulty = DEFAULT_DIFFICULTY): number {
+    return Math.round(BONUS_TOKENS * getDifficultyProfile(difficulty).tokenMultiplier);
+}
+
+// Maximum tokens a single session can earn in a profile
+export function getMaxTokensPerSession(difficulty: Difficulty = DEFAULT_DIFFICULTY): number {
+    return (getTokensPerCorrect(difficulty) + getSpeedBonus(0, difficulty)) * getTotalRounds(difficulty) + getBonusTokens(difficulty);
+}
+
+// Speed bonus for a correct answer: full at 0ms, falling linearly to 0 at the answer deadline
+export function getSpeedBonus(reactionMs: number, difficulty: Difficulty = DEFAULT_DIFFICULTY): number {
+    const remaining = Math.max(0, 1 - reactionMs / (ANSWER_TIME_LIMIT * 1000));
+    return Math.round(SPEED_BONUS_TOKENS * getDifficultyProfile(difficulty).tokenMultiplier * remaining);
+}
+
+// 0..1 score for answer timings that look automated:
+// correct answers under MIN_HUMAN_REACTION_MS, and near-identical reaction times across rounds
+export function getSuspicionScore(rounds: { reactionMs: number; correct: boolean }[]): number {
+    const correct = rounds.filter(round => round.correct).map(round => round.reactionMs);
+
+    const tooFast = correct.filter(reactionMs => reactionMs < MIN_HUMAN_REACTION_MS).length;
+    let score = tooFast * 0.5;
+
+    // Coefficient of variation: humans rarely stay within a few percent of their mean
+    if (correct.length >= 3) {
+        const mean = correct.reduce((total, reactionMs) => total + reactionMs, 0) / correct.length;
+        const variance = correct.reduce((total, reactionMs) => total + (reactionMs - mean) ** 2, 0) / correct.length;
+        const cv = mean > 0 ? Math.sqrt(variance) / mean : 0;
+        score += Math.max(0, (0.1 - cv) / 0.1) * 0.5;
+    }
+
+    return Math.min(1, score);
+}
 
-// Generate unique random 3-digit numbers
-export function generateNumbers(count: number): number[] {
+// Whether a suspicion score withholds token crediting
+export function isSuspicious(score: number): boolean {
+    return score >= SUSPICION_THRESHOLD;
+}
+
+// Multiplier for a streak length (highest tier reached, 1 below the first tier)
+export function getStreakMultiplier(streak: number): number {
+    return STREAK_MULTIPLIERS.reduce(
+        (multiplier, tier) => (streak >= tier.minStreak ? tier.multiplier : multiplier),
+        1
+    );
+}
+
+// Extra tokens a streak multiplier adds on top of a base amount
+export function getStreakTokens(baseTokens: number, multiplier: number): number {
+    return Math.max(0, Math.round(baseTokens * (multiplier - 1)));
+}
+
+// Milestone payout for reaching a streak length (0 if it isn't a milestone)
+export function getStreakMilestoneTokens(streak: number): number {
+    return STREAK_MILESTONES.find((milestone) => milestone.streak === streak)?.tokens ?? 0;
+}
+
+// Streak that still counts today: last played today or yesterday (UTC), otherwise broken
+export function getActiveStreak(currentStreak: number, lastStreakDate: string | null, now: Date = new Date()): number {
+    if (!lastStreakDate) return 0;
+
+    const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    const daysSince = Math.round((today - new Date(`${lastStreakDate}T00:00:00Z`).getTime()) / 86400000);
+
+    return daysSince <= 1 ? currentStreak : 0;
+}
+
+// Random number with the given digit length (e.g. 3 digits: 100-999)
+function randomNumber(digits: number, rng: Rng): number {
+    const min = Math.pow(10, digits - 1);
+    return Math.floor(rng() * (min * 9)) + min;
+}
+
+// Generate unique random numbers
+export function generateNumbers(count: number, digits: number = 3, rng: Rng = Math.random): number[] {
     const numbers = new Set<number>();
     while (numbers.size < count) {
-        // Generate number between 100-999
-        const num = Math.floor(Math.random() * 900) + 100;
-        numbers.add(num);
+        numbers.add(randomNumber(digits, rng));
     }
     return Array.from(numbers);
 }
 
-// Generate a fake number that's not in the shown numbers
-export function generateFakeNumber(shownNumbers: number[]): number {
+// All near-miss decoys a strategy can derive from the shown numbers (may include shown ones)
+export function getDecoyCandidates(shownNumbers: number[], strategy: DecoyStrategy, digits: number = 3): number[] {
+    const candidates = new Set<number>();
+
+    for (const shown of shownNumbers) {
+        const chars = String(shown).split('');
+
+        if (strategy === 'mutation') {
+            chars.forEach((char, position) => {
+                for (let digit = position === 0 ? 1 : 0; digit <= 9; digit++) {
+                    if (String(digit) === char) continue;
+                    const mutated = [...chars];
+                    mutated[position] = String(digit);
+                    candidates.add(Number(mutated.join('')));
+                }
+            });
+        } else if (strategy === 'transposition') {
+            for (let position = 0; position < chars.length - 1; position++) {
+                if (chars[position] === chars[position + 1]) continue;
+                // No leading zero, so the decoy keeps the same digit length
+                if (position === 0 && chars[1] === '0') continue;
+                const swapped = [...chars];
+                swapped[position] = chars[position + 1];
+                swapped[position + 1] = chars[position];
+                candidates.add(Number(swapped.join('')));
+            }
+        } else if (strategy === 'leadingDigit') {
+            const base = Number(chars[0]) * Math.pow(10, digits - 1);
+            for (let rest = 0; rest < Math.pow(10, digits - 1); rest++) {
+                candidates.add(base + rest);
+            }
+        }
+    }
+
+    return Array.from(candidates);
+}
+
+// Generate a fake number that's not in the shown numbers (or excluded).
+// Falls back to a random number when the strategy has no valid candidate.
+export function generateFakeNumber(
+    shownNumbers: number[],
+    digits: number = 3,
+    strategy: DecoyStrategy = 'random',
+    exclude: number[] = [],
+    rng: Rng = Math.random
+): number {
+    const taken = new Set([...shownNumbers, ...exclude]);
+    const candidates = getDecoyCandidates(shownNumbers, strategy, digits).filter(num => !taken.has(num));
+
+    if (candidates.length > 0) {
+        return candidates[Math.floor(rng() * candidates.length)];
+    }
+
     let fakeNumber: number;
     do {
-        fakeNumber = Math.floor(Math.random() * 900) + 100;
-    } while (shownNumbers.includes(fakeNumber));
+        fakeNumber = randomNumber(digits, rng);
+    } while (taken.has(fakeNumber));
     return fakeNumber;
 }
 
-// Select real numbers and 1 fake for the selection phase
-export function createSelectionOptions(shownNumbers: number[], fakeNumber: number, optionCount: number = 3): number[] {
-    // Pick (optionCount - 1) random numbers from the shown ones
-    const shuffled = [...shownNumbers].sort(() => Math.random() - 0.5);
-    const realNumbers = shuffled.slice(0, optionCount - 1);
+// Generate distinct fake numbers, none of them shown
+export function generateFakeNumbers(
+    shownNumbers: number[],
+    count: number,
+    digits: number = 3,
+    strategy: DecoyStrategy = 'random',
+    rng: Rng = Math.random
+): number[] {
+    const fakeNumbers: number[] = [];
+    while (fakeNumbers.length < count) {
+        fakeNumbers.push(generateFakeNumber(shownNumbers, digits, strategy, fakeNumbers, rng));
+    }
+    return fakeNumbers;
+}
 
-    // Combine with fake and shuffle
-    const options = [...realNumbers, fakeNumber].sort(() => Math.random() - 0.5);
-    return options;
+// Select real numbers and the fakes for the selection phase
+export function createSelectionOptions(
+    shownNumbers: number[],
+    fakeNumbers: number[],
+    optionCount: number = 3,
+    rng: Rng = Math.random
+): number[] {
+    // Pick (optionCount - fakes) random numbers from the shown ones
+    const realNumbers = shuffle(shownNumbers, rng).slice(0, optionCount - fakeNumbers.length);
+
+    // Combine with fakes and shuffle
+    return shuffle([...realNumbers, ...fakeNumbers], rng);
 }
 
 // Get round configuration
-export function getRoundConfig(round: number) {
-    return ROUND_CONFIG[round - 1] || ROUND_CONFIG[0];
+export function getRoundConfig(round: number, difficulty: Difficulty = DEFAULT_DIFFICULTY): RoundConfig {
+    const rounds = getDifficultyProfile(difficulty).rounds;
+    return rounds[round - 1] || rounds[0];
+}
+
+// Generate a round: shown numbers, fakes and options (deterministic for a seeded rng)
+export function generateRound(config: RoundConfig, rng: Rng = Math.random) {
+    const shownNumbers = generateNumbers(config.numberCount, config.digits, rng);
+    const fakeNumbers = generateFakeNumbers(shownNumbers, config.fakeCount, config.digits, config.decoyStrategy, rng);
+    const selectionOptions = createSelectionOptions(shownNumbers, fakeNumbers, config.optionCount, rng);
+
+    return { shownNumbers, fakeNumbers, selectionOptions };
+}
+
+// Recompute every round of a session from its seed
+export function replaySession(seed: string, difficulty: Difficulty = DEFAULT_DIFFICULTY) {
+    return getDifficultyProfile(difficulty).rounds.map(config => ({
+        round: config.round,
+        ...generateRound(config, createRoundRng(seed, config.round)),
+    }));
+}
+
+// Check the player's picks against the fakes (every fake, nothing else)
+export function isCorrectSelection(selectedNumbers: number[], fakeNumbers: number[]): boolean {
+    const selected = new Set(selectedNumbers);
+    return selected.size === fakeNumbers.length && fakeNumbers.every(num => selected.has(num));
+}
+
+// Timing windows for a round (epoch ms)
+export function getRoundTimings(roundStartedAt: Date, displayTime: number) {
+    const roundStartsAt = new Date(roundStartedAt).getTime();
+    const optionsAvailableAt = roundStartsAt + displayTime * 1000;
+
+    return {
+        roundStartsAt,
+        optionsAvailableAt,
+        answerDeadline: optionsAvailableAt + ANSWER_TIME_LIMIT * 1000,
+    };
+}
+
+// When an unfinished session is considered abandoned: startedAt + every round's budget
+export function getSessionExpiry(startedAt: Date, difficulty: Difficulty = DEFAULT_DIFFICULTY): Date {
+    const roundBudgetMs = getDifficultyProfile(difficulty).rounds.reduce(
+        (total, config) => total + ROUND_TRANSITION_MS + (config.displayTime + ANSWER_TIME_LIMIT) * 1000,
+        0
+    );
+
+    return new Date(new Date(startedAt).getTime() + roundBudgetMs + SESSION_EXPIRY_GRACE_SECONDS * 1000);
 }
 
 // Generate a secure nonce
@@ -71,3 +402,26 @@ export function isToday(date: Date): boolean {
         date.getUTCDate() === today.getUTCDate()
     );
 }
+
+// UTC calendar day a daily challenge belongs to (YYYY-MM-DD)
+export function getChallengeDate(date: Date = new Date()): string {
+    return new Date(date).toISOString().slice(0, 10);
+}
+
+// Shared seed for a day's challenge. Derived from a server secret so it can't be computed ahead of time.
+export async function getDailySeed(challengeDate: string): Promise<string> {
+    const secret = process.env.DAILY_SEED_SECRET;
+    if (!secret && process.env.NODE_ENV === 'production') {
+        throw new Error('DAILY_SEED_SECRET is not configured');
+    }
+
+    return hashSeed(`${secret || 'terminal-daily-dev'}:daily:${challengeDate}`);
+}
+
+// Daily seeds are shared, so they stay hidden until that challenge day is over.
+// Friend sessions replay a challenge's seed, which stays hidden while the challenge can be accepted,
+// and challenges don't close.
+export function isSeedRevealable(mode: GameMode, startedAt: Date, now: Date = new Date()): boolean {
+    if (mode === 'friend') return false;
+    return mode !== 'daily' || getChallengeDate(now) > getChallengeDate(startedAt);
+}
@@ -0,0 +1,129 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { ImageSize, ManifestImageField, MiniAppManifest, buildEmbed, buildManifest, validateManifest } from './manifest';
+
+const APP_ENV = { NODE_ENV: 'test', NEXT_PUBLIC_APP_URL: 'https://terminalv3.vercel.app' } as NodeJS.ProcessEnv;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Size of a file in public/ from its PNG header; throws if it isn't a PNG
+function readPngSize(url: string): ImageSize {
+    const file = readFileSync(join(process.cwd(), 'public', new URL(url).pathname));
+    if (!file.subarray(0, 8).equals(PNG_SIGNATURE)) {
+        throw new Error(`${url} is not a PNG`);
+    }
+    return { width: file.readUInt32BE(16), height: file.readUInt32BE(20) };
+}
+
+// A manifest that passes validation, with one miniapp field replaced
+function withMiniApp(overrides: Partial<Record<keyof MiniAppManifest['miniapp'], unknown>>): MiniAppManifest {
+    const manifest = buildManifest(APP_ENV);
+    return { ...manifest, miniapp: { ...manifest.miniapp, ...overrides } as MiniAppManifest['miniapp'] };
+}
+
+describe('validateManifest', () => {
+    it('accepts the manifest built from the default config', () => {
+        expect(validateManifest(buildManifest(APP_ENV))).toEqual([]);
+    });
+
+    it('ships default images that are PNGs with the expected ratios', () => {
+        const manifest = buildManifest(APP_ENV);
+        const fields: ManifestImageField[] = ['iconUrl', 'imageUrl', 'splashImageUrl'];
+        const sizes = Object.fromEntries(fields.map(field => [field, readPngSize(manifest.miniapp[field])]));
+
+        expect(sizes).toEqual({
+            iconUrl: { width: 1024, height: 1024 },
+            imageUrl: { width: 1200, height: 800 },
+            splashImageUrl: { width: 200, height: 200 },
+        });
+        expect(validateManifest(manifest, sizes)).toEqual([]);
+    });
+
+    it('accepts images with the expected ratios', () => {
+        const issues = validateManifest(buildManifest(APP_ENV), {
+            iconUrl: { width: 1024, height: 1024 },
+            imageUrl: { width: 1200, height: 800 },
+            splashImageUrl: { width: 200, height: 200 },
+        });
+
+        expect(issues).toEqual([]);
+    });
+
+    it.each([
+        ['http URL', 'http://terminalv3.vercel.app/icon.png'],
+        ['relative path', '/icon.png'],
+        ['non-URL', 'icon'],
+        ['overlong URL', `https://terminalv3.vercel.app/${'a'.repeat(1024)}.png`],
+    ])('rejects an %s', (_label, iconUrl) => {
+        expect(validateManifest(withMiniApp({ iconUrl }))).toEqual([
+            'miniapp.iconUrl must be an https URL of at most 1024 characters',
+        ]);
+    });
+
+    it('rejects an embed image that is not 3:2', () => {
+        expect(validateManifest(buildManifest(APP_ENV), { imageUrl: { width: 1024, height: 1024 } })).toEqual([
+            'miniapp.imageUrl must have a 3:2 aspect ratio (got 1024x1024)',
+        ]);
+    });
+
+    it('rejects a non-square icon or splash image', () => {
+        const issues = validateManifest(buildManifest(APP_ENV), {
+            iconUrl: { width: 1024, height: 512 },
+            splashImageUrl: { width: 200, height: 0 },
+        });
+
+        expect(issues).toEqual([
+            'miniapp.iconUrl must have a 1:1 aspect ratio (got 1024x512)',
+            'miniapp.splashImageUrl must have a 1:1 aspect ratio (got 200x0)',
+        ]);
+    });
+
+    it('rejects missing fields', () => {
+        const { webhookUrl: _webhookUrl, name: _name, ...miniapp } = buildManifest(APP_ENV).miniapp;
+        const issues = validateManifest({
+            accountAssociation: { header: '', payload: '', signature: '' },
+            miniapp: miniapp as MiniAppManifest['miniapp'],
+        });
+
+        expect(issues).toEqual([
+            'accountAssociation.header must be base64url',
+            'accountAssociation.payload must be base64url',
+            'accountAssociation.signature is required',
+            'miniapp.name must be 1-32 characters',
+            'miniapp.webhookUrl must be an https URL of at most 1024 characters',
+        ]);
+    });
+
+    it('rejects a missing miniapp section', () => {
+        const issues = validateManifest({ accountAssociation: buildManifest(APP_ENV).accountAssociation } as MiniAppManifest);
+
+        expect(issues).toContain('miniapp.version must be "1"');
+        expect(issues).toContain('miniapp.homeUrl must be an https URL of at most 1024 characters');
+    });
+
+    it('rejects an account association signed for another domain', () => {
+        const manifest = buildManifest({ ...APP_ENV, NEXT_PUBLIC_APP_URL: 'https://example.com' });
+
+        expect(validateManifest(manifest)).toEqual([
+            'accountAssociation domain terminalv3.vercel.app does not match homeUrl',
+        ]);
+    });
+
+    it('rejects bad button titles and splash colors', () => {
+        expect(validateManifest(withMiniApp({ buttonTitle: 'x'.repeat(33), splashBackgroundColor: 'black' }))).toEqual([
+            'miniapp.buttonTitle must be 1-32 characters',
+            'miniapp.splashBackgroundColor must be a hex color',
+        ]);
+    });
+});
+
+describe('buildEmbed', () => {
+    it('launches the home URL with the manifest splash', () => {
+        const embed = buildEmbed('launch_frame', { buttonTitle: 'Beat my score' });
+
+        expect(embed.button.title).toBe('Beat my score');
+        expect(embed.button.action.type).toBe('launch_frame');
+        expect(embed.button.action.splashBackgroundColor).toBe('#0a0a0a');
+    });
+});
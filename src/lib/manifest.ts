@@ -0,0 +1,186 @@
+// Farcaster mini-app manifest (/.well-known/farcaster.json) and fc:miniapp embed
+
+export interface AccountAssociation {
+    header: string;     // base64url JSON { fid, type, key } of the custody key that signed
+    payload: string;    // base64url JSON { domain }
+    signature: string;
+}
+
+export interface MiniAppConfig {
+    version: '1';
+    name: string;
+    iconUrl: string;
+    homeUrl: string;
+    imageUrl: string;
+    buttonTitle: string;
+    splashImageUrl: string;
+    splashBackgroundColor: string;
+    webhookUrl: string;
+}
+
+export interface MiniAppManifest {
+    accountAssociation: AccountAssociation;
+    miniapp: MiniAppConfig;
+}
+
+// Embed for the fc:miniapp meta tag: a 3:2 image with a launch button
+export interface MiniAppEmbed {
+    version: '1';
+    imageUrl: string;
+    button: {
+        title: string;
+        action: {
+            type: 'launch_miniapp' | 'launch_frame';
+            name: string;
+            url: string;
+            splashImageUrl: string;
+            splashBackgroundColor: string;
+        };
+    };
+}
+
+export const APP_NAME = 'Terminal';
+export const BUTTON_TITLE = 'Play Now';
+export const SPLASH_BACKGROUND_COLOR = '#0a0a0a';
+
+// Signed for terminalv3.vercel.app; other domains set FARCASTER_HEADER/PAYLOAD/SIGNATURE
+const DEFAULT_ACCOUNT_ASSOCIATION: AccountAssociation = {
+    header: 'eyJmaWQiOjEzNjEyMzUsInR5cGUiOiJhdXRoIiwia2V5IjoiMHgxOGM5OTI5OGU1NjgxOGJBOGMyRjM0NDI0ZkIyYUIzQ2Y4ZEQ2QTZkIn0',
+    payload: 'eyJkb21haW4iOiJ0ZXJtaW5hbHYzLnZlcmNlbC5hcHAifQ',
+    signature: '+gtnIdA9Fos8ZEFgKqXCmue8LPObTWnq0kGm/xn9TWZ/0erp8IVp6rMa2jOtqh42Lbtxgm9a1cQB+MRtwBMrWxs=',
+};
+
+// Public URL of the app (home URL, asset and webhook base)
+export function getAppUrl(env: NodeJS.ProcessEnv = process.env): string {
+    return (env.NEXT_PUBLIC_APP_URL || 'https://terminalv3.vercel.app').replace(/\/$/, '');
+}
+
+// Build the manifest from environment config; asset URLs default to the files in public/
+export function buildManifest(env: NodeJS.ProcessEnv = process.env): MiniAppManifest {
+    const appUrl = getAppUrl(env);
+
+    return {
+        accountAssociation: {
+            header: env.FARCASTER_HEADER || DEFAULT_ACCOUNT_ASSOCIATION.header,
+            payload: env.FARCASTER_PAYLOAD || DEFAULT_ACCOUNT_ASSOCIATION.payload,
+            signature: env.FARCASTER_SIGNATURE || DEFAULT_ACCOUNT_ASSOCIATION.signature,
+        },
+        miniapp: {
+            version: '1',
+            name: APP_NAME,
+            iconUrl: env.MINIAPP_ICON_URL || `${appUrl}/icon.png`,
+            homeUrl: appUrl,
+            imageUrl: env.MINIAPP_IMAGE_URL || `${appUrl}/og-image.png`,
+            buttonTitle: BUTTON_TITLE,
+            splashImageUrl: env.MINIAPP_SPLASH_IMAGE_URL || `${appUrl}/splash.png`,
+            splashBackgroundColor: SPLASH_BACKGROUND_COLOR,
+            webhookUrl: env.MINIAPP_WEBHOOK_URL || `${appUrl}/api/webhook`,
+        },
+    };
+}
+
+// Embed for a page of the app; legacy clients read fc:frame with launch_frame.
+// Overrides replace the default card, button title or launch URL (e.g. a shared result).
+export function buildEmbed(
+    type: MiniAppEmbed['button']['action']['type'] = 'launch_miniapp',
+    overrides: { imageUrl?: string; buttonTitle?: string; url?: string } = {}
+): MiniAppEmbed {
+    const { miniapp } = buildManifest();
+
+    return {
+        version: '1',
+        imageUrl: overrides.imageUrl ?? miniapp.imageUrl,
+        button: {
+            title: overrides.buttonTitle ?? miniapp.buttonTitle,
+            action: {
+                type,
+                name: miniapp.name,
+                url: overrides.url ?? miniapp.homeUrl,
+                splashImageUrl: miniapp.splashImageUrl,
+                splashBackgroundColor: miniapp.splashBackgroundColor,
+            },
+        },
+    };
+}
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+export type ManifestImageField = 'iconUrl' | 'imageUrl' | 'splashImageUrl';
+
+// Aspect ratios clients expect: square icon and splash, 3:2 embed card
+const IMAGE_RATIOS: Record<ManifestImageField, { ratio: number; label: string }> = {
+    iconUrl: { ratio: 1, label: '1:1' },
+    imageUrl: { ratio: 3 / 2, label: '3:2' },
+    splashImageUrl: { ratio: 1, label: '1:1' },
+};
+
+function isSecureUrl(value: unknown): boolean {
+    if (typeof value !== 'string' || value.length > 1024) return false;
+
+    try {
+        return new URL(value).protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+function isBase64Url(value: unknown): value is string {
+    return typeof value === 'string' && /^[A-Za-z0-9_-]+={0,2}$/.test(value);
+}
+
+// Check a manifest against the mini-app spec; returns one message per problem (empty when valid).
+// Image ratios are only checked for the fields whose measured size is passed in.
+export function validateManifest(
+    manifest: MiniAppManifest,
+    imageSizes: Partial<Record<ManifestImageField, ImageSize>> = {}
+): string[] {
+    const issues: string[] = [];
+    const { accountAssociation, miniapp } = manifest;
+
+    if (!isBase64Url(accountAssociation?.header)) issues.push('accountAssociation.header must be base64url');
+    if (!isBase64Url(accountAssociation?.payload)) issues.push('accountAssociation.payload must be base64url');
+    if (typeof accountAssociation?.signature !== 'string' || !accountAssociation.signature) {
+        issues.push('accountAssociation.signature is required');
+    }
+
+    // The signed payload must name the domain the app is served from
+    if (isBase64Url(accountAssociation?.payload) && isSecureUrl(miniapp?.homeUrl)) {
+        try {
+            const { domain } = JSON.parse(Buffer.from(accountAssociation.payload, 'base64url').toString('utf8'));
+            if (domain !== new URL(miniapp.homeUrl).hostname) {
+                issues.push(`accountAssociation domain ${domain} does not match homeUrl`);
+            }
+        } catch {
+            issues.push('accountAssociation.payload is not valid JSON');
+        }
+    }
+
+    if (miniapp?.version !== '1') issues.push('miniapp.version must be "1"');
+    if (typeof miniapp?.name !== 'string' || !miniapp.name || miniapp.name.length > 32) {
+        issues.push('miniapp.name must be 1-32 characters');
+    }
+    if (typeof miniapp?.buttonTitle !== 'string' || !miniapp.buttonTitle || miniapp.buttonTitle.length > 32) {
+        issues.push('miniapp.buttonTitle must be 1-32 characters');
+    }
+    if (!/^#[0-9a-fA-F]{6}$/.test(miniapp?.splashBackgroundColor ?? '')) {
+        issues.push('miniapp.splashBackgroundColor must be a hex color');
+    }
+
+    for (const field of ['iconUrl', 'homeUrl', 'imageUrl', 'splashImageUrl', 'webhookUrl'] as const) {
+        if (!isSecureUrl(miniapp?.[field])) {
+            issues.push(`miniapp.${field} must be an https URL of at most 1024 characters`);
+        }
+    }
+
+    for (const [field, { ratio, label }] of Object.entries(IMAGE_RATIOS) as [ManifestImageField, { ratio: number; label: string }][]) {
+        const size = imageSizes[field];
+        if (size && !(size.height > 0 && Math.abs(size.width / size.height - ratio) < 0.01)) {
+            issues.push(`miniapp.${field} must have a ${label} aspect ratio (got ${size.width}x${size.height})`);
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,100 @@
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    NotificationStore,
+    createLocalAppKeyVerifier,
+    createMemoryNotificationStore,
+    handleWebhookEvent,
+    sendDueUnlockNotifications,
+    setAppKeyVerifier,
+    setNotificationStore,
+    verifyWebhookEvent,
+} from './notifications';
+
+const DETAILS = { url: 'https://client.example/notify', token: 'token-1' };
+
+// JSON Farcaster Signature envelope signed with a fresh Ed25519 app key
+function signEnvelope(fid: number, payload: unknown) {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const appKey = `0x${Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('hex')}`;
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    const header = encode({ fid, type: 'app_key', key: appKey });
+    const body = encode(payload);
+    const signature = sign(null, Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+
+    return { appKey, envelope: { header, payload: body, signature } };
+}
+
+describe('verifyWebhookEvent', () => {
+    beforeEach(() => {
+        setAppKeyVerifier(createLocalAppKeyVerifier());
+    });
+
+    afterEach(() => {
+        setAppKeyVerifier(null);
+    });
+
+    it('accepts a signed event from an active app key', async () => {
+        const { appKey, envelope } = signEnvelope(42, { event: 'notifications_enabled', notificationDetails: DETAILS });
+
+        expect(await verifyWebhookEvent(envelope)).toEqual({
+            fid: 42,
+            appKey,
+            event: { event: 'notifications_enabled', notificationDetails: DETAILS },
+        });
+    });
+
+    it('rejects a tampered payload or an inactive key', async () => {
+        const { envelope } = signEnvelope(42, { event: 'miniapp_removed' });
+        const tampered = { ...envelope, payload: Buffer.from(JSON.stringify({ event: 'miniapp_added' })).toString('base64url') };
+
+        expect(await verifyWebhookEvent(tampered)).toBeNull();
+
+        setAppKeyVerifier({ isActiveAppKey: async () => false });
+        expect(await verifyWebhookEvent(envelope)).toBeNull();
+    });
+});
+
+describe('sendDueUnlockNotifications', () => {
+    let store: NotificationStore;
+
+    beforeEach(() => {
+        store = createMemoryNotificationStore();
+        setNotificationStore(store);
+    });
+
+    afterEach(() => {
+        setNotificationStore(null);
+        vi.unstubAllGlobals();
+    });
+
+    it('sends due unlocks once and drops tokens the client reports invalid', async () => {
+        const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => Response.json({
+            result: { successfulTokens: ['token-1'], invalidTokens: ['token-2'], rateLimitedTokens: [] },
+        }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        await handleWebhookEvent({ fid: 42, appKey: '0x01', event: { event: 'notifications_enabled', notificationDetails: DETAILS } });
+        await handleWebhookEvent({ fid: 42, appKey: '0x02', event: { event: 'notifications_enabled', notificationDetails: { ...DETAILS, token: 'token-2' } } });
+        await store.scheduleUnlock(42, new Date('2026-03-01T12:05:00Z'));
+
+        expect(await sendDueUnlockNotifications(100, new Date('2026-03-01T12:04:59Z'))).toBe(0);
+        expect(await sendDueUnlockNotifications(100, new Date('2026-03-01T12:05:00Z'))).toBe(1);
+        expect(await sendDueUnlockNotifications(100, new Date('2026-03-01T12:10:00Z'))).toBe(0);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toMatchObject({
+            notificationId: `unlock:42:${Date.parse('2026-03-01T12:05:00Z')}`,
+            tokens: ['token-1', 'token-2'],
+        });
+        expect(await store.getTokens(42)).toEqual([DETAILS]);
+    });
+
+    it('forgets the tokens of a client that removed the app', async () => {
+        await handleWebhookEvent({ fid: 42, appKey: '0x01', event: { event: 'miniapp_added', notificationDetails: DETAILS } });
+        await handleWebhookEvent({ fid: 42, appKey: '0x01', event: { event: 'miniapp_removed' } });
+
+        expect(await store.getTokens(42)).toEqual([]);
+    });
+});
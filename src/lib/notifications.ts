@@ -0,0 +1,442 @@
+import { createPublicKey, verify } from 'node:crypto';
+import type { MiniAppNotificationDetails, SendNotificationRequest, SendNotificationResponse } from '@farcaster/miniapp-sdk';
+import { getSupabaseClient, isSupabaseConfigured } from './db';
+import { getAppUrl } from './manifest';
+
+// Mini-app webhook events and "terminal unlocked" notifications
+
+// Body POSTed by Farcaster clients to the manifest's webhookUrl (JSON Farcaster Signature)
+export interface WebhookEnvelope {
+    header: string;     // base64url JSON { fid, type: 'app_key', key }
+    payload: string;    // base64url JSON event
+    signature: string;  // base64url Ed25519 signature of `${header}.${payload}` by the app key
+}
+
+export type WebhookEvent =
+    | { event: 'miniapp_added'; notificationDetails?: MiniAppNotificationDetails }
+    | { event: 'miniapp_removed' }
+    | { event: 'notifications_enabled'; notificationDetails: MiniAppNotificationDetails }
+    | { event: 'notifications_disabled' };
+
+export interface VerifiedWebhookEvent {
+    fid: number;
+    appKey: string;  // 0x-prefixed Ed25519 public key of the client that sent the event
+    event: WebhookEvent;
+}
+
+// Whether an app key is an active signer for a fid
+export interface AppKeyVerifier {
+    isActiveAppKey(fid: number, appKey: string): Promise<boolean>;
+}
+
+// A notification waiting for its send time
+export interface ScheduledNotification {
+    fid: number;
+    notifyAt: Date;
+}
+
+// Persistence for notification tokens and scheduled unlock notifications
+export interface NotificationStore {
+    saveToken(fid: number, appKey: string, details: MiniAppNotificationDetails): Promise<void>;
+    removeToken(fid: number, appKey: string): Promise<void>;
+    removeTokenValues(tokens: string[]): Promise<void>;  // Tokens a client reported as invalid
+    getTokens(fid: number): Promise<MiniAppNotificationDetails[]>;
+    scheduleUnlock(fid: number, notifyAt: Date): Promise<void>;  // One pending unlock per fid
+    takeDueUnlocks(now: Date, limit: number): Promise<ScheduledNotification[]>;
+}
+
+export const UNLOCK_NOTIFICATION = {
+    title: 'Terminal unlocked',
+    body: 'Your cooldown is over. The next node is waiting.',
+};
+
+// Clients accept at most 100 tokens per request
+const MAX_TOKENS_PER_REQUEST = 100;
+
+// Notification schema (the trigger reuses update_updated_at_column from db.ts):
+/*
+CREATE TABLE IF NOT EXISTS notification_tokens (
+    fid BIGINT NOT NULL,
+    app_key TEXT NOT NULL,  -- Client app key; one token per client per player
+    url TEXT NOT NULL,
+    token TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (fid, app_key)
+);
+
+CREATE INDEX IF NOT EXISTS notification_tokens_token_idx ON notification_tokens (token);
+
+CREATE TRIGGER update_notification_tokens_updated_at BEFORE UPDATE
+ON notification_tokens FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS scheduled_unlocks (
+    fid BIGINT PRIMARY KEY,
+    notify_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS scheduled_unlocks_notify_at_idx ON scheduled_unlocks (notify_at);
+
+-- Claim due unlocks: the DELETE ... RETURNING keeps two sweeps from sending the same one
+CREATE OR REPLACE FUNCTION take_due_unlocks(p_now TIMESTAMP WITH TIME ZONE, p_limit INTEGER)
+RETURNS SETOF scheduled_unlocks AS $$
+    DELETE FROM scheduled_unlocks
+    WHERE fid IN (
+        SELECT fid FROM scheduled_unlocks
+        WHERE notify_at <= p_now
+        ORDER BY notify_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ language 'sql';
+
+REVOKE EXECUTE ON FUNCTION take_due_unlocks(TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION take_due_unlocks(TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
+*/
+
+function decodeJson(value: string): unknown {
+    return JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+}
+
+function isNotificationDetails(value: unknown): value is MiniAppNotificationDetails {
+    const details = value as MiniAppNotificationDetails | undefined;
+    return typeof details?.url === 'string'
+        && /^https?:\/\//.test(details.url)
+        && typeof details.token === 'string'
+        && details.token.length > 0;
+}
+
+function parseWebhookEvent(value: unknown): WebhookEvent | null {
+    const payload = value as { event?: unknown; notificationDetails?: unknown } | null;
+
+    switch (payload?.event) {
+        case 'miniapp_added':
+            return isNotificationDetails(payload.notificationDetails)
+                ? { event: 'miniapp_added', notificationDetails: payload.notificationDetails }
+                : { event: 'miniapp_added' };
+        case 'notifications_enabled':
+            return isNotificationDetails(payload.notificationDetails)
+                ? { event: 'notifications_enabled', notificationDetails: payload.notificationDetails }
+                : null;
+        case 'miniapp_removed':
+        case 'notifications_disabled':
+            return { event: payload.event };
+        default:
+            return null;
+    }
+}
+
+// Check the envelope's Ed25519 signature against the app key in its header
+function verifyEnvelopeSignature(envelope: WebhookEnvelope, appKey: string): boolean {
+    const publicKey = createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(appKey.slice(2), 'hex').toString('base64url') },
+        format: 'jwk',
+    });
+
+    return verify(
+        null,
+        Buffer.from(`${envelope.header}.${envelope.payload}`),
+        publicKey,
+        Buffer.from(envelope.signature, 'base64url')
+    );
+}
+
+// Farcaster hub lookup: the app key must be a signer the fid registered onchain
+export function createHubAppKeyVerifier(hubUrl: string, apiKey?: string): AppKeyVerifier {
+    return {
+        async isActiveAppKey(fid, appKey) {
+            const url = new URL('/v1/onChainSignersByFid', hubUrl);
+            url.searchParams.set('fid', String(fid));
+            url.searchParams.set('signer', appKey);
+
+            const res = await fetch(url, { headers: apiKey ? { 'x-api-key': apiKey } : {} });
+            return res.ok;
+        },
+    };
+}
+
+// Accepts any correctly signed key (local development and tests)
+export function createLocalAppKeyVerifier(): AppKeyVerifier {
+    return {
+        async isActiveAppKey() {
+            return true;
+        },
+    };
+}
+
+let appKeyVerifier: AppKeyVerifier | null = null;
+
+// Hub lookup by default; WEBHOOK_VERIFIER=local skips it
+export function getAppKeyVerifier(): AppKeyVerifier {
+    if (!appKeyVerifier) {
+        appKeyVerifier = process.env.WEBHOOK_VERIFIER === 'local'
+            ? createLocalAppKeyVerifier()
+            : createHubAppKeyVerifier(
+                process.env.FARCASTER_HUB_URL || 'https://hub-api.neynar.com',
+                process.env.NEYNAR_API_KEY
+            );
+    }
+    return appKeyVerifier;
+}
+
+// Override the app key verifier (tests)
+export function setAppKeyVerifier(verifier: AppKeyVerifier | null): void {
+    appKeyVerifier = verifier;
+}
+
+// Decode and verify a webhook body; null if it is malformed, badly signed or from an unknown key
+export async function verifyWebhookEvent(body: unknown): Promise<VerifiedWebhookEvent | null> {
+    try {
+        const envelope = body as WebhookEnvelope;
+        if (typeof envelope?.header !== 'string' || typeof envelope.payload !== 'string' || typeof envelope.signature !== 'string') {
+            return null;
+        }
+
+        const header = decodeJson(envelope.header) as { fid?: unknown; type?: unknown; key?: unknown };
+        const fid = Number(header.fid);
+        const appKey = typeof header.key === 'string' ? header.key.toLowerCase() : '';
+
+        if (!Number.isInteger(fid) || fid <= 0 || header.type !== 'app_key' || !/^0x[0-9a-f]{64}$/.test(appKey)) {
+            return null;
+        }
+
+        if (!verifyEnvelopeSignature(envelope, appKey)) {
+            return null;
+        }
+
+        const event = parseWebhookEvent(decodeJson(envelope.payload));
+        if (!event || !(await getAppKeyVerifier().isActiveAppKey(fid, appKey))) {
+            return null;
+        }
+
+        return { fid, appKey, event };
+    } catch (error) {
+        console.error('Webhook event rejected:', error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+// In-memory store (single instance only: local development)
+export function createMemoryNotificationStore(): NotificationStore {
+    const tokens = new Map<string, { fid: number; details: MiniAppNotificationDetails }>();
+    const unlocks = new Map<number, Date>();
+
+    return {
+        async saveToken(fid, appKey, details) {
+            tokens.set(`${fid}:${appKey}`, { fid, details });
+        },
+
+        async removeToken(fid, appKey) {
+            tokens.delete(`${fid}:${appKey}`);
+        },
+
+        async removeTokenValues(values) {
+            for (const [key, entry] of tokens) {
+                if (values.includes(entry.details.token)) {
+                    tokens.delete(key);
+                }
+            }
+        },
+
+        async getTokens(fid) {
+            return Array.from(tokens.values())
+                .filter(entry => entry.fid === fid)
+                .map(entry => entry.details);
+        },
+
+        async scheduleUnlock(fid, notifyAt) {
+            unlocks.set(fid, notifyAt);
+        },
+
+        async takeDueUnlocks(now, limit) {
+            const due = Array.from(unlocks.entries())
+                .filter(([, notifyAt]) => notifyAt <= now)
+                .sort((a, b) => a[1].getTime() - b[1].getTime())
+                .slice(0, limit);
+
+            for (const [fid] of due) {
+                unlocks.delete(fid);
+            }
+
+            return due.map(([fid, notifyAt]) => ({ fid, notifyAt }));
+        },
+    };
+}
+
+// Postgres store (shared across serverless instances)
+export function createPostgresNotificationStore(): NotificationStore {
+    return {
+        async saveToken(fid, appKey, details) {
+            const { error } = await getSupabaseClient()
+                .from('notification_tokens')
+                .upsert({ fid, app_key: appKey, url: details.url, token: details.token }, { onConflict: 'fid,app_key' });
+
+            if (error) throw error;
+        },
+
+        async removeToken(fid, appKey) {
+            const { error } = await getSupabaseClient()
+                .from('notification_tokens')
+                .delete()
+                .eq('fid', fid)
+                .eq('app_key', appKey);
+
+            if (error) throw error;
+        },
+
+        async removeTokenValues(values) {
+            if (values.length === 0) return;
+
+            const { error } = await getSupabaseClient()
+                .from('notification_tokens')
+                .delete()
+                .in('token', values);
+
+            if (error) throw error;
+        },
+
+        async getTokens(fid) {
+            const { data, error } = await getSupabaseClient()
+                .from('notification_tokens')
+                .select('url, token')
+                .eq('fid', fid);
+
+            if (error) throw error;
+            return (data ?? []) as MiniAppNotificationDetails[];
+        },
+
+        async scheduleUnlock(fid, notifyAt) {
+            const { error } = await getSupabaseClient()
+                .from('scheduled_unlocks')
+                .upsert({ fid, notify_at: notifyAt.toISOString() }, { onConflict: 'fid' });
+
+            if (error) throw error;
+        },
+
+        async takeDueUnlocks(now, limit) {
+            const { data, error } = await getSupabaseClient()
+                .rpc('take_due_unlocks', { p_now: now.toISOString(), p_limit: limit });
+
+            if (error) throw error;
+            return ((data ?? []) as { fid: number; notify_at: string }[]).map(row => ({
+                fid: Number(row.fid),
+                notifyAt: new Date(row.notify_at),
+            }));
+        },
+    };
+}
+
+let notificationStore: NotificationStore | null = null;
+
+// Postgres when Supabase is configured, memory otherwise (NOTIFICATION_STORE overrides)
+export function getNotificationStore(): NotificationStore {
+    if (!notificationStore) {
+        const backend = process.env.NOTIFICATION_STORE || (isSupabaseConfigured() ? 'postgres' : 'memory');
+        notificationStore = backend === 'postgres'
+            ? createPostgresNotificationStore()
+            : createMemoryNotificationStore();
+    }
+    return notificationStore;
+}
+
+// Override the notification store (tests)
+export function setNotificationStore(store: NotificationStore | null): void {
+    notificationStore = store;
+}
+
+// Apply a verified webhook event to the player's stored tokens
+export async function handleWebhookEvent({ fid, appKey, event }: VerifiedWebhookEvent): Promise<void> {
+    const store = getNotificationStore();
+
+    switch (event.event) {
+        case 'miniapp_added':
+        case 'notifications_enabled':
+            if (event.notificationDetails) {
+                await store.saveToken(fid, appKey, event.notificationDetails);
+            }
+            break;
+        case 'miniapp_removed':
+        case 'notifications_disabled':
+            await store.removeToken(fid, appKey);
+            break;
+    }
+}
+
+// Queue the "terminal unlocked" notification for when a cooldown ends.
+// Never fails the caller: a missed notification must not block a game start.
+export async function scheduleUnlockNotification(fid: number, cooldownEndsAt: Date): Promise<void> {
+    try {
+        await getNotificationStore().scheduleUnlock(fid, cooldownEndsAt);
+    } catch (error) {
+        console.error('Error scheduling unlock notification:', error);
+    }
+}
+
+// Send one notification to every client a player enabled; drops tokens clients report invalid
+export async function sendNotification(
+    fid: number,
+    notification: Omit<SendNotificationRequest, 'tokens'>
+): Promise<number> {
+    const store = getNotificationStore();
+    const byUrl = new Map<string, string[]>();
+
+    for (const { url, token } of await store.getTokens(fid)) {
+        byUrl.set(url, [...(byUrl.get(url) ?? []), token]);
+    }
+
+    let delivered = 0;
+
+    for (const [url, tokens] of byUrl) {
+        for (let i = 0; i < tokens.length; i += MAX_TOKENS_PER_REQUEST) {
+            const request: SendNotificationRequest = {
+                ...notification,
+                tokens: tokens.slice(i, i + MAX_TOKENS_PER_REQUEST),
+            };
+
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request),
+            });
+
+            if (!res.ok) {
+                console.error(`Notification to ${url} failed with status ${res.status}`);
+                continue;
+            }
+
+            const { result } = await res.json() as SendNotificationResponse;
+            delivered += result.successfulTokens.length;
+            await store.removeTokenValues(result.invalidTokens);
+        }
+    }
+
+    return delivered;
+}
+
+// Whether the local stub notification endpoint is enabled (NOTIFICATION_STUB=1)
+export function isNotificationStubEnabled(): boolean {
+    return process.env.NOTIFICATION_STUB === '1';
+}
+
+// Send every due unlock notification (run periodically)
+export async function sendDueUnlockNotifications(limit: number = 100, now: Date = new Date()): Promise<number> {
+    const due = await getNotificationStore().takeDueUnlocks(now, limit);
+    let delivered = 0;
+
+    for (const { fid, notifyAt } of due) {
+        try {
+            delivered += await sendNotification(fid, {
+                // Stable per cooldown, so clients drop a duplicate send
+                notificationId: `unlock:${fid}:${notifyAt.getTime()}`,
+                title: UNLOCK_NOTIFICATION.title,
+                body: UNLOCK_NOTIFICATION.body,
+                targetUrl: getAppUrl(),
+            });
+        } catch (error) {
+            console.error('Error sending unlock notification:', error);
+        }
+    }
+
+    return delivered;
+}
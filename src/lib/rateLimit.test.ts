@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryRateLimitStore, checkRateLimit, createMemoryRateLimitStore, setRateLimitStore } from './rateLimit';
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+describe('checkRateLimit', () => {
+    let store: MemoryRateLimitStore;
+
+    beforeEach(() => {
+        store = createMemoryRateLimitStore();
+        setRateLimitStore(store);
+    });
+
+    afterEach(() => {
+        setRateLimitStore(null);
+    });
+
+    it('blocks a key over its limit until the window slides past', async () => {
+        for (let i = 0; i < 10; i++) {
+            expect(await checkRateLimit('/api/auth/session', 'POST', ['ip:1.2.3.4'], NOW + i)).toBeNull();
+        }
+
+        expect(await checkRateLimit('/api/auth/session', 'POST', ['ip:1.2.3.4'], NOW + 10)).toMatchObject({
+            allowed: false,
+            retryAfterMs: 60 * 1000 - 10,
+        });
+        expect(await checkRateLimit('/api/auth/session', 'POST', ['ip:5.6.7.8'], NOW + 10)).toBeNull();
+        expect(await checkRateLimit('/api/auth/session', 'POST', ['ip:1.2.3.4'], NOW + 60 * 1000)).toBeNull();
+    });
+
+    it('counts the fid across IPs', async () => {
+        for (let i = 0; i < 10; i++) {
+            await checkRateLimit('/api/auth/session', 'POST', [`ip:10.0.0.${i}`, 'fid:42'], NOW);
+        }
+
+        expect(await checkRateLimit('/api/auth/session', 'POST', ['ip:10.0.0.99', 'fid:42'], NOW)).not.toBeNull();
+    });
+
+    it('forgets keys whose hits have left the window', async () => {
+        await checkRateLimit('/api/auth/session', 'POST', ['ip:1.2.3.4'], NOW);
+        expect(store.size()).toBe(2);
+
+        await checkRateLimit('/api/auth/session', 'POST', ['ip:5.6.7.8'], NOW + 2 * 60 * 1000);
+        expect(store.size()).toBe(2);
+    });
+});
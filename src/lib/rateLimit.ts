@@ -0,0 +1,202 @@
+import { getSupabaseClient, isSupabaseConfigured } from './db';
+
+// Sliding-window rate limiting for the API routes (applied in src/proxy.ts)
+
+export interface RateLimitRule {
+    name: string;
+    limit: number;      // Requests allowed per window
+    windowMs: number;
+    matches(pathname: string, method: string): boolean;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    retryAfterMs: number;  // 0 when allowed
+}
+
+// Counts hits per key over the trailing window
+export interface RateLimitStore {
+    hit(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult>;
+}
+
+export interface MemoryRateLimitStore extends RateLimitStore {
+    size(): number;     // Keys currently tracked
+}
+
+// Every matching rule is checked, once per IP and once per verified fid
+export const RATE_LIMIT_RULES: RateLimitRule[] = [
+    {
+        // Options polling: the client needs one call per round
+        name: 'game-options',
+        limit: 20,
+        windowMs: 60 * 1000,
+        matches: (pathname, method) => pathname === '/api/game/submit' && method === 'GET',
+    },
+    {
+        name: 'game',
+        limit: 60,
+        windowMs: 60 * 1000,
+        matches: (pathname) => pathname.startsWith('/api/game/'),
+    },
+    {
+        name: 'auth',
+        limit: 10,
+        windowMs: 60 * 1000,
+        matches: (pathname) => pathname.startsWith('/api/auth/'),
+    },
+    {
+        // Webhooks come from a few Farcaster client servers on behalf of every player
+        name: 'api',
+        limit: 120,
+        windowMs: 60 * 1000,
+        matches: (pathname) => pathname.startsWith('/api/') && pathname !== '/api/webhook',
+    },
+];
+
+// Hits table and the atomic check-and-record function:
+/*
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+    id BIGSERIAL PRIMARY KEY,
+    key TEXT NOT NULL,
+    hit_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_hits_key_idx ON rate_limit_hits (key, hit_at);
+CREATE INDEX IF NOT EXISTS rate_limit_hits_hit_at_idx ON rate_limit_hits (hit_at);
+
+-- Drop hits outside the window, then record this one if the key is under its limit.
+-- The advisory lock serializes concurrent requests for the same key. About one call in a
+-- hundred also sweeps hits older than an hour (longer than any rule's window), so keys
+-- that are never checked again don't stay in the table.
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key TEXT, p_limit INTEGER, p_window_ms INTEGER)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, retry_after_ms INTEGER) AS $$
+DECLARE
+    window_start TIMESTAMP WITH TIME ZONE := NOW() - (p_window_ms || ' milliseconds')::INTERVAL;
+    hits INTEGER;
+    oldest TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF random() < 0.01 THEN
+        DELETE FROM rate_limit_hits WHERE hit_at < NOW() - INTERVAL '1 hour';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+    DELETE FROM rate_limit_hits WHERE key = p_key AND hit_at <= window_start;
+    SELECT COUNT(*), MIN(hit_at) INTO hits, oldest FROM rate_limit_hits WHERE key = p_key;
+
+    IF hits >= p_limit THEN
+        RETURN QUERY SELECT FALSE, 0,
+            GREATEST(0, CEIL(EXTRACT(EPOCH FROM (oldest - window_start)) * 1000))::INTEGER;
+        RETURN;
+    END IF;
+
+    INSERT INTO rate_limit_hits (key) VALUES (p_key);
+    RETURN QUERY SELECT TRUE, p_limit - hits - 1, 0;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER, INTEGER) TO service_role;
+*/
+
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// In-memory store (per instance: local development and single-node deployments).
+// Keys whose hits have all left their window are swept at most once a minute.
+export function createMemoryRateLimitStore(): MemoryRateLimitStore {
+    const hits = new Map<string, { times: number[]; windowMs: number }>();
+    let lastSweep = 0;
+
+    return {
+        async hit(key, limit, windowMs, now) {
+            if (now - lastSweep >= MEMORY_SWEEP_INTERVAL_MS) {
+                for (const [entryKey, entry] of hits) {
+                    if (entry.times[entry.times.length - 1] <= now - entry.windowMs) hits.delete(entryKey);
+                }
+                lastSweep = now;
+            }
+
+            const windowStart = now - windowMs;
+            const recent = (hits.get(key)?.times ?? []).filter(time => time > windowStart);
+
+            if (recent.length >= limit) {
+                hits.set(key, { times: recent, windowMs });
+                return { allowed: false, remaining: 0, retryAfterMs: recent[0] - windowStart };
+            }
+
+            recent.push(now);
+            hits.set(key, { times: recent, windowMs });
+            return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+        },
+
+        size: () => hits.size,
+    };
+}
+
+// Postgres store (shared across serverless instances)
+export function createPostgresRateLimitStore(): RateLimitStore {
+    return {
+        async hit(key, limit, windowMs) {
+            const { data, error } = await getSupabaseClient()
+                .rpc('rate_limit_hit', { p_key: key, p_limit: limit, p_window_ms: windowMs })
+                .single<{ allowed: boolean; remaining: number; retry_after_ms: number }>();
+
+            if (error || !data) throw error;
+
+            return {
+                allowed: data.allowed,
+                remaining: data.remaining,
+                retryAfterMs: data.retry_after_ms,
+            };
+        },
+    };
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+// Postgres when Supabase is configured, memory otherwise (RATE_LIMIT_STORE overrides)
+export function getRateLimitStore(): RateLimitStore {
+    if (!rateLimitStore) {
+        const backend = process.env.RATE_LIMIT_STORE || (isSupabaseConfigured() ? 'postgres' : 'memory');
+        rateLimitStore = backend === 'postgres'
+            ? createPostgresRateLimitStore()
+            : createMemoryRateLimitStore();
+    }
+    return rateLimitStore;
+}
+
+// Override the rate limit store (tests)
+export function setRateLimitStore(store: RateLimitStore | null): void {
+    rateLimitStore = store;
+}
+
+// Check every rule for a request against each of its keys (ip:..., fid:...).
+// Returns the most restrictive failure, or null when the request may proceed.
+export async function checkRateLimit(
+    pathname: string,
+    method: string,
+    keys: string[],
+    now: number = Date.now()
+): Promise<RateLimitResult | null> {
+    const store = getRateLimitStore();
+    let blocked: RateLimitResult | null = null;
+
+    for (const rule of RATE_LIMIT_RULES) {
+        if (!rule.matches(pathname, method)) continue;
+
+        for (const key of keys) {
+            try {
+                const result = await store.hit(`${rule.name}:${key}`, rule.limit, rule.windowMs, now);
+                if (!result.allowed && (!blocked || result.retryAfterMs > blocked.retryAfterMs)) {
+                    blocked = result;
+                }
+            } catch (error) {
+                // Fail open: an unavailable store must not take the API down
+                console.error('Rate limit check failed:', error);
+            }
+        }
+    }
+
+    return blocked;
+}
@@ -0,0 +1,62 @@
+// Deterministic randomness so a session can be replayed from its seed
+
+// Returns a float in [0, 1), same contract as Math.random
+export type Rng = () => number;
+
+// Hash a string into four 32-bit words (cyrb128)
+function hashString(input: string): [number, number, number, number] {
+    let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+
+    for (let i = 0; i < input.length; i++) {
+        const k = input.charCodeAt(i);
+        h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+        h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+        h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+        h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+    }
+
+    h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+    h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+    h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+    h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+
+    return [(h1 ^ h2 ^ h3 ^ h4) >>> 0, (h2 ^ h1) >>> 0, (h3 ^ h1) >>> 0, (h4 ^ h1) >>> 0];
+}
+
+// Seeded PRNG (sfc32)
+export function createRng(seed: string): Rng {
+    let [a, b, c, d] = hashString(seed);
+
+    return () => {
+        a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0;
+        let t = (a + b) | 0;
+        a = b ^ (b >>> 9);
+        b = (c + (c << 3)) | 0;
+        c = (c << 21) | (c >>> 11);
+        d = (d + 1) | 0;
+        t = (t + d) | 0;
+        c = (c + t) | 0;
+        return (t >>> 0) / 4294967296;
+    };
+}
+
+// Independent stream for each round of a session
+export function createRoundRng(seed: string, round: number): Rng {
+    return createRng(`${seed}:round:${round}`);
+}
+
+// Unbiased Fisher-Yates shuffle (returns a new array)
+export function shuffle<T>(items: T[], rng: Rng = Math.random): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+// Commitment published at session start: hex SHA-256 of the seed (Web Crypto, works in the browser too)
+export async function hashSeed(seed: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(seed));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
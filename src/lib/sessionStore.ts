@@ -0,0 +1,557 @@
+import { getSupabaseClient, isSupabaseConfigured } from './db';
+import { isToday, type Difficulty, type GameMode } from './gameLogic';
+import type { GameSession, PlayerData, RoundTiming } from './store';
+
+// Persistence for player cooldown state and in-flight game sessions
+export interface SessionStore {
+    getPlayer(fid: number): Promise<PlayerData>;
+    updatePlayer(fid: number, updates: Partial<PlayerData>): Promise<PlayerData>;
+    // Check the ban and session limit and start the cooldown in one atomic step; null if refused
+    startSessionCooldown(fid: number, playedAt: Date, cooldownEndsAt: Date, maxSessions: number): Promise<PlayerData | null>;
+    // Give back a slot taken by startSessionCooldown whose session never started
+    releaseSessionCooldown(fid: number, now: Date): Promise<void>;
+    claimDailyAttempt(fid: number, now: Date): Promise<boolean>;  // False if today's attempt is used
+    createSession(session: GameSession): Promise<void>;
+    getSession(sessionId: string): Promise<GameSession | undefined>;
+    updateSession(sessionId: string, updates: Partial<GameSession>): Promise<GameSession | undefined>;
+    // Swap the round nonce only if it still matches (compare-and-set); undefined if another request used it
+    consumeNonce(sessionId: string, nonce: string, nextNonce: string): Promise<GameSession | undefined>;
+    deleteSession(sessionId: string): Promise<void>;
+    listExpiredSessions(now: Date, limit: number): Promise<GameSession[]>;
+}
+
+// Default state for a player that has never played
+export function createDefaultPlayer(fid: number): PlayerData {
+    return {
+        fid,
+        sessionsInCooldown: 0,
+        lastPlayedAt: null,
+        cooldownEndsAt: null,
+        totalTokens: 0,
+        lastDailyAt: null,
+        bannedAt: null,
+        banReason: null,
+    };
+}
+
+// Sessions already used in the cooldown window that is current at `now`
+function activeSessionCount(player: PlayerData, now: Date): number {
+    if (!player.cooldownEndsAt || new Date(player.cooldownEndsAt) <= now) {
+        return 0;
+    }
+    return player.sessionsInCooldown;
+}
+
+// In-memory store (single instance only: local development)
+export function createMemorySessionStore(): SessionStore {
+    const players = new Map<number, PlayerData>();
+    const sessions = new Map<string, GameSession>();
+
+    return {
+        async getPlayer(fid) {
+            return players.get(fid) ?? createDefaultPlayer(fid);
+        },
+
+        async updatePlayer(fid, updates) {
+            const player = players.get(fid) ?? createDefaultPlayer(fid);
+            const updated = { ...player, ...updates, fid };
+            players.set(fid, updated);
+            return updated;
+        },
+
+        async startSessionCooldown(fid, playedAt, cooldownEndsAt, maxSessions) {
+            const player = players.get(fid) ?? createDefaultPlayer(fid);
+            const activeSessions = activeSessionCount(player, playedAt);
+            if (player.bannedAt || activeSessions >= maxSessions) {
+                return null;
+            }
+
+            const updated = {
+                ...player,
+                sessionsInCooldown: activeSessions + 1,
+                lastPlayedAt: playedAt,
+                cooldownEndsAt,
+            };
+            players.set(fid, updated);
+            return updated;
+        },
+
+        async releaseSessionCooldown(fid, now) {
+            const player = players.get(fid);
+            if (!player || activeSessionCount(player, now) === 0) return;
+
+            players.set(fid, { ...player, sessionsInCooldown: player.sessionsInCooldown - 1 });
+        },
+
+        async claimDailyAttempt(fid, now) {
+            const player = players.get(fid) ?? createDefaultPlayer(fid);
+            if (player.lastDailyAt && isToday(player.lastDailyAt)) {
+                return false;
+            }
+
+            players.set(fid, { ...player, lastDailyAt: now });
+            return true;
+        },
+
+        async createSession(session) {
+            sessions.set(session.id, session);
+        },
+
+        async getSession(sessionId) {
+            return sessions.get(sessionId);
+        },
+
+        async updateSession(sessionId, updates) {
+            const session = sessions.get(sessionId);
+            if (!session) return undefined;
+
+            const updated = { ...session, ...updates };
+            sessions.set(sessionId, updated);
+            return updated;
+        },
+
+        async consumeNonce(sessionId, nonce, nextNonce) {
+            const session = sessions.get(sessionId);
+            if (!session || session.nonce !== nonce) return undefined;
+
+            const updated = { ...session, nonce: nextNonce };
+            sessions.set(sessionId, updated);
+            return updated;
+        },
+
+        async deleteSession(sessionId) {
+            sessions.delete(sessionId);
+        },
+
+        async listExpiredSessions(now, limit) {
+            return Array.from(sessions.values())
+                .filter(session => !session.completed && new Date(session.expiresAt) < now)
+                .slice(0, limit);
+        },
+    };
+}
+
+// Schema for the Postgres store (player cooldowns and in-flight sessions):
+/*
+CREATE TABLE IF NOT EXISTS player_state (
+    fid BIGINT PRIMARY KEY,
+    sessions_in_cooldown INTEGER DEFAULT 0,
+    last_played_at TIMESTAMP WITH TIME ZONE,
+    cooldown_ends_at TIMESTAMP WITH TIME ZONE,
+    total_tokens INTEGER DEFAULT 0,
+    last_daily_at TIMESTAMP WITH TIME ZONE,
+    banned_at TIMESTAMP WITH TIME ZONE,
+    ban_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS game_sessions (
+    id TEXT PRIMARY KEY,
+    fid BIGINT NOT NULL,
+    difficulty TEXT NOT NULL DEFAULT 'standard',
+    mode TEXT NOT NULL DEFAULT 'classic',
+    total_rounds INTEGER NOT NULL,
+    seed TEXT NOT NULL,
+    seed_commitment TEXT NOT NULL,
+    round INTEGER NOT NULL,
+    shown_numbers INTEGER[] NOT NULL,
+    fake_numbers INTEGER[] NOT NULL,
+    selection_options INTEGER[] NOT NULL,
+    nonce TEXT NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    round_started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    display_time INTEGER NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    tokens_earned INTEGER DEFAULT 0,
+    completed BOOLEAN DEFAULT FALSE,
+    abandoned BOOLEAN DEFAULT FALSE,
+    correct_answers INTEGER DEFAULT 0,
+    wrong_answers INTEGER DEFAULT 0,
+    streak_multiplier REAL DEFAULT 1,
+    round_timings JSONB NOT NULL DEFAULT '[]',
+    suspicion_score REAL NOT NULL DEFAULT 0,
+    challenge_id TEXT,
+    tournament_id BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS game_sessions_fid_idx ON game_sessions (fid);
+CREATE INDEX IF NOT EXISTS game_sessions_expires_at_idx ON game_sessions (expires_at) WHERE NOT completed;
+
+CREATE TRIGGER update_player_state_updated_at BEFORE UPDATE
+ON player_state FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+CREATE TRIGGER update_game_sessions_updated_at BEFORE UPDATE
+ON game_sessions FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Take a session slot: the ban and limit checks and the cooldown update are one conditional UPDATE,
+-- so concurrent starts serialize on the row and only those within the limit get it back
+CREATE OR REPLACE FUNCTION start_session_cooldown(
+    p_fid BIGINT,
+    p_played_at TIMESTAMP WITH TIME ZONE,
+    p_cooldown_ends_at TIMESTAMP WITH TIME ZONE,
+    p_max_sessions INTEGER
+)
+RETURNS SETOF player_state AS $$
+BEGIN
+    INSERT INTO player_state (fid) VALUES (p_fid) ON CONFLICT (fid) DO NOTHING;
+
+    RETURN QUERY
+    UPDATE player_state SET
+        sessions_in_cooldown = CASE
+            WHEN cooldown_ends_at IS NULL OR cooldown_ends_at <= p_played_at THEN 1
+            ELSE sessions_in_cooldown + 1
+        END,
+        last_played_at = p_played_at,
+        cooldown_ends_at = p_cooldown_ends_at
+    WHERE fid = p_fid
+        AND banned_at IS NULL
+        AND (cooldown_ends_at IS NULL OR cooldown_ends_at <= p_played_at OR sessions_in_cooldown < p_max_sessions)
+    RETURNING *;
+END;
+$$ language 'plpgsql';
+
+-- Only the server (service role) may call it; PostgREST would otherwise expose it to the anon key
+REVOKE EXECUTE ON FUNCTION start_session_cooldown(BIGINT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION start_session_cooldown(BIGINT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
+
+-- Undo one start_session_cooldown in the current window (a duel called off before it began)
+CREATE OR REPLACE FUNCTION release_session_cooldown(p_fid BIGINT, p_now TIMESTAMP WITH TIME ZONE)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE player_state SET sessions_in_cooldown = sessions_in_cooldown - 1
+    WHERE fid = p_fid AND sessions_in_cooldown > 0 AND cooldown_ends_at > p_now;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION release_session_cooldown(BIGINT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_session_cooldown(BIGINT, TIMESTAMP WITH TIME ZONE) TO service_role;
+*/
+
+interface PlayerStateRow {
+    fid: number;
+    sessions_in_cooldown: number;
+    last_played_at: string | null;
+    cooldown_ends_at: string | null;
+    total_tokens: number;
+    last_daily_at: string | null;
+    banned_at: string | null;
+    ban_reason: string | null;
+}
+
+interface GameSessionRow {
+    id: string;
+    fid: number;
+    difficulty: Difficulty;
+    mode: GameMode;
+    total_rounds: number;
+    seed: string;
+    seed_commitment: string;
+    round: number;
+    shown_numbers: number[];
+    fake_numbers: number[];
+    selection_options: number[];
+    nonce: string;
+    started_at: string;
+    round_started_at: string;
+    display_time: number;
+    expires_at: string;
+    tokens_earned: number;
+    completed: boolean;
+    abandoned: boolean;
+    correct_answers: number;
+    wrong_answers: number;
+    streak_multiplier: number;
+    round_timings: RoundTiming[];
+    suspicion_score: number;
+    challenge_id: string | null;
+    tournament_id: number | null;
+}
+
+function toDate(value: string | null): Date | null {
+    return value ? new Date(value) : null;
+}
+
+function toIso(value: Date | null): string | null {
+    return value ? new Date(value).toISOString() : null;
+}
+
+function playerFromRow(row: PlayerStateRow): PlayerData {
+    return {
+        fid: Number(row.fid),
+        sessionsInCooldown: row.sessions_in_cooldown,
+        lastPlayedAt: toDate(row.last_played_at),
+        cooldownEndsAt: toDate(row.cooldown_ends_at),
+        totalTokens: row.total_tokens,
+        lastDailyAt: toDate(row.last_daily_at),
+        bannedAt: toDate(row.banned_at),
+        banReason: row.ban_reason,
+    };
+}
+
+function playerToRow(player: PlayerData): PlayerStateRow {
+    return {
+        fid: player.fid,
+        sessions_in_cooldown: player.sessionsInCooldown,
+        last_played_at: toIso(player.lastPlayedAt),
+        cooldown_ends_at: toIso(player.cooldownEndsAt),
+        total_tokens: player.totalTokens,
+        last_daily_at: toIso(player.lastDailyAt),
+        banned_at: toIso(player.bannedAt),
+        ban_reason: player.banReason,
+    };
+}
+
+const playerColumns: Record<Exclude<keyof PlayerData, 'fid'>, keyof PlayerStateRow> = {
+    sessionsInCooldown: 'sessions_in_cooldown',
+    lastPlayedAt: 'last_played_at',
+    cooldownEndsAt: 'cooldown_ends_at',
+    totalTokens: 'total_tokens',
+    lastDailyAt: 'last_daily_at',
+    bannedAt: 'banned_at',
+    banReason: 'ban_reason',
+};
+
+// Only the columns present in `updates`, so a partial update can't clobber fields written elsewhere
+function playerUpdatesToRow(updates: Partial<PlayerData>): Partial<PlayerStateRow> {
+    const row = playerToRow({ ...createDefaultPlayer(0), ...updates });
+    return Object.fromEntries(
+        (Object.keys(playerColumns) as (keyof typeof playerColumns)[])
+            .filter(key => updates[key] !== undefined)
+            .map(key => [playerColumns[key], row[playerColumns[key]]])
+    );
+}
+
+function sessionFromRow(row: GameSessionRow): GameSession {
+    return {
+        id: row.id,
+        fid: Number(row.fid),
+        difficulty: row.difficulty,
+        mode: row.mode ?? 'classic',
+        totalRounds: row.total_rounds,
+        seed: row.seed,
+        seedCommitment: row.seed_commitment,
+        round: row.round,
+        shownNumbers: row.shown_numbers,
+        fakeNumbers: row.fake_numbers,
+        selectionOptions: row.selection_options,
+        nonce: row.nonce,
+        startedAt: new Date(row.started_at),
+        roundStartedAt: new Date(row.round_started_at),
+        displayTime: row.display_time,
+        expiresAt: new Date(row.expires_at),
+        tokensEarned: row.tokens_earned,
+        completed: row.completed,
+        abandoned: row.abandoned,
+        correctAnswers: row.correct_answers,
+        wrongAnswers: row.wrong_answers,
+        streakMultiplier: Number(row.streak_multiplier ?? 1),
+        roundTimings: row.round_timings ?? [],
+        suspicionScore: Number(row.suspicion_score ?? 0),
+        challengeId: row.challenge_id ?? null,
+        tournamentId: row.tournament_id ? Number(row.tournament_id) : null,
+    };
+}
+
+function sessionToRow(session: GameSession): GameSessionRow {
+    return {
+        id: session.id,
+        fid: session.fid,
+        difficulty: session.difficulty,
+        mode: session.mode,
+        total_rounds: session.totalRounds,
+        seed: session.seed,
+        seed_commitment: session.seedCommitment,
+        round: session.round,
+        shown_numbers: session.shownNumbers,
+        fake_numbers: session.fakeNumbers,
+        selection_options: session.selectionOptions,
+        nonce: session.nonce,
+        started_at: new Date(session.startedAt).toISOString(),
+        round_started_at: new Date(session.roundStartedAt).toISOString(),
+        display_time: session.displayTime,
+        expires_at: new Date(session.expiresAt).toISOString(),
+        tokens_earned: session.tokensEarned,
+        completed: session.completed,
+        abandoned: session.abandoned,
+        correct_answers: session.correctAnswers,
+        wrong_answers: session.wrongAnswers,
+        streak_multiplier: session.streakMultiplier,
+        round_timings: session.roundTimings,
+        suspicion_score: session.suspicionScore,
+        challenge_id: session.challengeId,
+        tournament_id: session.tournamentId,
+    };
+}
+
+// Postgres store (shared across serverless instances)
+export function createPostgresSessionStore(): SessionStore {
+    async function loadPlayer(fid: number): Promise<PlayerData> {
+        const { data, error } = await getSupabaseClient()
+            .from('player_state')
+            .select('*')
+            .eq('fid', fid)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data ? playerFromRow(data as PlayerStateRow) : createDefaultPlayer(fid);
+    }
+
+    async function loadSession(sessionId: string): Promise<GameSession | undefined> {
+        const { data, error } = await getSupabaseClient()
+            .from('game_sessions')
+            .select('*')
+            .eq('id', sessionId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data ? sessionFromRow(data as GameSessionRow) : undefined;
+    }
+
+    return {
+        getPlayer: loadPlayer,
+
+        async updatePlayer(fid, updates) {
+            const columns = playerUpdatesToRow(updates);
+            if (Object.keys(columns).length === 0) return loadPlayer(fid);
+
+            const client = getSupabaseClient();
+            const { error: insertError } = await client
+                .from('player_state')
+                .upsert({ fid }, { onConflict: 'fid', ignoreDuplicates: true });
+            if (insertError) throw insertError;
+
+            const { data, error } = await client
+                .from('player_state')
+                .update(columns)
+                .eq('fid', fid)
+                .select('*')
+                .single();
+
+            if (error) throw error;
+            return playerFromRow(data as PlayerStateRow);
+        },
+
+        async startSessionCooldown(fid, playedAt, cooldownEndsAt, maxSessions) {
+            const { data, error } = await getSupabaseClient().rpc('start_session_cooldown', {
+                p_fid: fid,
+                p_played_at: playedAt.toISOString(),
+                p_cooldown_ends_at: cooldownEndsAt.toISOString(),
+                p_max_sessions: maxSessions,
+            });
+
+            if (error) throw error;
+            const [row] = (data ?? []) as PlayerStateRow[];
+            return row ? playerFromRow(row) : null;
+        },
+
+        async releaseSessionCooldown(fid, now) {
+            const { error } = await getSupabaseClient().rpc('release_session_cooldown', {
+                p_fid: fid,
+                p_now: now.toISOString(),
+            });
+
+            if (error) throw error;
+        },
+
+        async claimDailyAttempt(fid, now) {
+            const client = getSupabaseClient();
+            const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+            const { error: insertError } = await client
+                .from('player_state')
+                .upsert({ fid }, { onConflict: 'fid', ignoreDuplicates: true });
+            if (insertError) throw insertError;
+
+            // Conditional update, so two concurrent starts can't both claim the day
+            const { data, error } = await client
+                .from('player_state')
+                .update({ last_daily_at: now.toISOString() })
+                .eq('fid', fid)
+                .or(`last_daily_at.is.null,last_daily_at.lt.${dayStart.toISOString()}`)
+                .select('fid');
+
+            if (error) throw error;
+            return (data ?? []).length > 0;
+        },
+
+        async createSession(session) {
+            const { error } = await getSupabaseClient()
+                .from('game_sessions')
+                .insert(sessionToRow(session));
+
+            if (error) throw error;
+        },
+
+        getSession: loadSession,
+
+        async updateSession(sessionId, updates) {
+            const session = await loadSession(sessionId);
+            if (!session) return undefined;
+
+            const updated = { ...session, ...updates, id: sessionId };
+            const { error } = await getSupabaseClient()
+                .from('game_sessions')
+                .update(sessionToRow(updated))
+                .eq('id', sessionId);
+
+            if (error) throw error;
+            return updated;
+        },
+
+        async consumeNonce(sessionId, nonce, nextNonce) {
+            // UPDATE ... WHERE id = $1 AND nonce = $2: concurrent submits serialize on the row and only one matches
+            const { data, error } = await getSupabaseClient()
+                .from('game_sessions')
+                .update({ nonce: nextNonce })
+                .eq('id', sessionId)
+                .eq('nonce', nonce)
+                .select('*');
+
+            if (error) throw error;
+            const [row] = (data ?? []) as GameSessionRow[];
+            return row ? sessionFromRow(row) : undefined;
+        },
+
+        async deleteSession(sessionId) {
+            const { error } = await getSupabaseClient()
+                .from('game_sessions')
+                .delete()
+                .eq('id', sessionId);
+
+            if (error) throw error;
+        },
+
+        async listExpiredSessions(now, limit) {
+            const { data, error } = await getSupabaseClient()
+                .from('game_sessions')
+                .select('*')
+                .eq('completed', false)
+                .lt('expires_at', now.toISOString())
+                .limit(limit);
+
+            if (error) throw error;
+            return (data as GameSessionRow[]).map(sessionFromRow);
+        },
+    };
+}
+
+let sessionStore: SessionStore | null = null;
+
+// Postgres when Supabase is configured, memory otherwise (SESSION_STORE overrides)
+export function getSessionStore(): SessionStore {
+    if (!sessionStore) {
+        const backend = process.env.SESSION_STORE || (isSupabaseConfigured() ? 'postgres' : 'memory');
+        sessionStore = backend === 'postgres'
+            ? createPostgresSessionStore()
+            : createMemorySessionStore();
+    }
+    return sessionStore;
+}
+
+// Override the session store (tests)
+export function setSessionStore(store: SessionStore | null): void {
+    sessionStore = store;
+}
@@ -0,0 +1,48 @@
+import { getPlayerProfiles, getSessionResult, PlayerProfile, SessionResult } from './db';
+import { getTotalRounds } from './gameLogic';
+
+// What a shared result card shows
+export interface ShareableResult {
+    sessionId: string;
+    playerName: string;
+    correctAnswers: number;
+    totalRounds: number;
+    totalTime: number | null;
+    tokensEarned: number;
+    accessLevel: 'ELITE' | 'VERIFIED' | 'DENIED';
+}
+
+// Access level shown for a finished session (matches the in-game result screens)
+export function getAccessLevel(result: SessionResult): ShareableResult['accessLevel'] {
+    if (result.status === 'abandoned') return 'DENIED';
+    return result.perfect ? 'ELITE' : 'VERIFIED';
+}
+
+// Name shown for a player on cards and duel screens (@username, display name, or fid)
+export function getPlayerName(fid: number, profile?: PlayerProfile): string {
+    return profile?.username ? `@${profile.username}` : profile?.displayName || `fid:${fid}`;
+}
+
+// Load a finished session for its share card; null for unknown or unfinished sessions
+export async function getShareableResult(sessionId: string): Promise<ShareableResult | null> {
+    const result = await getSessionResult(sessionId);
+    if (!result) return null;
+
+    const profile = (await getPlayerProfiles([result.fid])).get(result.fid);
+
+    return {
+        sessionId,
+        playerName: getPlayerName(result.fid, profile),
+        correctAnswers: result.correctAnswers,
+        totalRounds: getTotalRounds(result.difficulty),
+        totalTime: result.totalTime,
+        tokensEarned: result.tokensEarned,
+        accessLevel: getAccessLevel(result),
+    };
+}
+
+// Format a session time the way the share text does (42s, 1m 5s)
+export function formatShareTime(totalTime: number | null): string {
+    if (totalTime === null) return '--';
+    return totalTime < 60 ? `${totalTime}s` : `${Math.floor(totalTime / 60)}m ${totalTime % 60}s`;
+}
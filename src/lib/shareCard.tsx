@@ -0,0 +1,71 @@
+import { ImageResponse } from 'next/og';
+import { formatShareTime, ShareableResult } from './share';
+
+// 3:2, as mini-app embeds require
+const WIDTH = 1200;
+const HEIGHT = 800;
+
+const GREEN = '#00ff41';
+const DIM = '#00a82b';
+const BACKGROUND = '#0a0a0a';
+
+// Terminal-styled card for a finished session (result shares and challenge links)
+export function renderResultCard(result: ShareableResult): ImageResponse {
+    const rows = [
+        ['NODES VERIFIED', `${result.correctAnswers}/${result.totalRounds}`],
+        ['TIME', formatShareTime(result.totalTime)],
+        ['ACCESS LEVEL', result.accessLevel],
+        ['ASLR TOKENS', `+${result.tokensEarned}`],
+    ];
+
+    return new ImageResponse(
+        (
+            <div
+                style={{
+                    width: '100%',
+                    height: '100%',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    padding: 60,
+                    background: BACKGROUND,
+                    color: GREEN,
+                    fontFamily: 'monospace',
+                    border: `8px solid ${DIM}`,
+                }}
+            >
+                <div style={{ display: 'flex', fontSize: 36, color: DIM }}>
+                    {`root@terminal:~$ session --result ${result.playerName}`}
+                </div>
+                <div style={{ display: 'flex', fontSize: 72, fontWeight: 700, marginTop: 40 }}>
+                    {result.accessLevel === 'ELITE' ? 'CONNECTION FULLY SECURED' : 'SESSION COMPLETE'}
+                </div>
+                <div style={{ display: 'flex', flexDirection: 'column', marginTop: 50 }}>
+                    {rows.map(([label, value]) => (
+                        <div
+                            key={label}
+                            style={{
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                fontSize: 44,
+                                padding: '14px 0',
+                                borderBottom: `2px solid ${DIM}`,
+                            }}
+                        >
+                            <span style={{ color: DIM }}>{label}</span>
+                            <span>{value}</span>
+                        </div>
+                    ))}
+                </div>
+                <div style={{ display: 'flex', fontSize: 32, color: DIM, marginTop: 'auto' }}>
+                    {'> Can you beat it? Play TERMINAL'}
+                </div>
+            </div>
+        ),
+        {
+            width: WIDTH,
+            height: HEIGHT,
+            // Results never change once recorded; the player's name rarely does
+            headers: { 'Cache-Control': 'public, max-age=86400' },
+        }
+    );
+}
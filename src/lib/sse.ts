@@ -0,0 +1,48 @@
+// Server-sent events (text/event-stream), written by routes and read by the client
+
+export interface ServerSentEvent {
+    event: string;
+    data: string;
+}
+
+// Serialize one event with a JSON payload
+export function formatServerSentEvent(event: string, data: unknown): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Comment line that keeps idle connections from being closed by proxies
+export const SSE_KEEPALIVE = ': keepalive\n\n';
+
+// Read events from a streamed response until it ends. EventSource can't send the
+// Authorization header, so the client streams with fetch and parses the events itself.
+export async function readServerSentEvents(response: Response, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+    if (!response.body) return;
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+
+        buffer += value.replace(/\r\n/g, '\n');
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            const block = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            let event = 'message';
+            const data: string[] = [];
+            for (const line of block.split('\n')) {
+                if (line.startsWith('event:')) event = line.slice(6).trim();
+                else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+            }
+
+            if (data.length > 0) {
+                onEvent({ event, data: data.join('\n') });
+            }
+            boundary = buffer.indexOf('\n\n');
+        }
+    }
+}
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemorySessionStore, setSessionStore, SessionStore } from './sessionStore';
+import {
+    banPlayer,
+    canStartSession,
+    clearCooldown,
+    consumeSessionNonce,
+    createSession,
+    expireSession,
+    getPlayer,
+    getSession,
+    releaseSessionCooldown,
+    startSessionCooldown,
+    sweepExpiredSessions,
+    type GameSession,
+} from './store';
+
+describe('startSessionCooldown', () => {
+    let store: SessionStore;
+
+    beforeEach(() => {
+        store = createMemorySessionStore();
+        setSessionStore(store);
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('lets only one of several concurrent starts through', async () => {
+        const results = await Promise.all(Array.from({ length: 5 }, () => startSessionCooldown(42)));
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+        expect((await getPlayer(42)).sessionsInCooldown).toBe(1);
+    });
+
+    it('refuses a player on cooldown until the cooldown is cleared', async () => {
+        expect(await startSessionCooldown(42)).toBe(true);
+        expect(await startSessionCooldown(42)).toBe(false);
+        expect((await canStartSession(42)).allowed).toBe(false);
+
+        await clearCooldown(42);
+        expect(await startSessionCooldown(42)).toBe(true);
+    });
+
+    it('starts a new window once the cooldown has passed', async () => {
+        await store.updatePlayer(42, { sessionsInCooldown: 1, cooldownEndsAt: new Date(Date.now() - 1000) });
+
+        expect(await startSessionCooldown(42)).toBe(true);
+        expect((await getPlayer(42)).sessionsInCooldown).toBe(1);
+    });
+
+    it('gives back a released slot', async () => {
+        expect(await startSessionCooldown(42)).toBe(true);
+        await releaseSessionCooldown(42);
+
+        expect((await getPlayer(42)).sessionsInCooldown).toBe(0);
+        expect(await startSessionCooldown(42)).toBe(true);
+
+        // Nothing to give back outside the window
+        await releaseSessionCooldown(7);
+        expect((await getPlayer(7)).sessionsInCooldown).toBe(0);
+    });
+
+    it('refuses a banned player', async () => {
+        await banPlayer(42, 'bot');
+
+        expect(await startSessionCooldown(42)).toBe(false);
+        expect(await canStartSession(42)).toMatchObject({ allowed: false, banned: true });
+    });
+});
+
+function makeSession(overrides: Partial<GameSession> = {}): GameSession {
+    const now = new Date();
+    return {
+        id: 'session-1',
+        fid: 42,
+        difficulty: 'standard',
+        mode: 'classic',
+        totalRounds: 5,
+        seed: 'seed',
+        seedCommitment: 'commitment',
+        round: 1,
+        shownNumbers: [1, 2, 3],
+        fakeNumbers: [4],
+        selectionOptions: [1, 2, 3, 4],
+        nonce: 'nonce-1',
+        startedAt: now,
+        roundStartedAt: now,
+        displayTime: 3,
+        expiresAt: new Date(now.getTime() + 60_000),
+        tokensEarned: 0,
+        completed: false,
+        abandoned: false,
+        correctAnswers: 0,
+        wrongAnswers: 0,
+        streakMultiplier: 1,
+        roundTimings: [],
+        suspicionScore: 0,
+        challengeId: null,
+        tournamentId: null,
+        ...overrides,
+    };
+}
+
+describe('consumeSessionNonce', () => {
+    beforeEach(() => {
+        setSessionStore(createMemorySessionStore());
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('lets only one of several concurrent submits claim the round', async () => {
+        await createSession(makeSession());
+
+        const results = await Promise.all(
+            Array.from({ length: 5 }, (_, i) => consumeSessionNonce('session-1', 'nonce-1', `next-${i}`))
+        );
+
+        const claimed = results.filter(Boolean);
+        expect(claimed).toHaveLength(1);
+        expect((await getSession('session-1'))?.nonce).toBe(claimed[0]?.nonce);
+    });
+
+    it('rejects a stale nonce and an unknown session', async () => {
+        await createSession(makeSession({ nonce: 'nonce-2' }));
+
+        expect(await consumeSessionNonce('session-1', 'nonce-1', 'next')).toBeUndefined();
+        expect(await consumeSessionNonce('missing', 'nonce-2', 'next')).toBeUndefined();
+        expect((await getSession('session-1'))?.nonce).toBe('nonce-2');
+    });
+});
+
+describe('expireSession', () => {
+    beforeEach(() => {
+        setSessionStore(createMemorySessionStore());
+        // No database: recording the result fails
+        vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', '');
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it('keeps the session for the next sweep when the result is not stored', async () => {
+        const session = makeSession({ expiresAt: new Date(Date.now() - 1000) });
+        await createSession(session);
+
+        expect(await expireSession(session)).toBe(false);
+        expect(await sweepExpiredSessions()).toBe(0);
+        expect(await getSession('session-1')).toBeDefined();
+    });
+});
@@ -1,4 +1,23 @@
-import { COOLDOWN_MINUTES, MAX_SESSIONS_PER_COOLDOWN } from './gameLogic';
+import {
+    COOLDOWN_MINUTES,
+    MAX_SESSIONS_PER_COOLDOWN,
+    Difficulty,
+    GameMode,
+    isToday,
+    getActiveStreak,
+    getStreakMultiplier,
+    getStreakMilestoneTokens
+} from './gameLogic';
+import { getSessionStore } from './sessionStore';
+import { scheduleUnlockNotification } from './notifications';
+import {
+    creditTokens,
+    recordSessionResult,
+    recordPlayerSessionStats,
+    getPlayerLifetimeStats,
+    getPlayerTokens,
+    PlayerLifetimeStats
+} from './db';
 
 // Player data structure
 export interface PlayerData {
@@ -7,33 +26,51 @@ export interface PlayerData {
     lastPlayedAt: Date | null;   // When the player last played
     cooldownEndsAt: Date | null; // When the cooldown ends
     totalTokens: number;
-    perfectSessions: number;
-    currentStreak: number;
-    lastStreakDate: Date | null;
+    lastDailyAt: Date | null;    // When the player last started a daily challenge
+    bannedAt: Date | null;       // Set by an admin; banned players can't start sessions
+    banReason: string | null;
+}
+
+// Outcome of one answered round
+export interface RoundTiming {
+    round: number;
+    reactionMs: number;   // Options revealed -> answer received (server clock)
+    correct: boolean;
+    timedOut: boolean;
+    tokens: number;       // Base + speed + streak tokens for the round
+    speedBonus: number;
 }
 
 // Game session structure
 export interface GameSession {
     id: string;
     fid: number;
+    difficulty: Difficulty;
+    mode: GameMode;
+    totalRounds: number;
+    seed: string;            // Secret until the session ends; rounds derive from it
+    seedCommitment: string;  // SHA-256 of the seed, published at start
     round: number;
     shownNumbers: number[];
-    fakeNumber: number;
+    fakeNumbers: number[];
     selectionOptions: number[];
     nonce: string;
     startedAt: Date;
     roundStartedAt: Date;
     displayTime: number;
+    expiresAt: Date;      // Unfinished sessions past this are abandoned
     tokensEarned: number;
     completed: boolean;
+    abandoned: boolean;
     correctAnswers: number;
     wrongAnswers: number;
+    streakMultiplier: number;  // Locked in at start from the player's active streak
+    roundTimings: RoundTiming[];
+    suspicionScore: number;    // Highest automation score seen so far; tokens are held once suspicious
+    challengeId: string | null; // Friend challenge being answered (friend mode only)
+    tournamentId: number | null; // Tournament the session is an attempt at (tournament mode only)
 }
 
-// In-memory stores (replace with database in production)
-const players = new Map<number, PlayerData>();
-const sessions = new Map<string, GameSession>();
-
 // Check if cooldown has expired
 function isCooldownExpired(cooldownEndsAt: Date | null): boolean {
     if (!cooldownEndsAt) return true;
@@ -59,43 +96,38 @@ export function formatCooldownTime(ms: number): string {
 }
 
 // Get or create player
-export function getPlayer(fid: number): PlayerData {
-    let player = players.get(fid);
-
-    if (!player) {
-        player = {
-            fid,
-            sessionsInCooldown: 0,
-            lastPlayedAt: null,
-            cooldownEndsAt: null,
-            totalTokens: 0,
-            perfectSessions: 0,
-            currentStreak: 0,
-            lastStreakDate: null,
-        };
-        players.set(fid, player);
-    }
+export async function getPlayer(fid: number): Promise<PlayerData> {
+    const player = await getSessionStore().getPlayer(fid);
 
     // Reset session counter if cooldown has expired
     if (isCooldownExpired(player.cooldownEndsAt)) {
-        player.sessionsInCooldown = 0;
-        player.cooldownEndsAt = null;
+        return { ...player, sessionsInCooldown: 0, cooldownEndsAt: null };
     }
 
     return player;
 }
 
 // Update player
-export function updatePlayer(fid: number, updates: Partial<PlayerData>): PlayerData {
-    const player = getPlayer(fid);
-    const updated = { ...player, ...updates };
-    players.set(fid, updated);
-    return updated;
+export async function updatePlayer(fid: number, updates: Partial<PlayerData>): Promise<PlayerData> {
+    return getSessionStore().updatePlayer(fid, updates);
 }
 
 // Check if player can start new session
-export function canStartSession(fid: number): { allowed: boolean; reason?: string; cooldownEndsAt?: Date | null } {
-    const player = getPlayer(fid);
+export async function canStartSession(fid: number): Promise<{
+    allowed: boolean;
+    reason?: string;
+    cooldownEndsAt?: Date | null;
+    banned?: boolean;
+}> {
+    const player = await getPlayer(fid);
+
+    if (player.bannedAt) {
+        return {
+            allowed: false,
+            reason: 'Access revoked by the system administrator.',
+            banned: true,
+        };
+    }
 
     if (player.sessionsInCooldown >= MAX_SESSIONS_PER_COOLDOWN && !isCooldownExpired(player.cooldownEndsAt)) {
         const remainingMs = getRemainingCooldown(player.cooldownEndsAt);
@@ -110,104 +142,188 @@ export function canStartSession(fid: number): { allowed: boolean; reason?: strin
     return { allowed: true };
 }
 
+// Ban a player from starting new sessions (admin)
+export async function banPlayer(fid: number, reason: string | null): Promise<PlayerData> {
+    return getSessionStore().updatePlayer(fid, { bannedAt: new Date(), banReason: reason });
+}
+
+// Lift a ban (admin)
+export async function unbanPlayer(fid: number): Promise<PlayerData> {
+    return getSessionStore().updatePlayer(fid, { bannedAt: null, banReason: null });
+}
+
+// Reset the cooldown window so the player can start right away (admin)
+export async function clearCooldown(fid: number): Promise<PlayerData> {
+    return getSessionStore().updatePlayer(fid, { sessionsInCooldown: 0, cooldownEndsAt: null });
+}
+
+// Use up today's daily challenge attempt (one per UTC day)
+export async function claimDailyAttempt(fid: number): Promise<boolean> {
+    return getSessionStore().claimDailyAttempt(fid, new Date());
+}
+
 // Create new session
-export function createSession(session: GameSession): void {
-    sessions.set(session.id, session);
+export async function createSession(session: GameSession): Promise<void> {
+    await getSessionStore().createSession(session);
 }
 
 // Get session
-export function getSession(sessionId: string): GameSession | undefined {
-    return sessions.get(sessionId);
+export async function getSession(sessionId: string): Promise<GameSession | undefined> {
+    return getSessionStore().getSession(sessionId);
 }
 
 // Update session
-export function updateSession(sessionId: string, updates: Partial<GameSession>): GameSession | undefined {
-    const session = sessions.get(sessionId);
-    if (!session) return undefined;
+export async function updateSession(sessionId: string, updates: Partial<GameSession>): Promise<GameSession | undefined> {
+    return getSessionStore().updateSession(sessionId, updates);
+}
 
-    const updated = { ...session, ...updates };
-    sessions.set(sessionId, updated);
-    return updated;
+// Move the session off `nonce` atomically; undefined if the round was already submitted
+export async function consumeSessionNonce(sessionId: string, nonce: string, nextNonce: string): Promise<GameSession | undefined> {
+    return getSessionStore().consumeNonce(sessionId, nonce, nextNonce);
 }
 
 // Delete session
-export function deleteSession(sessionId: string): void {
-    sessions.delete(sessionId);
+export async function deleteSession(sessionId: string): Promise<void> {
+    await getSessionStore().deleteSession(sessionId);
+}
+
+// Check if an unfinished session has run past its TTL
+export function isSessionExpired(session: GameSession, now: Date = new Date()): boolean {
+    return session.abandoned || (!session.completed && now > new Date(session.expiresAt));
+}
+
+// Finalize an abandoned session: record partial tokens and evict it.
+// The session is kept if the outcome could not be stored, so the next sweep retries it.
+export async function expireSession(session: GameSession): Promise<boolean> {
+    // Tokens for answered rounds are already in the ledger; this records the outcome
+    const recorded = await recordSessionResult({
+        sessionId: session.id,
+        fid: session.fid,
+        status: 'abandoned',
+        tokensEarned: session.tokensEarned,
+        correctAnswers: session.correctAnswers,
+        wrongAnswers: session.wrongAnswers,
+        perfect: false,
+        totalTime: null,
+        startedAt: session.startedAt,
+        difficulty: session.difficulty,
+        mode: session.mode,
+        tournamentId: session.tournamentId,
+        suspicionScore: session.suspicionScore,
+        seed: session.seed,
+        seedCommitment: session.seedCommitment,
+    });
+    if (!recorded) return false;
+
+    await deleteSession(session.id);
+    return true;
 }
 
-// Start cooldown immediately when game starts (prevents mid-game exit exploit)
-export function startSessionCooldown(fid: number): void {
-    const player = getPlayer(fid);
+// Evict expired sessions (run periodically)
+export async function sweepExpiredSessions(limit: number = 100): Promise<number> {
+    const expired = await getSessionStore().listExpiredSessions(new Date(), limit);
+
+    let evicted = 0;
+    for (const session of expired) {
+        if (await expireSession(session)) evicted++;
+    }
+
+    return evicted;
+}
+
+// Start cooldown immediately when game starts (prevents mid-game exit exploit).
+// Checks the ban and session limit in the same step, so concurrent starts can't all pass;
+// false means the player may not start a session now.
+export async function startSessionCooldown(fid: number): Promise<boolean> {
     const now = new Date();
 
     // Calculate cooldown end time (COOLDOWN_MINUTES from now)
     const cooldownEnd = new Date(now.getTime() + COOLDOWN_MINUTES * 60 * 1000);
 
-    updatePlayer(fid, {
-        sessionsInCooldown: player.sessionsInCooldown + 1,
-        lastPlayedAt: now,
-        cooldownEndsAt: cooldownEnd,
-    });
+    const player = await getSessionStore().startSessionCooldown(fid, now, cooldownEnd, MAX_SESSIONS_PER_COOLDOWN);
+    if (!player) {
+        return false;
+    }
+
+    // Locked out until the cooldown ends: let the player know when the terminal opens again
+    if (player.sessionsInCooldown >= MAX_SESSIONS_PER_COOLDOWN) {
+        await scheduleUnlockNotification(fid, cooldownEnd);
+    }
+
+    return true;
 }
 
-// Record session completion (cooldown already started at game start)
-export function recordSessionCompletion(fid: number, perfect: boolean): void {
-    const player = getPlayer(fid);
+// Refund a slot from startSessionCooldown when the session it was taken for is called off
+export async function releaseSessionCooldown(fid: number): Promise<void> {
+    await getSessionStore().releaseSessionCooldown(fid, new Date());
+}
 
-    // Only update perfectSessions (cooldown was already started when game began)
-    const updates: Partial<PlayerData> = {};
+// Player's active streak and the reward multiplier it earns for a new session
+export async function getStreakReward(fid: number): Promise<{ streak: number; multiplier: number }> {
+    const lifetime = await getPlayerLifetimeStats(fid);
+    const streak = getActiveStreak(lifetime.currentStreak, lifetime.lastStreakDate);
 
-    if (perfect) {
-        updates.perfectSessions = player.perfectSessions + 1;
-    }
+    return { streak, multiplier: getStreakMultiplier(streak) };
+}
 
-    // Update streak (based on daily play, not cooldown)
-    const today = new Date();
-    if (player.lastStreakDate) {
-        const lastDate = new Date(player.lastStreakDate);
-        const yesterday = new Date(today);
-        yesterday.setUTCDate(yesterday.getUTCDate() - 1);
-
-        const isSameDay = (
-            lastDate.getUTCFullYear() === today.getUTCFullYear() &&
-            lastDate.getUTCMonth() === today.getUTCMonth() &&
-            lastDate.getUTCDate() === today.getUTCDate()
-        );
-
-        const isYesterday = (
-            lastDate.getUTCFullYear() === yesterday.getUTCFullYear() &&
-            lastDate.getUTCMonth() === yesterday.getUTCMonth() &&
-            lastDate.getUTCDate() === yesterday.getUTCDate()
-        );
-
-        if (isYesterday) {
-            updates.currentStreak = player.currentStreak + 1;
-        } else if (!isSameDay) {
-            updates.currentStreak = 1;
-        }
-    } else {
-        updates.currentStreak = 1;
+// Record session completion (cooldown already started at game start)
+export async function recordSessionCompletion(fid: number, session: {
+    perfect: boolean;
+    correctAnswers: number;
+    wrongAnswers: number;
+    totalTime: number;
+}): Promise<{ stats: PlayerLifetimeStats | null; milestoneTokens: number }> {
+    // Streaks, perfect runs and totals are kept durably in player_stats
+    const previous = await getPlayerLifetimeStats(fid);
+    const stats = await recordPlayerSessionStats(fid, session);
+
+    // Only the first completed session of a day can move the streak onto a milestone
+    if (!stats || stats.lastStreakDate === previous.lastStreakDate) {
+        return { stats, milestoneTokens: 0 };
     }
 
-    updates.lastStreakDate = today;
+    // Keyed by streak day, so a concurrent session can't pay the same milestone twice
+    const milestoneTokens = getStreakMilestoneTokens(stats.currentStreak);
+    if (milestoneTokens <= 0) {
+        return { stats, milestoneTokens: 0 };
+    }
 
-    updatePlayer(fid, updates);
+    try {
+        const { inserted } = await creditTokens({
+            fid,
+            sessionId: `streak:${fid}:${stats.lastStreakDate}`,
+            round: stats.currentStreak,
+            reason: 'streak_milestone',
+            amount: milestoneTokens,
+        });
+        return { stats, milestoneTokens: inserted ? milestoneTokens : 0 };
+    } catch (error) {
+        console.error('Failed to pay streak milestone:', error);
+        return { stats, milestoneTokens: 0 };
+    }
 }
 
 // Get player stats
-export function getPlayerStats(fid: number) {
-    const player = getPlayer(fid);
+export async function getPlayerStats(fid: number) {
+    const [player, lifetime, totalTokens] = await Promise.all([
+        getPlayer(fid),
+        getPlayerLifetimeStats(fid),
+        getPlayerTokens(fid),
+    ]);
     const cooldownExpired = isCooldownExpired(player.cooldownEndsAt);
     const remainingMs = getRemainingCooldown(player.cooldownEndsAt);
 
+    const banned = Boolean(player.bannedAt);
+
     return {
         sessionsUsed: player.sessionsInCooldown,
-        canPlay: cooldownExpired || player.sessionsInCooldown < MAX_SESSIONS_PER_COOLDOWN,
+        canPlay: !banned && (cooldownExpired || player.sessionsInCooldown < MAX_SESSIONS_PER_COOLDOWN),
+        banned,
         cooldownEndsAt: player.cooldownEndsAt,
         cooldownRemaining: remainingMs,
         cooldownFormatted: formatCooldownTime(remainingMs),
-        totalTokens: player.totalTokens,
-        perfectSessions: player.perfectSessions,
-        currentStreak: player.currentStreak,
+        totalTokens,
+        dailyAvailable: !banned && (!player.lastDailyAt || !isToday(new Date(player.lastDailyAt))),
+        ...lifetime,
     };
 }
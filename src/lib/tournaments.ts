@@ -0,0 +1,441 @@
+import { creditTokens, getSupabaseClient } from './db';
+import { getSessionExpiry, isDifficulty, DEFAULT_DIFFICULTY, type Difficulty } from './gameLogic';
+
+// A scheduled competition: best run per player between startsAt and endsAt, prizes paid at close
+export interface Tournament {
+    id: number;
+    name: string;
+    startsAt: Date;
+    endsAt: Date;
+    difficulty: Difficulty;   // Round configuration every attempt is played on
+    maxAttempts: number;      // Per player
+    prizes: number[];         // Tokens by final rank: prizes[0] goes to 1st place
+    finalizedAt: Date | null; // Set once prizes are paid
+    createdAt: Date;
+}
+
+// 'closing': entries are shut, waiting for in-flight attempts before the payout
+export type TournamentStatus = 'scheduled' | 'open' | 'closing' | 'finalized';
+
+export type TournamentInput = Pick<Tournament, 'name' | 'startsAt' | 'endsAt' | 'difficulty' | 'maxAttempts' | 'prizes'>;
+
+export interface TournamentEntry {
+    rank: number;
+    fid: number;
+    correct_answers: number;
+    total_time: number;
+    finished_at: string;
+}
+
+export const DEFAULT_TOURNAMENT_ATTEMPTS = 3;
+const MAX_TOURNAMENT_ATTEMPTS = 100;
+const MAX_PRIZE_PLACES = 100;
+const MAX_PRIZE = 1_000_000;
+
+// Tournament schema (needs session_results from db.ts):
+/*
+CREATE TABLE IF NOT EXISTS tournaments (
+    id BIGSERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    difficulty TEXT NOT NULL DEFAULT 'standard',
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    prizes INTEGER[] NOT NULL DEFAULT '{}',
+    finalized_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS tournaments_unfinalized_idx ON tournaments (ends_at) WHERE finalized_at IS NULL;
+
+-- Attempts used per player
+CREATE TABLE IF NOT EXISTS tournament_players (
+    tournament_id BIGINT NOT NULL REFERENCES tournaments (id),
+    fid BIGINT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (tournament_id, fid)
+);
+
+-- Use one attempt; returns the attempts now used, or NULL when none are left
+CREATE OR REPLACE FUNCTION claim_tournament_attempt(p_tournament_id BIGINT, p_fid BIGINT, p_max_attempts INTEGER)
+RETURNS INTEGER AS $$
+    INSERT INTO tournament_players (tournament_id, fid, attempts)
+    VALUES (p_tournament_id, p_fid, 1)
+    ON CONFLICT (tournament_id, fid) DO UPDATE
+        SET attempts = tournament_players.attempts + 1
+        WHERE tournament_players.attempts < p_max_attempts
+    RETURNING attempts
+$$ language 'sql';
+
+REVOKE EXECUTE ON FUNCTION claim_tournament_attempt(BIGINT, BIGINT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_tournament_attempt(BIGINT, BIGINT, INTEGER) TO service_role;
+
+-- Each player's best completed attempt started before the close, ranked like the daily challenge.
+-- Runs at or above the suspicion threshold (SUSPICION_THRESHOLD) don't place.
+CREATE OR REPLACE FUNCTION tournament_leaderboard(p_tournament_id BIGINT)
+RETURNS TABLE (rank BIGINT, fid BIGINT, correct_answers INTEGER, total_time INTEGER, finished_at TIMESTAMP WITH TIME ZONE) AS $$
+    WITH best AS (
+        SELECT DISTINCT ON (r.fid) r.fid, r.correct_answers, r.total_time, r.finished_at
+        FROM session_results r
+        JOIN tournaments t ON t.id = r.tournament_id
+        WHERE r.tournament_id = p_tournament_id
+            AND r.status = 'completed'
+            AND r.started_at < t.ends_at
+            AND r.suspicion_score < 0.5
+        ORDER BY r.fid, r.correct_answers DESC, r.total_time ASC, r.finished_at ASC
+    )
+    SELECT
+        ROW_NUMBER() OVER (ORDER BY correct_answers DESC, total_time ASC, finished_at ASC, fid ASC) AS rank,
+        fid,
+        correct_answers,
+        total_time,
+        finished_at
+    FROM best
+$$ language 'sql' STABLE;
+
+REVOKE EXECUTE ON FUNCTION tournament_leaderboard(BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION tournament_leaderboard(BIGINT) TO service_role;
+*/
+
+interface TournamentRow {
+    id: number;
+    name: string;
+    starts_at: string;
+    ends_at: string;
+    difficulty: Difficulty;
+    max_attempts: number;
+    prizes: number[] | null;
+    finalized_at: string | null;
+    created_at: string;
+}
+
+function tournamentFromRow(row: TournamentRow): Tournament {
+    return {
+        id: Number(row.id),
+        name: row.name,
+        startsAt: new Date(row.starts_at),
+        endsAt: new Date(row.ends_at),
+        difficulty: row.difficulty,
+        maxAttempts: row.max_attempts,
+        prizes: row.prizes ?? [],
+        finalizedAt: row.finalized_at ? new Date(row.finalized_at) : null,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+function tournamentToRow(input: Partial<TournamentInput>): Partial<TournamentRow> {
+    const row: Partial<TournamentRow> = {};
+    if (input.name !== undefined) row.name = input.name;
+    if (input.startsAt !== undefined) row.starts_at = input.startsAt.toISOString();
+    if (input.endsAt !== undefined) row.ends_at = input.endsAt.toISOString();
+    if (input.difficulty !== undefined) row.difficulty = input.difficulty;
+    if (input.maxAttempts !== undefined) row.max_attempts = input.maxAttempts;
+    if (input.prizes !== undefined) row.prizes = input.prizes;
+    return row;
+}
+
+// When prizes can be paid: every attempt started before the close has finished or expired
+export function getTournamentFinalizeAt(tournament: Tournament): Date {
+    return getSessionExpiry(tournament.endsAt, tournament.difficulty);
+}
+
+export function getTournamentStatus(tournament: Tournament, now: Date = new Date()): TournamentStatus {
+    if (tournament.finalizedAt) return 'finalized';
+    if (now < tournament.startsAt) return 'scheduled';
+    if (now < tournament.endsAt) return 'open';
+    return 'closing';
+}
+
+// Parse a tournament id from a route param; null if it isn't a positive integer
+export function parseTournamentId(value: string): number | null {
+    const id = Number(value);
+    return /^\d+$/.test(value) && Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+function parseDate(value: unknown): Date | null {
+    if (typeof value !== 'string') return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+// Validate an admin body; fields missing from a PATCH body keep the current tournament's values
+export function parseTournamentInput(
+    body: Record<string, unknown>,
+    current?: Tournament
+): { input: TournamentInput } | { error: string } {
+    const name = body.name === undefined ? current?.name : typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 64) {
+        return { error: 'name must be 1-64 characters' };
+    }
+
+    const startsAt = body.startsAt === undefined ? current?.startsAt : parseDate(body.startsAt);
+    const endsAt = body.endsAt === undefined ? current?.endsAt : parseDate(body.endsAt);
+    if (!startsAt || !endsAt) {
+        return { error: 'startsAt and endsAt must be ISO timestamps' };
+    }
+    if (endsAt <= startsAt) {
+        return { error: 'endsAt must be after startsAt' };
+    }
+    if (endsAt <= new Date()) {
+        return { error: 'endsAt must be in the future' };
+    }
+
+    const difficulty = body.difficulty ?? current?.difficulty ?? DEFAULT_DIFFICULTY;
+    if (!isDifficulty(difficulty)) {
+        return { error: 'Invalid difficulty' };
+    }
+
+    const maxAttempts = body.maxAttempts ?? current?.maxAttempts ?? DEFAULT_TOURNAMENT_ATTEMPTS;
+    if (!Number.isInteger(maxAttempts) || (maxAttempts as number) < 1 || (maxAttempts as number) > MAX_TOURNAMENT_ATTEMPTS) {
+        return { error: `maxAttempts must be an integer from 1 to ${MAX_TOURNAMENT_ATTEMPTS}` };
+    }
+
+    const prizes = body.prizes ?? current?.prizes;
+    if (
+        !Array.isArray(prizes) || prizes.length === 0 || prizes.length > MAX_PRIZE_PLACES
+        || !prizes.every(prize => Number.isInteger(prize) && prize > 0 && prize <= MAX_PRIZE)
+    ) {
+        return { error: `prizes must list 1-${MAX_PRIZE_PLACES} positive token amounts, 1st place first` };
+    }
+
+    return { input: { name, startsAt, endsAt, difficulty, maxAttempts: maxAttempts as number, prizes } };
+}
+
+export async function createTournament(input: TournamentInput): Promise<Tournament> {
+    const { data, error } = await getSupabaseClient()
+        .from('tournaments')
+        .insert(tournamentToRow(input))
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return tournamentFromRow(data as TournamentRow);
+}
+
+export async function updateTournament(id: number, input: Partial<TournamentInput>): Promise<Tournament> {
+    const { data, error } = await getSupabaseClient()
+        .from('tournaments')
+        .update(tournamentToRow(input))
+        .eq('id', id)
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return tournamentFromRow(data as TournamentRow);
+}
+
+export async function deleteTournament(id: number): Promise<void> {
+    const { error } = await getSupabaseClient()
+        .from('tournaments')
+        .delete()
+        .eq('id', id);
+
+    if (error) throw error;
+}
+
+export async function getTournament(id: number): Promise<Tournament | null> {
+    try {
+        const { data, error } = await getSupabaseClient()
+            .from('tournaments')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (error || !data) {
+            return null;
+        }
+
+        return tournamentFromRow(data as TournamentRow);
+    } catch (error) {
+        console.error('Error getting tournament:', error);
+        return null;
+    }
+}
+
+// Page of tournaments, newest start first; endedAfter limits it to ones still running or recently over
+export async function listTournaments(options: {
+    endedAfter?: Date;
+    cursor?: number;
+    limit?: number;
+} = {}): Promise<{ tournaments: Tournament[]; nextCursor: number | null }> {
+    const { endedAfter, cursor, limit = 20 } = options;
+
+    let query = getSupabaseClient()
+        .from('tournaments')
+        .select('*')
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+    if (endedAfter) query = query.gt('ends_at', endedAfter.toISOString());
+    if (cursor) query = query.lt('id', cursor);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const tournaments = ((data ?? []) as TournamentRow[]).slice(0, limit).map(tournamentFromRow);
+    const hasMore = (data ?? []).length > limit;
+
+    return {
+        tournaments,
+        nextCursor: hasMore ? tournaments[tournaments.length - 1].id : null,
+    };
+}
+
+// Use one of the player's attempts; false when they are all used
+export async function claimTournamentAttempt(tournament: Tournament, fid: number): Promise<boolean> {
+    const { data, error } = await getSupabaseClient().rpc('claim_tournament_attempt', {
+        p_tournament_id: tournament.id,
+        p_fid: fid,
+        p_max_attempts: tournament.maxAttempts,
+    });
+
+    if (error) throw error;
+    return data !== null;
+}
+
+// Attempts a player has used in each of the given tournaments
+export async function getTournamentAttempts(tournamentIds: number[], fid: number): Promise<Map<number, number>> {
+    const attempts = new Map<number, number>();
+    if (tournamentIds.length === 0) return attempts;
+
+    try {
+        const { data, error } = await getSupabaseClient()
+            .from('tournament_players')
+            .select('tournament_id, attempts')
+            .eq('fid', fid)
+            .in('tournament_id', tournamentIds);
+
+        if (error || !data) {
+            return attempts;
+        }
+
+        for (const row of data) {
+            attempts.set(Number(row.tournament_id), row.attempts);
+        }
+        return attempts;
+    } catch (error) {
+        console.error('Error getting tournament attempts:', error);
+        return attempts;
+    }
+}
+
+function tournamentQuery(tournamentId: number) {
+    return getSupabaseClient().rpc('tournament_leaderboard', { p_tournament_id: tournamentId });
+}
+
+function toTournamentEntry(row: TournamentEntry): TournamentEntry {
+    return {
+        rank: Number(row.rank),
+        fid: Number(row.fid),
+        correct_answers: row.correct_answers,
+        total_time: row.total_time,
+        finished_at: row.finished_at,
+    };
+}
+
+// Get a page of a tournament's standings; cursor is the last rank already shown
+export async function getTournamentLeaderboard(options: {
+    tournamentId: number;
+    cursor?: number;
+    limit?: number;
+}): Promise<{ entries: TournamentEntry[]; nextCursor: number | null }> {
+    const { tournamentId, cursor = 0, limit = 10 } = options;
+
+    const { data, error } = await tournamentQuery(tournamentId)
+        .gt('rank', cursor)
+        .order('rank', { ascending: true })
+        .limit(limit + 1);
+
+    if (error) throw error;
+
+    const entries = ((data ?? []) as TournamentEntry[]).slice(0, limit).map(toTournamentEntry);
+    const hasMore = (data ?? []).length > limit;
+
+    return {
+        entries,
+        nextCursor: hasMore ? entries[entries.length - 1].rank : null,
+    };
+}
+
+// Get a player's entry on a tournament's standings
+export async function getTournamentRank(fid: number, tournamentId: number): Promise<TournamentEntry | null> {
+    try {
+        const { data, error } = await tournamentQuery(tournamentId)
+            .eq('fid', fid)
+            .maybeSingle();
+
+        if (error || !data) {
+            return null;
+        }
+
+        return toTournamentEntry(data as TournamentEntry);
+    } catch (error) {
+        console.error('Error getting tournament rank:', error);
+        return null;
+    }
+}
+
+// Pay the prize table to the final standings and mark the tournament finalized.
+// Credits are keyed by (tournament, fid), so a retry after a partial payout pays nobody twice.
+// Returns the entries this run paid.
+export async function finalizeTournament(tournament: Tournament, now: Date = new Date()): Promise<TournamentEntry[]> {
+    if (tournament.finalizedAt || now < getTournamentFinalizeAt(tournament)) {
+        return [];
+    }
+
+    const { entries } = await getTournamentLeaderboard({
+        tournamentId: tournament.id,
+        limit: tournament.prizes.length,
+    });
+
+    const paid: TournamentEntry[] = [];
+    for (const entry of entries) {
+        // A prize an earlier, partial run already paid comes back as not inserted and counts as paid.
+        // A failed credit throws, which leaves the tournament open for the next run.
+        const { inserted } = await creditTokens({
+            fid: entry.fid,
+            sessionId: `tournament:${tournament.id}:${entry.fid}`,
+            round: 0,
+            reason: 'tournament_prize',
+            amount: tournament.prizes[entry.rank - 1],
+        });
+        if (inserted) paid.push(entry);
+    }
+
+    const { error } = await getSupabaseClient()
+        .from('tournaments')
+        .update({ finalized_at: now.toISOString() })
+        .eq('id', tournament.id)
+        .is('finalized_at', null);
+
+    if (error) throw error;
+    return paid;
+}
+
+// Finalize every tournament whose attempts are all over (run periodically)
+export async function finalizeDueTournaments(now: Date = new Date()): Promise<number> {
+    const { data, error } = await getSupabaseClient()
+        .from('tournaments')
+        .select('*')
+        .is('finalized_at', null)
+        .lt('ends_at', now.toISOString())
+        .order('ends_at', { ascending: true })
+        .limit(20);
+
+    if (error) throw error;
+
+    let finalized = 0;
+    for (const tournament of ((data ?? []) as TournamentRow[]).map(tournamentFromRow)) {
+        if (now < getTournamentFinalizeAt(tournament)) continue;
+
+        try {
+            await finalizeTournament(tournament, now);
+            finalized += 1;
+        } catch (finalizeError) {
+            console.error(`Error finalizing tournament ${tournament.id}:`, finalizeError);
+        }
+    }
+
+    return finalized;
+}
@@ -0,0 +1,41 @@
+import { Address, Hex, PersonalMessage, Secp256k1, Signature } from 'ox';
+
+// Proof that the player controls the wallet a withdrawal is paid to: a personal_sign
+// signature over a message naming the fid, wallet and amount. Shared by client and server.
+
+// Signatures older (or further in the future) than this are refused
+export const WALLET_PROOF_MAX_AGE_MS = 5 * 60 * 1000;
+
+export interface WalletProof {
+    fid: number;
+    wallet: string;
+    amount: number;
+    issuedAt: string;   // ISO timestamp chosen by the client when signing
+}
+
+// Text the wallet signs
+export function getWalletProofMessage(proof: WalletProof): string {
+    return [
+        'Terminal ASLR withdrawal',
+        `fid: ${proof.fid}`,
+        `wallet: ${proof.wallet}`,
+        `amount: ${proof.amount}`,
+        `issued: ${proof.issuedAt}`,
+    ].join('\n');
+}
+
+// Check the signature recovers to the wallet and was made recently (EOA wallets only)
+export function verifyWalletProof(proof: WalletProof & { signature: string }, now: Date = new Date()): boolean {
+    const issuedAt = Date.parse(proof.issuedAt);
+    if (!Number.isFinite(issuedAt) || Math.abs(now.getTime() - issuedAt) > WALLET_PROOF_MAX_AGE_MS) {
+        return false;
+    }
+
+    try {
+        const payload = PersonalMessage.getSignPayload(Hex.fromString(getWalletProofMessage(proof)));
+        const signer = Secp256k1.recoverAddress({ payload, signature: Signature.fromHex(proof.signature as Hex.Hex) });
+        return Address.isEqual(signer, proof.wallet as Address.Address);
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit } from '@/lib/rateLimit';
+import { getAuthenticatedFid } from '@/lib/auth';
+
+// Client IP as forwarded by the hosting platform
+function getClientIp(request: NextRequest): string {
+    const forwarded = request.headers.get('x-forwarded-for');
+    return forwarded?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+}
+
+// Rate limit every API request by IP, and by fid when it carries a valid Quick Auth token
+export async function proxy(request: NextRequest) {
+    const keys = [`ip:${getClientIp(request)}`];
+
+    const fid = await getAuthenticatedFid(request);
+    if (fid) {
+        keys.push(`fid:${fid}`);
+    }
+
+    const blocked = await checkRateLimit(request.nextUrl.pathname, request.method, keys);
+    if (blocked) {
+        return NextResponse.json(
+            { error: 'Too many requests', code: 'RATE_LIMITED' },
+            {
+                status: 429,
+                headers: { 'Retry-After': String(Math.max(1, Math.ceil(blocked.retryAfterMs / 1000))) },
+            }
+        );
+    }
+
+    return NextResponse.next();
+}
+
+export const config = {
+    matcher: '/api/:path*',
+};